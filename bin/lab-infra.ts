@@ -7,30 +7,41 @@ import * as cdk from "aws-cdk-lib";
 // '../lib/' = 上位ディレクトリのlibフォルダからインポート
 // { } で名前付きインポート（クラス名を明示的に指定）
 import { NetworkStack } from "../lib/network-stack";
+import { DatabaseStack } from "../lib/database-stack";
 import { FargateServiceStack } from "../lib/fargate-service-stack";
 import { PipelineStack } from "../lib/pipeline-stack";
+import { loadEnvironmentConfig } from "../lib/config/environment-config";
+import { DeploymentRoleCoverageChecker } from "../lib/aspects/deployment-role-coverage";
+import { PolicyChecker } from "../lib/aspects/policy-checker";
+import { applyPermissionsBoundary } from "../lib/constructs/permissions-boundary";
 
 /**
  * AWS CDK学習用ラボプロジェクト
  *
- * このプロジェクトでは以下の3つのスタックを作成します：
+ * このプロジェクトでは以下のスタックを作成します：
  * 1. NetworkStack: VPCとサブネットの基盤ネットワーク
- * 2. FargateServiceStack: ECS Fargateサービス
- * 3. PipelineStack: CI/CDパイプライン
+ * 2. DatabaseStack: PostgreSQLデータベース（環境設定に database がある場合のみ）
+ * 3. FargateServiceStack: ECS Fargateサービス
+ * 4. PipelineStack: CI/CDパイプライン
+ *
+ * 環境（dev / stg / prod）はCDK contextのstageで切り替えます：
+ *   cdk synth -c stage=prod
+ * 未指定の場合は cdk.json の context に設定された値（dev）を使用します。
  */
 
 // TypeScript: constで定数を宣言、newでインスタンス作成
 // cdk.App = CDKアプリケーションのルートオブジェクト
 const app = new cdk.App();
 
+// 環境設定の読み込み
+// ステージ名が不正な場合や設定値に誤りがある場合は、ここで例外が発生しsynthが失敗する
+const config = loadEnvironmentConfig(app);
+
 // TypeScript: オブジェクトリテラルで設定オブジェクトを作成
-// process.env = Node.jsの環境変数オブジェクト
-// || 演算子 = 左辺がfalsyなら右辺を使用（Javaの?:演算子と同様）
-// 環境設定（リージョンとアカウントIDを指定）
-// 実際の使用時は、環境変数やCDK contextから取得することを推奨
+// デプロイ先の環境（リージョンとアカウントID）は環境設定から取得
 const env = {
-  account: process.env.CDK_DEFAULT_ACCOUNT, // string | undefined型
-  region: process.env.CDK_DEFAULT_REGION || "ap-northeast-1", // string型
+  account: config.account, // string | undefined型
+  region: config.region, // string型
 };
 
 // TypeScript: コンストラクタの引数でオブジェクトリテラルを使用
@@ -40,11 +51,26 @@ const env = {
 const networkStack = new NetworkStack(app, "LabInfraNetworkStack", {
   env, // 上で定義した環境設定オブジェクトを参照
   description: "学習用ラボ - ネットワーク基盤スタック（VPC、サブネット）",
+  config, // config: config の省略記法
 });
 
+// 2. データベーススタック（オプション）
+// NetworkStackの分離サブネットにデータベースを作成
+// TypeScript: 三項演算子で、設定がない場合は undefined にする
+const databaseStack = config.database
+  ? new DatabaseStack(app, "LabInfraDatabaseStack", {
+      env,
+      description: "学習用ラボ - データベーススタック（RDS / Aurora）",
+      config,
+      database: config.database,
+      vpc: networkStack.vpc,
+    })
+  : undefined;
+databaseStack?.addDependency(networkStack);
+
 // TypeScript: カスタムインターフェースを使用したコンストラクタ
 // vpc: networkStack.vpc = 他のスタックのpublicプロパティを参照
-// 2. Fargateサービススタック（ECSクラスター、タスク定義、サービス）を作成
+// 3. Fargateサービススタック（ECSクラスター、タスク定義、サービス）を作成
 // NetworkStackで作成したVPCを参照して、ECSリソースを構築
 const fargateServiceStack = new FargateServiceStack(
   app,
@@ -52,23 +78,58 @@ const fargateServiceStack = new FargateServiceStack(
   {
     env,
     description: "学習用ラボ - ECS Fargateサービススタック",
+    config,
     // NetworkStackで作成したVPCを参照するための依存関係を設定
     vpc: networkStack.vpc, // 上で作成したスタックのプロパティを参照
+    // データベースの接続情報をコンテナに注入し、サービスからの接続を許可する
+    database: databaseStack,
   }
 );
 
-// 3. CI/CDパイプラインスタック（CodePipeline、CodeBuild）を作成
+// TypeScript: メソッドチェーンで依存関係を設定
+// addDependencyメソッドは戻り値なし（void）
+// スタック間の依存関係を明示的に設定
+// FargateServiceStackはNetworkStackに依存
+// パイプラインはこの依存関係からデプロイの順番を決めるため、パイプラインより前に設定する
+fargateServiceStack.addDependency(networkStack);
+if (databaseStack) {
+  fargateServiceStack.addDependency(databaseStack);
+}
+
+// パイプラインでデプロイするスタック
+// TypeScript: スプレッド構文で、DatabaseStackがある場合のみ配列に含める
+const applicationStacks: cdk.Stack[] = [
+  networkStack,
+  ...(databaseStack ? [databaseStack] : []),
+  fargateServiceStack,
+];
+
+// 4. CI/CDパイプラインスタック（CodePipeline、CodeBuild）を作成
 // 上記で作成したスタックをデプロイするためのパイプラインを構築
+// パイプラインは自身（PipelineStack）も更新するため、初回のみ手動でデプロイする
 const pipelineStack = new PipelineStack(app, "LabInfraPipelineStack", {
   env,
   description: "学習用ラボ - CI/CDパイプラインスタック",
+  config,
+  // スタックを追加した場合は、applicationStacks に追加するとパイプラインでデプロイされる
+  stacks: applicationStacks,
 });
 
-// TypeScript: メソッドチェーンで依存関係を設定
-// addDependencyメソッドは戻り値なし（void）
-// スタック間の依存関係を明示的に設定
-// FargateServiceStackはNetworkStackに依存
-fargateServiceStack.addDependency(networkStack);
+// IAMロールの権限の境界（PipelineStackで作成）を全てのスタックのロールに設定
+// 境界の管理ポリシーが先に作成されるように、PipelineStackを先にデプロイする
+applicationStacks.forEach((stack) => {
+  applyPermissionsBoundary(stack);
+  stack.addDependency(pipelineStack);
+});
+
+// パイプラインからデプロイするスタックに、実行ロールで管理できないリソースがないか確認
+[...applicationStacks, pipelineStack].forEach((stack) => {
+  cdk.Aspects.of(stack).add(new DeploymentRoleCoverageChecker());
+});
+
+// セキュリティ・運用ルールのチェック（全スタック）
+// 本番ではエラーになるルールがあるため、意図的な違反は suppressPolicyRule で理由を明記する
+cdk.Aspects.of(app).add(new PolicyChecker(config.stage));
 
 // TypeScript: 静的メソッドチェーンでタグを設定
 // cdk.Tags.of(app) = 静的メソッドでTagsオブジェクトを取得
@@ -77,4 +138,4 @@ fargateServiceStack.addDependency(networkStack);
 // 全てのリソースに共通のタグを付与
 cdk.Tags.of(app).add("Project", "LabInfra"); // (key: string, value: string)
 cdk.Tags.of(app).add("Purpose", "Learning");
-cdk.Tags.of(app).add("Environment", "Development");
+cdk.Tags.of(app).add("Environment", config.displayName); // 例: "Development"
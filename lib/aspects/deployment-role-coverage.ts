@@ -0,0 +1,525 @@
+import * as cdk from "aws-cdk-lib";
+import * as iam from "aws-cdk-lib/aws-iam";
+import { IConstruct } from "constructs";
+
+/**
+ * パイプラインのCloudFormation実行ロールで管理できるサービスと、許可するアクション
+ *
+ * キー: CloudFormationのリソースタイプの名前空間（AWS::EC2::VPC の "EC2"）
+ * 値:   CloudFormationがリソースの作成・更新・削除・参照で呼び出すアクション
+ *
+ * サービス単位の "ec2:*" ではなく、スタックのリソースの管理に必要なアクションのみを許可する
+ * （データの読み書き、例えば s3:GetObject や kms:Decrypt は含めない）
+ * スタックに新しい種類のリソースを追加する場合は、ここにサービスとアクションを追加する
+ * （PipelineStackの実行ロールとDeploymentRoleCoverageCheckerの両方に反映される）
+ * IAMはサービス単位では許可しないため、DEPLOYMENT_ROLE_IAM_TYPES で扱う
+ */
+export const DEPLOYMENT_ROLE_SERVICES: Record<string, readonly string[]> = {
+  EC2: [
+    "ec2:Describe*",
+    "ec2:CreateTags",
+    "ec2:DeleteTags",
+    // VPC・サブネット・ルートテーブル・インターネットゲートウェイ
+    "ec2:CreateVpc",
+    "ec2:DeleteVpc",
+    "ec2:ModifyVpcAttribute",
+    "ec2:CreateSubnet",
+    "ec2:DeleteSubnet",
+    "ec2:ModifySubnetAttribute",
+    "ec2:CreateRouteTable",
+    "ec2:DeleteRouteTable",
+    "ec2:CreateRoute",
+    "ec2:DeleteRoute",
+    "ec2:ReplaceRoute",
+    "ec2:AssociateRouteTable",
+    "ec2:DisassociateRouteTable",
+    "ec2:ReplaceRouteTableAssociation",
+    "ec2:CreateInternetGateway",
+    "ec2:DeleteInternetGateway",
+    "ec2:AttachInternetGateway",
+    "ec2:DetachInternetGateway",
+    // NATゲートウェイ・NATインスタンス（network.egress による）
+    "ec2:AllocateAddress",
+    "ec2:ReleaseAddress",
+    "ec2:AssociateAddress",
+    "ec2:DisassociateAddress",
+    "ec2:CreateNatGateway",
+    "ec2:DeleteNatGateway",
+    "ec2:RunInstances",
+    "ec2:TerminateInstances",
+    "ec2:StartInstances",
+    "ec2:StopInstances",
+    "ec2:ModifyInstanceAttribute",
+    // VPCエンドポイント（network.egress が vpcEndpoints）
+    "ec2:CreateVpcEndpoint",
+    "ec2:ModifyVpcEndpoint",
+    "ec2:DeleteVpcEndpoints",
+    // セキュリティグループ
+    "ec2:CreateSecurityGroup",
+    "ec2:DeleteSecurityGroup",
+    "ec2:AuthorizeSecurityGroupIngress",
+    "ec2:AuthorizeSecurityGroupEgress",
+    "ec2:RevokeSecurityGroupIngress",
+    "ec2:RevokeSecurityGroupEgress",
+    "ec2:UpdateSecurityGroupRuleDescriptionsIngress",
+    "ec2:UpdateSecurityGroupRuleDescriptionsEgress",
+    "ec2:ModifySecurityGroupRules",
+  ],
+  ECS: [
+    "ecs:Describe*",
+    "ecs:List*",
+    "ecs:CreateCluster",
+    "ecs:UpdateCluster",
+    "ecs:UpdateClusterSettings",
+    "ecs:DeleteCluster",
+    "ecs:PutClusterCapacityProviders",
+    "ecs:RegisterTaskDefinition",
+    "ecs:DeregisterTaskDefinition",
+    "ecs:CreateService",
+    "ecs:UpdateService",
+    "ecs:DeleteService",
+    "ecs:TagResource",
+    "ecs:UntagResource",
+  ],
+  Logs: [
+    "logs:Describe*",
+    "logs:ListTagsLogGroup",
+    "logs:ListTagsForResource",
+    "logs:CreateLogGroup",
+    "logs:DeleteLogGroup",
+    "logs:PutRetentionPolicy",
+    "logs:DeleteRetentionPolicy",
+    "logs:AssociateKmsKey",
+    "logs:DisassociateKmsKey",
+    "logs:TagLogGroup",
+    "logs:UntagLogGroup",
+    "logs:TagResource",
+    "logs:UntagResource",
+    "logs:PutMetricFilter",
+    "logs:DeleteMetricFilter",
+    // WAFのログの出力先の設定（ロググループのリソースポリシーとログの配信）
+    "logs:PutResourcePolicy",
+    "logs:DeleteResourcePolicy",
+    "logs:CreateLogDelivery",
+    "logs:GetLogDelivery",
+    "logs:UpdateLogDelivery",
+    "logs:DeleteLogDelivery",
+    "logs:ListLogDeliveries",
+  ],
+  S3: [
+    "s3:ListAllMyBuckets",
+    "s3:ListBucket",
+    "s3:CreateBucket",
+    "s3:DeleteBucket",
+    "s3:GetBucket*",
+    "s3:PutBucket*",
+    "s3:DeleteBucketPolicy",
+    "s3:DeleteBucketOwnershipControls",
+    "s3:GetEncryptionConfiguration",
+    "s3:PutEncryptionConfiguration",
+    "s3:GetLifecycleConfiguration",
+    "s3:PutLifecycleConfiguration",
+  ],
+  ElasticLoadBalancingV2: [
+    "elasticloadbalancing:Describe*",
+    "elasticloadbalancing:CreateLoadBalancer",
+    "elasticloadbalancing:DeleteLoadBalancer",
+    "elasticloadbalancing:ModifyLoadBalancerAttributes",
+    "elasticloadbalancing:SetSecurityGroups",
+    "elasticloadbalancing:SetSubnets",
+    "elasticloadbalancing:SetIpAddressType",
+    "elasticloadbalancing:CreateTargetGroup",
+    "elasticloadbalancing:DeleteTargetGroup",
+    "elasticloadbalancing:ModifyTargetGroup",
+    "elasticloadbalancing:ModifyTargetGroupAttributes",
+    "elasticloadbalancing:CreateListener",
+    "elasticloadbalancing:DeleteListener",
+    "elasticloadbalancing:ModifyListener",
+    "elasticloadbalancing:AddListenerCertificates",
+    "elasticloadbalancing:RemoveListenerCertificates",
+    "elasticloadbalancing:CreateRule",
+    "elasticloadbalancing:DeleteRule",
+    "elasticloadbalancing:ModifyRule",
+    "elasticloadbalancing:SetRulePriorities",
+    "elasticloadbalancing:AddTags",
+    "elasticloadbalancing:RemoveTags",
+    // WAFのWeb ACLの関連付け（wafv2:AssociateWebACL から呼び出される）
+    "elasticloadbalancing:SetWebAcl",
+  ],
+  ApplicationAutoScaling: [
+    "application-autoscaling:Describe*",
+    "application-autoscaling:ListTagsForResource",
+    "application-autoscaling:RegisterScalableTarget",
+    "application-autoscaling:DeregisterScalableTarget",
+    "application-autoscaling:PutScalingPolicy",
+    "application-autoscaling:DeleteScalingPolicy",
+    "application-autoscaling:PutScheduledAction",
+    "application-autoscaling:DeleteScheduledAction",
+    "application-autoscaling:TagResource",
+    "application-autoscaling:UntagResource",
+  ],
+  CloudWatch: [
+    "cloudwatch:DescribeAlarms",
+    "cloudwatch:PutMetricAlarm",
+    "cloudwatch:DeleteAlarms",
+    "cloudwatch:GetDashboard",
+    "cloudwatch:ListDashboards",
+    "cloudwatch:PutDashboard",
+    "cloudwatch:DeleteDashboards",
+    "cloudwatch:ListTagsForResource",
+    "cloudwatch:TagResource",
+    "cloudwatch:UntagResource",
+  ],
+  CodeDeploy: [
+    "codedeploy:Get*",
+    "codedeploy:List*",
+    "codedeploy:CreateApplication",
+    "codedeploy:UpdateApplication",
+    "codedeploy:DeleteApplication",
+    "codedeploy:CreateDeploymentGroup",
+    "codedeploy:UpdateDeploymentGroup",
+    "codedeploy:DeleteDeploymentGroup",
+    "codedeploy:CreateDeploymentConfig",
+    "codedeploy:DeleteDeploymentConfig",
+    "codedeploy:TagResource",
+    "codedeploy:UntagResource",
+  ],
+  Events: [
+    "events:DescribeRule",
+    "events:ListTargetsByRule",
+    "events:ListTagsForResource",
+    "events:PutRule",
+    "events:DeleteRule",
+    "events:EnableRule",
+    "events:DisableRule",
+    "events:PutTargets",
+    "events:RemoveTargets",
+    "events:TagResource",
+    "events:UntagResource",
+  ],
+  Lambda: [
+    "lambda:GetFunction",
+    "lambda:GetFunctionConfiguration",
+    "lambda:GetPolicy",
+    "lambda:GetRuntimeManagementConfig",
+    "lambda:ListTags",
+    "lambda:ListVersionsByFunction",
+    "lambda:CreateFunction",
+    "lambda:UpdateFunctionCode",
+    "lambda:UpdateFunctionConfiguration",
+    "lambda:PutRuntimeManagementConfig",
+    "lambda:DeleteFunction",
+    "lambda:PublishVersion",
+    "lambda:AddPermission",
+    "lambda:RemovePermission",
+    "lambda:TagResource",
+    "lambda:UntagResource",
+    // カスタムリソース（ログの保持期間の設定など）のLambda関数の呼び出し
+    "lambda:InvokeFunction",
+  ],
+  SSM: [
+    // テンプレートのパラメータ（cdk bootstrap のバージョンなど）の参照
+    "ssm:GetParameter",
+    "ssm:GetParameters",
+    "ssm:DescribeParameters",
+    "ssm:ListTagsForResource",
+    "ssm:PutParameter",
+    "ssm:DeleteParameter",
+    "ssm:AddTagsToResource",
+    "ssm:RemoveTagsFromResource",
+  ],
+  SecretsManager: [
+    "secretsmanager:DescribeSecret",
+    "secretsmanager:GetRandomPassword",
+    "secretsmanager:CreateSecret",
+    "secretsmanager:UpdateSecret",
+    "secretsmanager:DeleteSecret",
+    "secretsmanager:TagResource",
+    "secretsmanager:UntagResource",
+    "secretsmanager:GetResourcePolicy",
+    "secretsmanager:PutResourcePolicy",
+    "secretsmanager:DeleteResourcePolicy",
+    // データベースの認証情報の動的参照（{{resolve:secretsmanager:...}}）と
+    // SecretTargetAttachment（接続先のホスト名の追加）
+    "secretsmanager:GetSecretValue",
+    "secretsmanager:PutSecretValue",
+  ],
+  RDS: [
+    "rds:Describe*",
+    "rds:ListTagsForResource",
+    "rds:CreateDBSubnetGroup",
+    "rds:ModifyDBSubnetGroup",
+    "rds:DeleteDBSubnetGroup",
+    "rds:CreateDBInstance",
+    "rds:ModifyDBInstance",
+    "rds:DeleteDBInstance",
+    "rds:CreateDBCluster",
+    "rds:ModifyDBCluster",
+    "rds:DeleteDBCluster",
+    // 削除ポリシーが SNAPSHOT の場合の削除時のスナップショット
+    "rds:CreateDBSnapshot",
+    "rds:CreateDBClusterSnapshot",
+    "rds:AddTagsToResource",
+    "rds:RemoveTagsFromResource",
+  ],
+  ServiceDiscovery: [
+    "servicediscovery:Get*",
+    "servicediscovery:List*",
+    "servicediscovery:CreatePrivateDnsNamespace",
+    "servicediscovery:DeleteNamespace",
+    "servicediscovery:CreateService",
+    "servicediscovery:UpdateService",
+    "servicediscovery:DeleteService",
+    "servicediscovery:TagResource",
+    "servicediscovery:UntagResource",
+  ],
+  // Cloud Mapのプライベートな名前空間はRoute 53のホストゾーンとして作成される
+  Route53: [
+    "route53:GetHostedZone",
+    "route53:GetChange",
+    "route53:ListHostedZones",
+    "route53:ListHostedZonesByName",
+    "route53:ListResourceRecordSets",
+    "route53:ListTagsForResource",
+    "route53:CreateHostedZone",
+    "route53:DeleteHostedZone",
+    "route53:AssociateVPCWithHostedZone",
+    "route53:DisassociateVPCFromHostedZone",
+    "route53:ChangeResourceRecordSets",
+    "route53:ChangeTagsForResource",
+  ],
+  CertificateManager: [
+    "acm:DescribeCertificate",
+    "acm:ListCertificates",
+    "acm:ListTagsForCertificate",
+    "acm:RequestCertificate",
+    "acm:DeleteCertificate",
+    "acm:UpdateCertificateOptions",
+    "acm:AddTagsToCertificate",
+    "acm:RemoveTagsFromCertificate",
+  ],
+  WAFv2: [
+    "wafv2:Get*",
+    "wafv2:List*",
+    "wafv2:CreateWebACL",
+    "wafv2:UpdateWebACL",
+    "wafv2:DeleteWebACL",
+    "wafv2:AssociateWebACL",
+    "wafv2:DisassociateWebACL",
+    "wafv2:PutLoggingConfiguration",
+    "wafv2:DeleteLoggingConfiguration",
+    "wafv2:TagResource",
+    "wafv2:UntagResource",
+  ],
+  // キーの管理のみ（暗号化・復号とグラントはPipelineStackで条件付きで許可する）
+  KMS: [
+    "kms:DescribeKey",
+    "kms:GetKeyPolicy",
+    "kms:GetKeyRotationStatus",
+    "kms:ListAliases",
+    "kms:ListResourceTags",
+    "kms:CreateKey",
+    "kms:PutKeyPolicy",
+    "kms:UpdateKeyDescription",
+    "kms:EnableKey",
+    "kms:DisableKey",
+    "kms:EnableKeyRotation",
+    "kms:DisableKeyRotation",
+    "kms:ScheduleKeyDeletion",
+    "kms:CreateAlias",
+    "kms:UpdateAlias",
+    "kms:DeleteAlias",
+    "kms:TagResource",
+    "kms:UntagResource",
+  ],
+  SNS: [
+    "sns:GetTopicAttributes",
+    "sns:GetSubscriptionAttributes",
+    "sns:ListSubscriptionsByTopic",
+    "sns:ListTagsForResource",
+    "sns:CreateTopic",
+    "sns:DeleteTopic",
+    "sns:SetTopicAttributes",
+    "sns:Subscribe",
+    "sns:Unsubscribe",
+    "sns:SetSubscriptionAttributes",
+    "sns:TagResource",
+    "sns:UntagResource",
+  ],
+  // PipelineStack（セルフミューテーションでパイプライン自身を更新するため）
+  CodePipeline: [
+    "codepipeline:GetPipeline",
+    "codepipeline:GetPipelineState",
+    "codepipeline:ListPipelines",
+    "codepipeline:ListTagsForResource",
+    "codepipeline:CreatePipeline",
+    "codepipeline:UpdatePipeline",
+    "codepipeline:DeletePipeline",
+    "codepipeline:TagResource",
+    "codepipeline:UntagResource",
+    // ソースが CodeStar Connections（GitHubなど）の場合の接続の指定
+    "codestar-connections:PassConnection",
+  ],
+  CodeBuild: [
+    "codebuild:BatchGetProjects",
+    "codebuild:BatchGetReportGroups",
+    "codebuild:ListProjects",
+    "codebuild:CreateProject",
+    "codebuild:UpdateProject",
+    "codebuild:DeleteProject",
+    "codebuild:CreateReportGroup",
+    "codebuild:UpdateReportGroup",
+    "codebuild:DeleteReportGroup",
+  ],
+  CodeStarNotifications: [
+    "codestar-notifications:DescribeNotificationRule",
+    "codestar-notifications:ListNotificationRules",
+    "codestar-notifications:ListTagsForResource",
+    "codestar-notifications:CreateNotificationRule",
+    "codestar-notifications:UpdateNotificationRule",
+    "codestar-notifications:DeleteNotificationRule",
+    "codestar-notifications:Subscribe",
+    "codestar-notifications:Unsubscribe",
+    "codestar-notifications:TagResource",
+    "codestar-notifications:UntagResource",
+  ],
+  ECR: [
+    "ecr:DescribeRepositories",
+    "ecr:GetLifecyclePolicy",
+    "ecr:GetRepositoryPolicy",
+    "ecr:ListTagsForResource",
+    "ecr:CreateRepository",
+    "ecr:DeleteRepository",
+    "ecr:PutLifecyclePolicy",
+    "ecr:DeleteLifecyclePolicy",
+    "ecr:PutImageTagMutability",
+    "ecr:PutImageScanningConfiguration",
+    "ecr:SetRepositoryPolicy",
+    "ecr:DeleteRepositoryPolicy",
+    "ecr:TagResource",
+    "ecr:UntagResource",
+  ],
+};
+
+/**
+ * パイプラインのCloudFormation実行ロールで管理できるIAMのリソースタイプ
+ *
+ * IAMはこのプロジェクトのリソース（LabInfra*）に限定して、リソースタイプごとに
+ * PipelineStackで権限を付与する。ここに追加する場合は、実行ロールの権限も追加する
+ */
+export const DEPLOYMENT_ROLE_IAM_TYPES = [
+  "AWS::IAM::Role",
+  // ロールのインラインポリシー（iam:PutRolePolicy）
+  "AWS::IAM::Policy",
+  // NATインスタンス（network.egress が natInstance）のインスタンスプロファイル
+  "AWS::IAM::InstanceProfile",
+];
+
+/**
+ * パイプラインのCloudFormation実行ロールがロールにアタッチできるAWS管理ポリシー
+ *
+ * 実行ロールの iam:AttachRolePolicy は iam:PolicyARN の条件でこれらに限定する
+ * （AdministratorAccess などをアタッチして権限を広げられないようにする）
+ */
+export const DEPLOYMENT_ROLE_MANAGED_POLICIES = [
+  "service-role/AmazonECSTaskExecutionRolePolicy",
+  "service-role/AWSLambdaBasicExecutionRole",
+  "AWSCodeDeployRoleForECS",
+];
+
+// 手動でのみデプロイするリソースを記録するメタデータの種類
+const MANUAL_DEPLOYMENT_METADATA_TYPE = "lab-infra:manual-deployment";
+
+/**
+ * パイプラインではなく手動（cdk deploy）でのみ変更するリソースとして登録する
+ *
+ * 実行ロール自身や権限の境界など、実行ロールでは変更できないようにしているリソースに使用する
+ * DeploymentRoleCoverageCheckerのチェックの対象外になり、理由付きの情報として表示される
+ *
+ * 使用例:
+ *   markManualDeployment(boundary, "実行ロールで変更できると権限の上限を外せるため");
+ */
+export function markManualDeployment(
+  construct: IConstruct,
+  reason: string
+): void {
+  construct.node.addMetadata(MANUAL_DEPLOYMENT_METADATA_TYPE, reason);
+}
+
+// サービスに関係なくデプロイできるリソースタイプ
+// カスタムリソースの実体はLambda関数のため、Lambdaの権限で扱える
+const ALWAYS_ALLOWED_TYPES = [
+  "AWS::CDK::Metadata",
+  "AWS::CloudFormation::CustomResource",
+];
+
+/**
+ * CloudFormation実行ロールで管理できないリソースの検出
+ *
+ * パイプラインのデプロイは DEPLOYMENT_ROLE_SERVICES のサービスに限定した
+ * ロールで行うため、それ以外のリソースを含むスタックはデプロイ時に失敗する。
+ * synthの時点で警告を出して、早めに気付けるようにする。
+ *
+ * 使用例: cdk.Aspects.of(stack).add(new DeploymentRoleCoverageChecker());
+ */
+// TypeScript: implements でインターフェースを実装（Javaと同じ）
+// Aspectはスタック内の全てのコンストラクトに対して visit が呼ばれる
+export class DeploymentRoleCoverageChecker implements cdk.IAspect {
+  public visit(node: IConstruct): void {
+    // L1リソース（CfnResource）のみを対象にする
+    // TypeScript: instanceof で型を絞り込む
+    if (!(node instanceof cdk.CfnResource)) {
+      return;
+    }
+
+    const type = node.cfnResourceType;
+    if (ALWAYS_ALLOWED_TYPES.includes(type) || type.startsWith("Custom::")) {
+      return;
+    }
+
+    // TypeScript: node.scopes = ルートから自身までのコンストラクトの配列
+    const manual = node.node.scopes
+      .flatMap((scope) => scope.node.metadata)
+      .find((metadata) => metadata.type === MANUAL_DEPLOYMENT_METADATA_TYPE);
+    if (manual) {
+      cdk.Annotations.of(node).addInfo(
+        `${type} はパイプラインでは変更できません。変更は cdk deploy で手動でデプロイしてください（${manual.data}）`
+      );
+      return;
+    }
+
+    // "AWS::EC2::VPC" → "EC2"
+    const namespace = type.split("::")[1];
+    if (namespace === "IAM") {
+      if (!DEPLOYMENT_ROLE_IAM_TYPES.includes(type)) {
+        cdk.Annotations.of(node).addWarning(
+          `${type} はパイプラインのCloudFormation実行ロールで管理できません。` +
+            "lib/aspects/deployment-role-coverage.ts の DEPLOYMENT_ROLE_IAM_TYPES と、PipelineStackの実行ロールにIAMの権限を追加してください"
+        );
+      }
+      // アタッチするAWS管理ポリシー
+      if (node instanceof iam.CfnRole) {
+        const arns = JSON.stringify(
+          cdk.Stack.of(node).resolve(node.managedPolicyArns) ?? []
+        );
+        // 例: ":iam::aws:policy/service-role/AWSLambdaBasicExecutionRole" → "service-role/AWSLambdaBasicExecutionRole"
+        [...arns.matchAll(/:iam::aws:policy\/([\w+=,.@/-]+)/g)]
+          .map((match) => match[1])
+          .filter((name) => !DEPLOYMENT_ROLE_MANAGED_POLICIES.includes(name))
+          .forEach((name) => {
+            cdk.Annotations.of(node).addWarning(
+              `AWS管理ポリシー ${name} はパイプラインのCloudFormation実行ロールでアタッチできません。` +
+                "lib/aspects/deployment-role-coverage.ts の DEPLOYMENT_ROLE_MANAGED_POLICIES に追加してください"
+            );
+          });
+      }
+      return;
+    }
+    if (!(namespace in DEPLOYMENT_ROLE_SERVICES)) {
+      cdk.Annotations.of(node).addWarning(
+        `${type} はパイプラインのCloudFormation実行ロールで管理できません。` +
+          "lib/aspects/deployment-role-coverage.ts の DEPLOYMENT_ROLE_SERVICES にサービスを追加してください"
+      );
+    }
+  }
+}
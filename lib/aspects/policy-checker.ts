@@ -0,0 +1,225 @@
+import * as cdk from "aws-cdk-lib";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as s3 from "aws-cdk-lib/aws-s3";
+import { IConstruct } from "constructs";
+import { StageName } from "../config/environment-config";
+
+/**
+ * セキュリティ・運用ルールのID
+ *
+ * - OpenIngress:       インターネット全体（0.0.0.0/0, ::/0）からのインバウンド通信の許可
+ * - UnencryptedBucket: 暗号化の設定がないS3バケット
+ * - DestroyInProd:     本番で削除ポリシーが Delete のステートフルなリソース
+ * - WildcardIam:       アクションとリソースの両方がワイルドカードのIAMステートメント
+ */
+export type PolicyRuleId =
+  | "OpenIngress"
+  | "UnencryptedBucket"
+  | "DestroyInProd"
+  | "WildcardIam";
+
+/**
+ * ルールの定義
+ */
+interface PolicyRule {
+  readonly id: PolicyRuleId;
+  // 違反をエラーにするステージ（それ以外のステージでは警告）
+  readonly errorStages: readonly StageName[];
+  // 未指定の場合は全ステージでチェックする
+  readonly targetStages?: readonly StageName[];
+  // 違反している場合はその内容を返す
+  check(node: cdk.CfnResource): string | undefined;
+}
+
+// 抑制の理由を記録するメタデータの種類
+const SUPPRESSION_METADATA_TYPE = "lab-infra:policy-suppression";
+
+/**
+ * コンストラクトに対してルールを抑制する
+ *
+ * 学習目的などで意図的にルールに違反する場合に、理由を明記して使用する
+ * 抑制したルールは警告・エラーの代わりに、理由付きの情報としてsynth時に表示される
+ * L2コンストラクトに設定すると、その配下のL1リソースにも適用される
+ *
+ * 使用例:
+ *   suppressPolicyRule(albSecurityGroup, "OpenIngress", "ALBはインターネットに公開するため");
+ */
+export function suppressPolicyRule(
+  construct: IConstruct,
+  ruleId: PolicyRuleId,
+  reason: string
+): void {
+  if (reason.trim() === "") {
+    throw new Error(
+      `${construct.node.path}: ${ruleId} の抑制には理由を指定してください`
+    );
+  }
+  construct.node.addMetadata(SUPPRESSION_METADATA_TYPE, { ruleId, reason });
+}
+
+/**
+ * セキュリティ・運用ルールのチェック
+ *
+ * スタック内の全てのL1リソースをルールに照らしてチェックし、
+ * 違反をsynth時の警告・エラーとして表示する（エラーがある場合はsynthが失敗する）
+ * ステージによって扱いを変える（例: 本番ではエラー、devでは警告）
+ *
+ * 使用例: cdk.Aspects.of(app).add(new PolicyChecker(config.stage));
+ */
+export class PolicyChecker implements cdk.IAspect {
+  constructor(private readonly stage: StageName) {}
+
+  public visit(node: IConstruct): void {
+    if (!(node instanceof cdk.CfnResource)) {
+      return;
+    }
+
+    POLICY_RULES.filter(
+      (rule) => !rule.targetStages || rule.targetStages.includes(this.stage)
+    ).forEach((rule) => {
+      const violation = rule.check(node);
+      if (!violation) {
+        return;
+      }
+
+      const message = `[${rule.id}] ${violation}`;
+      const suppression = findSuppression(node, rule.id);
+      if (suppression) {
+        cdk.Annotations.of(node).addInfo(
+          `${message}（抑制済み: ${suppression}）`
+        );
+      } else if (rule.errorStages.includes(this.stage)) {
+        cdk.Annotations.of(node).addError(message);
+      } else {
+        cdk.Annotations.of(node).addWarning(message);
+      }
+    });
+  }
+}
+
+// コンストラクト自身と親コンストラクトから、ルールの抑制の理由を探す
+function findSuppression(
+  node: IConstruct,
+  ruleId: PolicyRuleId
+): string | undefined {
+  // TypeScript: node.scopes = ルートから自身までのコンストラクトの配列
+  for (const scope of node.node.scopes) {
+    const entry = scope.node.metadata.find(
+      (metadata) =>
+        metadata.type === SUPPRESSION_METADATA_TYPE &&
+        metadata.data.ruleId === ruleId
+    );
+    if (entry) {
+      return entry.data.reason;
+    }
+  }
+  return undefined;
+}
+
+// インターネット全体を表すCIDR
+const ANY_IP_CIDRS = ["0.0.0.0/0", "::/0"];
+
+// 削除されるとデータが失われるリソースタイプ
+const STATEFUL_RESOURCE_TYPES = [
+  "AWS::S3::Bucket",
+  "AWS::Logs::LogGroup",
+  "AWS::ECR::Repository",
+  "AWS::RDS::DBInstance",
+  "AWS::RDS::DBCluster",
+  "AWS::DynamoDB::Table",
+  "AWS::KMS::Key",
+  "AWS::SecretsManager::Secret",
+];
+
+const POLICY_RULES: PolicyRule[] = [
+  {
+    id: "OpenIngress",
+    errorStages: ["prod"],
+    check: (node) => {
+      // TypeScript: 値がトークン（遅延評価される値）の場合があるため、resolveで実際の値にする
+      const stack = cdk.Stack.of(node);
+      let rules: { cidrIp?: string; cidrIpv6?: string }[] = [];
+      if (node instanceof ec2.CfnSecurityGroup) {
+        rules = stack.resolve(node.securityGroupIngress) ?? [];
+      } else if (node instanceof ec2.CfnSecurityGroupIngress) {
+        rules = [{ cidrIp: node.cidrIp, cidrIpv6: node.cidrIpv6 }];
+      }
+
+      const open = rules.some((rule) =>
+        [rule.cidrIp, rule.cidrIpv6].some(
+          (cidr) => cidr !== undefined && ANY_IP_CIDRS.includes(cidr)
+        )
+      );
+      return open
+        ? "インターネット全体からのインバウンド通信を許可しています"
+        : undefined;
+    },
+  },
+  {
+    id: "UnencryptedBucket",
+    errorStages: ["dev", "stg", "prod"],
+    check: (node) =>
+      node instanceof s3.CfnBucket && !node.bucketEncryption
+        ? "S3バケットの暗号化が設定されていません"
+        : undefined,
+  },
+  {
+    id: "DestroyInProd",
+    errorStages: ["prod"],
+    targetStages: ["prod"],
+    check: (node) =>
+      STATEFUL_RESOURCE_TYPES.includes(node.cfnResourceType) &&
+      node.cfnOptions.deletionPolicy === cdk.CfnDeletionPolicy.DELETE
+        ? `${node.cfnResourceType} がスタックの削除時に削除されます（removalPolicy を RETAIN にしてください）`
+        : undefined,
+  },
+  {
+    id: "WildcardIam",
+    errorStages: ["stg", "prod"],
+    check: (node) => {
+      const stack = cdk.Stack.of(node);
+      let documents: unknown[] = [];
+      if (
+        node instanceof iam.CfnPolicy ||
+        node instanceof iam.CfnManagedPolicy
+      ) {
+        documents = [node.policyDocument];
+      } else if (node instanceof iam.CfnRole) {
+        documents = (stack.resolve(node.policies) ?? []).map(
+          (policy: { policyDocument: unknown }) => policy.policyDocument
+        );
+      }
+
+      const statements: {
+        Effect?: string;
+        Action?: string | string[];
+        Resource?: unknown;
+      }[] = documents.flatMap(
+        (document) => stack.resolve(document)?.Statement ?? []
+      );
+      const wildcard = statements.find(
+        (statement) =>
+          statement.Effect === "Allow" &&
+          toArray(statement.Action).some(
+            (action) => action === "*" || action.endsWith(":*")
+          ) &&
+          toArray(statement.Resource).includes("*")
+      );
+      return wildcard
+        ? `全てのリソースに対してワイルドカードのアクションを許可しています: ${toArray(
+            wildcard.Action
+          ).join(", ")}`
+        : undefined;
+    },
+  },
+];
+
+// TypeScript: ジェネリクス関数（Javaのジェネリックメソッドに相当）
+// IAMポリシーの Action / Resource は文字列または配列のため、配列にそろえる
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
@@ -0,0 +1,2012 @@
+import * as cdk from "aws-cdk-lib";
+import * as logs from "aws-cdk-lib/aws-logs";
+import { STAGE_CONFIGS, applyEnvironmentVariables } from "./stages";
+
+/**
+ * 環境（ステージ）設定
+ *
+ * dev / stg / prod の各環境ごとに異なるサイジングや保持期間を
+ * 1つの型で表現し、全スタックのpropsに渡します。
+ * 値そのものは stages.ts に定義しています。
+ */
+
+// TypeScript: 文字列リテラル型のユニオン（Javaのenumに近いが、値は単なる文字列）
+export type StageName = "dev" | "stg" | "prod";
+
+// TypeScript: 配列を「as const」で宣言すると、要素が読み取り専用のリテラル型になる
+export const STAGE_NAMES: readonly StageName[] = [
+  "dev",
+  "stg",
+  "prod",
+] as const;
+
+/**
+ * Fargateタスクのアウトバウンド通信（イメージのプル、ログ送信など）の方式
+ *
+ * - publicSubnet: パブリックサブネットにパブリックIP付きで配置（NAT・エンドポイントなし）
+ * - vpcEndpoints: 分離サブネットに配置し、VPCエンドポイント経由でAWSサービスにアクセス
+ * - natInstance:  プライベートサブネットに配置し、NATインスタンス経由で通信
+ * - natGateway:   プライベートサブネットに配置し、NATゲートウェイ経由で通信
+ */
+export type EgressMode =
+  | "publicSubnet"
+  | "vpcEndpoints"
+  | "natInstance"
+  | "natGateway";
+
+/**
+ * ネットワーク（VPC）設定
+ */
+export interface NetworkConfig {
+  // VPCのCIDRブロック（例: 10.0.0.0/16）
+  readonly vpcCidr: string;
+  // 使用するアベイラビリティゾーンの最大数
+  readonly maxAzs: number;
+  // Fargateタスクの配置とアウトバウンド通信の方式
+  readonly egress: EgressMode;
+}
+
+/**
+ * ターゲット追跡スケーリングの設定
+ * メトリクスが目標値に近づくようにタスク数を自動調整する
+ */
+export interface TargetTrackingConfig {
+  // 目標値（CPU/メモリは使用率%、リクエスト数はターゲットあたりの件数）
+  readonly targetValue: number;
+  // スケールイン（タスク削減）後、次のスケールインまでの待機時間（秒）
+  readonly scaleInCooldownSeconds: number;
+  // スケールアウト（タスク追加）後、次のスケールアウトまでの待機時間（秒）
+  readonly scaleOutCooldownSeconds: number;
+}
+
+/**
+ * ステップスケーリングの1段階
+ * メトリクスの値が lower〜upper の範囲にある場合に change だけタスク数を変更する
+ */
+export interface ScalingStepConfig {
+  readonly lower?: number;
+  readonly upper?: number;
+  readonly change: number;
+}
+
+/**
+ * カスタムメトリクスに基づくステップスケーリングの設定
+ */
+export interface StepScalingConfig {
+  // 対象のCloudWatchメトリクス
+  readonly metric: {
+    readonly namespace: string;
+    readonly metricName: string;
+    readonly dimensions?: Record<string, string>;
+    // 集計方法（例: "Average", "Sum", "Maximum"）
+    readonly statistic: string;
+    readonly periodSeconds: number;
+  };
+  // スケーリングの段階（少なくとも1つのupperなし、または1つのlowerなしの段階が必要）
+  readonly steps: ScalingStepConfig[];
+  // change の解釈（タスク数の増減 / 割合 / 絶対数）
+  readonly adjustmentType:
+    | "ChangeInCapacity"
+    | "PercentChangeInCapacity"
+    | "ExactCapacity";
+  // スケーリング後の待機時間（秒）
+  readonly cooldownSeconds: number;
+}
+
+/**
+ * Auto Scaling設定
+ * 各ポリシーは省略すると無効になる
+ */
+export interface AutoScalingConfig {
+  // 最小タスク数
+  readonly minCapacity: number;
+  // 最大タスク数
+  readonly maxCapacity: number;
+  // CPU使用率によるターゲット追跡
+  readonly cpu?: TargetTrackingConfig;
+  // メモリ使用率によるターゲット追跡
+  readonly memory?: TargetTrackingConfig;
+  // ALBのターゲットあたりのリクエスト数によるターゲット追跡（ALBがある場合のみ）
+  readonly requestCountPerTarget?: TargetTrackingConfig;
+  // カスタムメトリクスによるステップスケーリング
+  readonly customMetric?: StepScalingConfig;
+}
+
+/**
+ * 夜間・休日にタスク数を0にするスケジュール設定
+ *
+ * cron式は Application Auto Scaling の形式（分 時 日 月 曜日 年）で指定する
+ * 例: "0 20 * * ? *" = 毎日20:00、"0 8 ? * MON-FRI *" = 平日8:00
+ */
+export interface ScheduleConfig {
+  // cron式を解釈するタイムゾーン（IANA形式、例: "Asia/Tokyo"）
+  readonly timeZone: string;
+  // タスク数を0にする時刻
+  readonly sleepCron: string;
+  // タスク数を元に戻す時刻
+  readonly wakeCron: string;
+}
+
+/**
+ * Blue/Greenデプロイのトラフィック切り替え方式
+ *
+ * - allAtOnce: 一度に全てのトラフィックを新しいタスクへ切り替え
+ * - linear:    intervalMinutes ごとに percentage ずつ切り替え
+ * - canary:    最初に percentage だけ切り替え、intervalMinutes 後に残りを切り替え
+ */
+// TypeScript: 判別可能なユニオン型（typeの値によって他のプロパティの有無が決まる）
+export type TrafficShiftingConfig =
+  | { readonly type: "allAtOnce" }
+  | {
+      readonly type: "linear" | "canary";
+      readonly percentage: number;
+      readonly intervalMinutes: number;
+    };
+
+/**
+ * CodeDeployによるBlue/Greenデプロイの設定
+ */
+export interface BlueGreenDeploymentConfig {
+  readonly strategy: "blueGreen";
+  readonly trafficShifting: TrafficShiftingConfig;
+  // 切り替え前に新しいタスクを確認するためのテスト用リスナーのポート
+  readonly testListenerPort: number;
+  // 切り替え後、古いタスクを終了するまでの待機時間（分）。この間はすぐにロールバックできる
+  readonly terminationWaitMinutes: number;
+}
+
+/**
+ * ECSのローリングアップデートの設定
+ *
+ * サーキットブレーカーとデプロイのアラームはECSのデプロイでのみ使用できる（Blue/Greenでは使用できない）
+ * どちらもデプロイが失敗した場合は、失敗のイベントがEventBridgeに送られる
+ */
+export interface RollingDeploymentConfig {
+  readonly strategy: "rolling";
+  // デプロイのサーキットブレーカー（未指定の場合は無効）
+  // 新しいタスクの起動やヘルスチェックの失敗が続いた場合に、タスクの置き換えを繰り返さずにデプロイを失敗させる
+  // rollback が true の場合は、直前に成功したデプロイ（タスク定義）に自動で戻す
+  readonly circuitBreaker?: { readonly rollback: boolean };
+  // デプロイのアラーム（未指定の場合は無効、環境設定の monitoring が必要）
+  // 監視のアラーム（実行中のタスク不足、ALBのヘルスチェックの失敗）がデプロイ中にアラーム状態になった場合にデプロイを失敗させる
+  readonly deploymentAlarms?: { readonly rollback: boolean };
+}
+
+/**
+ * サービスのデプロイ方式
+ *
+ * - rolling:   ECSのローリングアップデート（デフォルト）
+ * - blueGreen: CodeDeployによるBlue/Greenデプロイ（ALBとイメージのビルドが必要）
+ */
+export type DeploymentConfig =
+  | RollingDeploymentConfig
+  | BlueGreenDeploymentConfig;
+
+/**
+ * コンテナの起動順序の条件
+ *
+ * - start:    依存先のコンテナが起動した後に起動
+ * - complete: 依存先のコンテナが終了した後に起動（終了コードは問わない）
+ * - success:  依存先のコンテナが終了コード0で終了した後に起動
+ * - healthy:  依存先のコンテナのヘルスチェックが成功した後に起動
+ */
+export type ContainerDependencyCondition =
+  | "start"
+  | "complete"
+  | "success"
+  | "healthy";
+
+/**
+ * コンテナのヘルスチェック（コンテナ内でコマンドを実行して判定）
+ * 秒数や回数は未指定の場合ECSのデフォルト値
+ */
+export interface ContainerHealthCheckSpec {
+  // 例: ["CMD-SHELL", "curl -f http://localhost/ || exit 1"]
+  readonly command: string[];
+  readonly intervalSeconds?: number;
+  readonly timeoutSeconds?: number;
+  readonly retries?: number;
+  // 起動直後にヘルスチェックの失敗を無視する時間
+  readonly startPeriodSeconds?: number;
+}
+
+/**
+ * コンテナに環境変数として注入する秘密情報の参照先
+ *
+ * 値はタスクの起動時にタスク実行ロールで読み込まれ、タスク定義には参照先のARNのみが含まれる
+ * タスク実行ロールには、参照先のシークレット・パラメータのみの読み取り権限を付与する
+ *
+ * - secretsManager: Secrets Managerのシークレット（jsonKey を指定するとJSONの特定のキーの値）
+ * - ssmParameter:   SSMパラメータストアのパラメータ（String / SecureString）
+ */
+export type ContainerSecretSpec =
+  | {
+      readonly source: "secretsManager";
+      // 既存のシークレット、または環境設定の secrets で作成するシークレットの名前
+      readonly secretName: string;
+      readonly jsonKey?: string;
+    }
+  | {
+      readonly source: "ssmParameter";
+      // 例: "/lab-infra/api-key"
+      readonly parameterName: string;
+    };
+
+/**
+ * タスク内のコンテナの定義
+ */
+export interface ContainerSpec {
+  // タスク内で一意のコンテナ名
+  readonly name: string;
+  // イメージ（例: "amazon/amazon-ecs-sample"、ECRのリポジトリURI:タグ）
+  readonly image: string;
+  // 未指定の場合はtrue（このコンテナが停止するとタスク全体が停止）
+  readonly essential?: boolean;
+  // コンテナに割り当てるCPUとメモリ（未指定の場合はタスクの範囲で共有）
+  readonly cpu?: number;
+  readonly memoryLimitMiB?: number;
+  readonly memoryReservationMiB?: number;
+  readonly portMappings?: {
+    readonly containerPort: number;
+    readonly name: string;
+  }[];
+  readonly environment?: Record<string, string>;
+  // 環境変数名をキーにした秘密情報の参照先（例: { DB_PASSWORD: {...} }）
+  readonly secrets?: Record<string, ContainerSecretSpec>;
+  // このコンテナより先に起動しておくコンテナ
+  readonly dependsOn?: {
+    readonly containerName: string;
+    readonly condition: ContainerDependencyCondition;
+  }[];
+  readonly healthCheck?: ContainerHealthCheckSpec;
+  // FireLensのログルーター（サイドカー）として追加する場合に指定
+  readonly logRouter?: "fluentbit" | "fluentd";
+  // 指定した場合はログをFireLensのログルーター経由で送る（出力先プラグインの設定）
+  // 未指定の場合はサービス共通のCloudWatch Logsグループに直接送る
+  readonly firelensOptions?: Record<string, string>;
+}
+
+/**
+ * 外部（ALBまたはパブリックIP）からのトラフィックを受けるコンテナとポート
+ */
+export interface ServiceIngressSpec {
+  readonly containerName: string;
+  readonly containerPort: number;
+}
+
+/**
+ * キャパシティプロバイダー戦略（オンデマンドのFARGATEとFARGATE_SPOTの配分）
+ *
+ * 最初の onDemandBase 個のタスクをオンデマンドで実行し、それを超えるタスクは
+ * onDemandWeight : spotWeight の比率で配分する
+ * 例: { onDemandBase: 1, onDemandWeight: 0, spotWeight: 1 } = 1タスクはオンデマンド、残りは全てSpot
+ *
+ * Spotのタスクは2分前の通知で中断されることがあるため、prodでは onDemandBase を1以上にする
+ */
+export interface CapacityProviderStrategySpec {
+  readonly onDemandBase: number;
+  readonly onDemandWeight: number;
+  readonly spotWeight: number;
+}
+
+/**
+ * サービスディスカバリーの方式
+ *
+ * - cloudMap:       Cloud MapのDNS（Aレコード）にタスクのIPアドレスを登録
+ *                   呼び出し側は設定なしで [name].[名前空間] を名前解決できる
+ * - serviceConnect: ECS Service Connect（サイドカーのプロキシ経由で接続、接続のメトリクスを収集）
+ *                   呼び出し側のサービスも serviceConnect を有効にする必要がある
+ */
+export type ServiceDiscoveryMode = "cloudMap" | "serviceConnect";
+
+/**
+ * クラスターの名前空間へのサービスの登録
+ */
+export interface ServiceDiscoverySpec {
+  readonly mode: ServiceDiscoveryMode;
+  // 名前空間内の名前（例: "api" → api.lab.local）
+  // serviceConnect で未指定の場合は、他のサービスを呼び出すクライアントとしてのみ参加する
+  readonly name?: string;
+  // 公開するポートマッピングの名前（未指定の場合は "http"）
+  readonly portMappingName?: string;
+  // このサービスを呼び出せるサービス名（セキュリティグループで許可する）
+  readonly allowedCallers?: string[];
+}
+
+/**
+ * Fargateサービスの定義（lib/constructs/container-service.ts で作成する単位）
+ */
+export interface ServiceSpec {
+  // ECSサービス名（クラスター内で一意、lab-infra- で始める）
+  readonly serviceName: string;
+  // タスク定義のファミリー名
+  readonly family: string;
+  // タスクのCPU（256 = 0.25 vCPU）
+  readonly cpu: number;
+  // タスクのメモリ（MiB）
+  readonly memoryLimitMiB: number;
+  // 常時実行するタスク数（Auto Scaling有効時は初期値）
+  readonly desiredCount: number;
+  // アプリケーションとサイドカー（ログルーター、プロキシなど）のコンテナ
+  readonly containers: ContainerSpec[];
+  // 未指定の場合は外部からのトラフィックを受けない（バッチ・ワーカーなど）
+  readonly ingress?: ServiceIngressSpec;
+  // 未指定の場合は名前空間に登録しない（環境設定の serviceDiscovery が必要）
+  readonly discovery?: ServiceDiscoverySpec;
+  // 未指定の場合は全てのタスクをオンデマンドのFargateで実行する
+  // 既存のサービスに後から設定・削除する場合はサービスの再作成が必要
+  readonly capacity?: CapacityProviderStrategySpec;
+  // タスクの起動後、ALBとコンテナのヘルスチェックの失敗を無視する時間（未指定の場合は60秒）
+  // 長すぎると起動に失敗するタスクの検出（サーキットブレーカーなど）が遅れる
+  readonly healthCheckGracePeriodSeconds?: number;
+}
+
+/**
+ * メインのFargateサービス設定
+ *
+ * ALBのデフォルトのターゲットになり、パイプラインのリリースや監視の対象になる
+ */
+export interface ServiceConfig extends ServiceSpec {
+  // メインのサービスは必ず外部からのトラフィックを受ける
+  readonly ingress: ServiceIngressSpec;
+  // 未指定の場合はAuto Scalingを行わない
+  readonly autoScaling?: AutoScalingConfig;
+  // 未指定の場合は24時間稼働
+  readonly schedule?: ScheduleConfig;
+  // 未指定の場合はローリングアップデート
+  readonly deployment?: DeploymentConfig;
+}
+
+/**
+ * 共有クラスターで実行する追加のサービスの設定
+ */
+export interface AdditionalServiceConfig extends ServiceSpec {
+  // ALBのリスナールール（ingressとloadBalancerが必要）
+  // 未指定の場合はALBに登録しない
+  readonly listenerRule?: {
+    // 例: ["/api/*"]
+    readonly pathPatterns: string[];
+    // 1〜50000（小さいほど先に評価される）
+    readonly priority: number;
+    readonly healthCheckPath: string;
+  };
+  // 未指定の場合はローリングアップデート（サーキットブレーカーなし）
+  // デプロイのアラームはメインのサービスの監視を使用するため、追加のサービスでは指定できない
+  readonly deployment?: Omit<RollingDeploymentConfig, "deploymentAlarms">;
+}
+
+/**
+ * FargateServiceStackで作成するシークレット
+ *
+ * 値は作成時にランダムに生成する（再デプロイでは上書きされない）
+ * コンテナからは ContainerSecretSpec の secretName で参照する
+ */
+export interface ManagedSecretConfig {
+  // lab-infra/ で始める（例: "lab-infra/db-credentials"）
+  readonly secretName: string;
+  readonly description: string;
+  // 生成する値の長さ（未指定の場合は32文字）
+  readonly passwordLength?: number;
+  // 記号を含めない（URLや接続文字列に埋め込む値の場合）
+  readonly excludePunctuation?: boolean;
+  // JSONとして作成する場合の固定値と、生成した値を入れるキー
+  // 例: { template: { username: "app" }, generateKey: "password" }
+  // 未指定の場合は生成した文字列のみのシークレット
+  readonly json?: {
+    readonly template: Record<string, string>;
+    readonly generateKey: string;
+  };
+}
+
+/**
+ * Application Load Balancer設定
+ */
+export interface LoadBalancerConfig {
+  // ターゲットグループのヘルスチェックパス（例: "/" や "/health"）
+  readonly healthCheckPath: string;
+  // ヘルスチェックの間隔（秒）
+  readonly healthCheckIntervalSeconds: number;
+  // 正常と判定するHTTPステータスコード（例: "200" や "200-299"）
+  readonly healthyHttpCodes: string;
+  // カスタムドメインでHTTPSを使用する場合のみ指定（未指定の場合はALBのDNS名でHTTPのみ）
+  readonly customDomain?: CustomDomainConfig;
+  // ALBにWAFのウェブACLを関連付ける場合のみ指定
+  readonly waf?: WafConfig;
+}
+
+/**
+ * カスタムドメインの設定
+ *
+ * ACMの証明書をDNS検証で発行してALBにHTTPSリスナー（ポート443）を追加し、
+ * ドメイン名からALBへのエイリアスレコードをRoute 53に作成する
+ * HTTPリスナー（ポート80）はHTTPSへのリダイレクトに切り替わる
+ */
+export interface CustomDomainConfig {
+  // サービスのドメイン名（例: "app.lab.example.com"）
+  readonly domainName: string;
+  // ドメイン名を含むホストゾーンの名前（例: "lab.example.com"）
+  readonly hostedZoneName: string;
+  // ホストゾーンの扱い
+  // lookup: 既存のホストゾーンをsynth時に検索（account の指定が必要）
+  // create: このスタックで作成（親ドメインへのNSレコードの登録が済むまで証明書の検証が完了しない）
+  readonly hostedZone: "lookup" | "create";
+}
+
+/**
+ * AWSのマネージドルールグループ
+ *
+ * commonRuleSet:  一般的な攻撃（OWASP Top 10 など）への対策（AWSManagedRulesCommonRuleSet）
+ * knownBadInputs: 脆弱性の悪用に使われる既知のリクエストのパターン（AWSManagedRulesKnownBadInputsRuleSet）
+ * ipReputation:   Amazonの脅威インテリジェンスで悪意のあるIPアドレス（AWSManagedRulesAmazonIpReputationList）
+ */
+export type WafManagedRuleGroup =
+  | "commonRuleSet"
+  | "knownBadInputs"
+  | "ipReputation";
+
+/**
+ * WAF（ウェブACL）の設定
+ *
+ * ルールの評価順: 許可リスト → 拒否リスト → レート制限 → マネージドルールグループ
+ * どのルールにも一致しないリクエストは許可する
+ */
+export interface WafConfig {
+  readonly managedRuleGroups: WafManagedRuleGroup[];
+  // 5分間あたりのIPアドレスごとのリクエスト数の上限（超えたIPアドレスはブロック）
+  // 未指定の場合はレート制限なし
+  readonly rateLimitPer5Minutes?: number;
+  // 常に許可するIPアドレス（CIDR、例: "203.0.113.0/24"）。以降のルールは評価しない
+  readonly allowedIpCidrs?: string[];
+  // 常にブロックするIPアドレス（CIDR）
+  readonly blockedIpCidrs?: string[];
+  // リクエストのログの保存先（未指定の場合はログを保存しない）
+  readonly logDestination?: "cloudWatchLogs" | "s3";
+}
+
+/**
+ * ECS Exec（実行中のコンテナでのコマンドの実行）の設定
+ *
+ * クラスターの全てのサービスで有効化し、セッションをKMSキーで暗号化する
+ * セッションの入出力は監査のため、指定した保存先に記録する
+ */
+export interface ExecCommandConfig {
+  // セッションのログの保存先（1つ以上）
+  // cloudWatchLogs: ロググループ /aws/ecs/lab-infra-exec-command（KMSキーで暗号化）
+  // s3:             バケット lab-infra-exec-command-logs-[アカウントID]-[リージョン]
+  readonly logDestinations: ("cloudWatchLogs" | "s3")[];
+}
+
+/**
+ * カスタマー管理のKMSキーによる暗号化の設定
+ *
+ * スタックごとにKMSキー（自動ローテーションあり）を作成し、以下を暗号化する：
+ * - FargateServiceStack: S3バケット、CloudWatch Logsのロググループ、ECS Execのセッション
+ * - PipelineStack: ソース・アーティファクトのS3バケット、CodeBuildのビルド出力
+ * 未指定の場合はAWS管理のキー（S3はSSE-S3、ロググループはCloudWatch Logsの既定の暗号化）
+ */
+export interface EncryptionConfig {
+  // キーの削除を予約してから削除されるまでの日数（7〜30）
+  // 削除されたキーで暗号化したデータは復号できなくなるため、誤って削除した場合に取り消せる期間
+  readonly pendingWindowDays: number;
+}
+
+/**
+ * クラスターのサービスディスカバリー設定
+ *
+ * VPC内でのみ名前解決できるプライベートDNSの名前空間（Cloud Map）をクラスターに作成する
+ */
+export interface ServiceDiscoveryConfig {
+  // 名前空間の名前（例: "lab.local"）
+  readonly namespace: string;
+}
+
+/**
+ * データベースのエンジンと容量
+ *
+ * - rdsPostgres:      RDS for PostgreSQL のインスタンス（multiAz でスタンバイを別のAZに配置）
+ * - auroraServerless: Aurora PostgreSQL Serverless v2（負荷に応じて容量を自動調整）
+ */
+export type DatabaseEngineConfig =
+  | {
+      readonly type: "rdsPostgres";
+      // インスタンスクラス（例: "t4g.micro"）
+      readonly instanceType: string;
+      readonly allocatedStorageGiB: number;
+      readonly multiAz: boolean;
+    }
+  | {
+      readonly type: "auroraServerless";
+      // 容量の範囲（ACU、0.5刻み。1 ACU = 約2GiBのメモリ）
+      readonly minCapacity: number;
+      readonly maxCapacity: number;
+      // 読み取り用のインスタンス数（0の場合はライターのみ）
+      readonly readers: number;
+    };
+
+/**
+ * データベース設定（DatabaseStack）
+ *
+ * VPCの分離サブネットに作成し、メインのサービスのみから接続できるようにする
+ * 認証情報はSecrets Managerのシークレット（lab-infra/database）に生成する
+ */
+export interface DatabaseConfig {
+  readonly engine: DatabaseEngineConfig;
+  // 作成するデータベース名
+  readonly databaseName: string;
+  // 自動バックアップの保持期間（日）。rdsPostgres は0で無効、auroraServerless は1以上
+  readonly backupRetentionDays: number;
+  // 自動バックアップの時間帯（UTC、例: "17:00-18:00"）。未指定の場合はAWSが決める
+  readonly preferredBackupWindow?: string;
+  // 有効にするとスタックの削除時にもデータベースを削除できない
+  readonly deletionProtection: boolean;
+  // 接続情報（DB_HOST、DB_PASSWORDなど）を注入するメインのサービスのコンテナ
+  readonly containerName: string;
+}
+
+/**
+ * アプリケーションのコンテナイメージのビルド設定
+ */
+export interface ImageBuildConfig {
+  // イメージを保存するECRリポジトリ名
+  readonly repositoryName: string;
+  // ソースZIP内のDockerfileがあるディレクトリ（docker buildのコンテキスト）
+  readonly dockerfileDirectory: string;
+  // ビルドしたイメージで更新するメインのサービスのコンテナ名
+  readonly containerName: string;
+  // リポジトリに保持するイメージの最大数（古いものから削除）
+  readonly maxImageCount: number;
+  // パイプラインでビルドしたイメージのタグ（synth時の環境変数 LAB_INFRA_IMAGE_TAG）
+  // 指定した場合は、containerName のコンテナをこのタグのECRのイメージでデプロイする
+  // 未指定の場合は service.containers の image のまま（パイプラインのビルド前など）
+  readonly imageTag?: string;
+}
+
+/**
+ * アラームのWebhookへの通知の設定
+ *
+ * WebhookのURLは秘密情報のため、リポジトリや環境変数には含めず
+ * Secrets Managerのシークレット（文字列としてURLのみを保存）から実行時に読み込む
+ * （ChatWebhookConfigと同じ）
+ */
+export interface AlarmWebhookConfig {
+  readonly secretName: string;
+}
+
+/**
+ * サービスの監視設定
+ *
+ * CloudWatchダッシュボードとアラームを作成し、アラームの通知をSNSトピックに送る
+ */
+export interface MonitoringConfig {
+  // アラームを通知するメールアドレス（synth時の環境変数 LAB_INFRA_ALARM_EMAILS）
+  readonly alarmEmails: string[];
+  // 未指定の場合はWebhookに通知しない
+  readonly alarmWebhook?: AlarmWebhookConfig;
+  // 使用率のアラームのしきい値（%）
+  readonly cpuAlarmThreshold: number;
+  readonly memoryAlarmThreshold: number;
+}
+
+/**
+ * パイプラインのソース（取得元）
+ *
+ * - s3:                 手動でアップロードしたZIPファイル（S3バケットをポーリング）
+ * - codeCommit:         CodeCommitリポジトリのブランチ（プッシュをEventBridgeで検知）
+ * - codeStarConnection: CodeStar Connections経由のGitHub / GitLab / Bitbucketリポジトリ
+ *                       （プッシュを接続のWebhookで検知）
+ */
+export type SourceConfig =
+  | {
+      readonly provider: "s3";
+      // アップロードするZIPファイルのオブジェクトキー
+      readonly bucketKey: string;
+    }
+  | {
+      readonly provider: "codeCommit";
+      readonly repositoryName: string;
+      readonly branch: string;
+    }
+  | {
+      readonly provider: "codeStarConnection";
+      // 事前にコンソールで作成・承認した接続のARN
+      readonly connectionArn: string;
+      // リポジトリの所有者（GitHubのユーザー名・組織名、GitLabのグループ名）
+      readonly owner: string;
+      readonly repository: string;
+      readonly branch: string;
+    };
+
+/**
+ * デプロイ前の手動承認の設定
+ */
+export interface ApprovalConfig {
+  // 承認依頼を通知するメールアドレス（SNSトピックのサブスクリプションとして登録）
+  // synth時の環境変数 LAB_INFRA_APPROVER_EMAILS
+  readonly approverEmails: string[];
+}
+
+/**
+ * デプロイ後のスモークテストの設定
+ *
+ * ALBのDNS名（FargateServiceStackの出力）にHTTPリクエストを送り、
+ * 期待するステータスコードが返るかを確認する
+ */
+export interface SmokeTestConfig {
+  // リクエストするパス
+  readonly path: string;
+  readonly expectedStatus: number;
+  // 正常と判定されるまでの試行回数（10秒間隔）
+  readonly attempts: number;
+  // 失敗した場合に、サービスをデプロイ前のタスク定義に戻す
+  readonly rollbackOnFailure: boolean;
+}
+
+/**
+ * パイプラインの実行を通知するイベント
+ *
+ * - started:        実行の開始
+ * - succeeded:      実行の成功
+ * - failed:         実行の失敗（ビルド・テスト・デプロイのいずれかのアクションの失敗）
+ * - approvalNeeded: 手動承認の待ち
+ */
+export type PipelineNotificationEvent =
+  | "started"
+  | "succeeded"
+  | "failed"
+  | "approvalNeeded";
+
+/**
+ * チャット（Slack / Microsoft Teams）への通知の設定
+ *
+ * Incoming WebhookのURLは秘密情報のため、リポジトリや環境変数には含めず
+ * Secrets Managerのシークレット（文字列としてURLのみを保存）から実行時に読み込む
+ */
+export interface ChatWebhookConfig {
+  readonly format: "slack" | "teams";
+  readonly secretName: string;
+}
+
+/**
+ * パイプラインの実行の通知設定
+ */
+export interface PipelineNotificationConfig {
+  readonly events: PipelineNotificationEvent[];
+  // 通知するメールアドレス（SNSトピックのサブスクリプションとして登録）
+  // synth時の環境変数 LAB_INFRA_PIPELINE_NOTIFICATION_EMAILS
+  readonly emails: string[];
+  // 未指定の場合はチャットに通知しない
+  readonly chatWebhook?: ChatWebhookConfig;
+}
+
+/**
+ * CI/CDパイプライン設定
+ */
+export interface PipelineConfig {
+  readonly source: SourceConfig;
+  // 未指定の場合はイメージのビルドを行わず、CDKのデプロイのみを行う
+  readonly imageBuild?: ImageBuildConfig;
+  // 未指定の場合は変更セットを承認なしで実行する（完全自動デプロイ）
+  readonly approval?: ApprovalConfig;
+  // 未指定の場合はデプロイ後の確認を行わない
+  readonly smokeTest?: SmokeTestConfig;
+  // 未指定の場合は実行の結果を通知しない
+  readonly notifications?: PipelineNotificationConfig;
+}
+
+/**
+ * 環境設定のルート
+ */
+export interface EnvironmentConfig {
+  // ステージ名（CDK context の stage で指定する値）
+  readonly stage: StageName;
+  // 表示用の環境名（Environmentタグなどに使用）
+  readonly displayName: string;
+
+  // デプロイ先のAWSアカウントとリージョン
+  // TypeScript: 「?」付きのプロパティは省略可能（undefinedを許容）
+  readonly account?: string;
+  readonly region: string;
+
+  // ステートフルなリソース（ログ、バケット）をスタック削除時にどう扱うか
+  readonly removalPolicy: cdk.RemovalPolicy;
+  // CloudWatch Logsの保持期間
+  readonly logRetention: logs.RetentionDays;
+
+  readonly network: NetworkConfig;
+  readonly service: ServiceConfig;
+  // 未指定の場合はメインのサービスのみ
+  readonly additionalServices?: AdditionalServiceConfig[];
+  // 未指定の場合はシークレットを作成しない（既存のシークレットのみ参照できる）
+  readonly secrets?: ManagedSecretConfig[];
+  // 未指定の場合は名前空間を作成しない（サービスの discovery は使用できない）
+  readonly serviceDiscovery?: ServiceDiscoveryConfig;
+  // 未指定の場合はECS Execを使用しない（本番では無効）
+  readonly execCommand?: ExecCommandConfig;
+  // 未指定の場合はAWS管理のキーで暗号化する
+  readonly encryption?: EncryptionConfig;
+  // 未指定の場合はALBを作成せず、タスクのパブリックIPで直接公開する
+  readonly loadBalancer?: LoadBalancerConfig;
+  // 未指定の場合はデータベースを作成しない（DatabaseStackなし）
+  readonly database?: DatabaseConfig;
+  readonly pipeline: PipelineConfig;
+  // 未指定の場合はダッシュボードやアラームを作成しない
+  readonly monitoring?: MonitoringConfig;
+}
+
+// Fargateで指定可能なCPUとメモリの組み合わせ
+// https://docs.aws.amazon.com/AmazonECS/latest/developerguide/task-cpu-memory-error.html
+const FARGATE_MEMORY_BY_CPU: Record<number, number[]> = {
+  256: [512, 1024, 2048],
+  512: [1024, 2048, 3072, 4096],
+  1024: [2048, 3072, 4096, 5120, 6144, 7168, 8192],
+  2048: range(4096, 16384, 1024),
+  4096: range(8192, 30720, 1024),
+};
+
+/**
+ * CDK context からステージ名を読み取り、対応する環境設定を返す
+ *
+ * 使用例: cdk synth -c stage=prod
+ * 通知先などのリポジトリに含めない値は env（synth時の環境変数）から読み込む（applyEnvironmentVariables）
+ * ステージ名が未指定・不正な場合や、設定値が不正な場合は例外を投げてsynthを失敗させる
+ */
+export function loadEnvironmentConfig(
+  app: cdk.App,
+  env: NodeJS.ProcessEnv = process.env
+): EnvironmentConfig {
+  // TypeScript: tryGetContextの戻り値はany型のため、unknownとして受けて型を絞り込む
+  const stage: unknown = app.node.tryGetContext("stage");
+
+  if (stage === undefined || stage === "") {
+    throw new Error(
+      `ステージが指定されていません。-c stage=<${STAGE_NAMES.join(
+        "|"
+      )}> を指定するか、cdk.json の context に stage を設定してください。`
+    );
+  }
+
+  if (!isStageName(stage)) {
+    throw new Error(
+      `不正なステージ名です: "${String(
+        stage
+      )}"（指定可能な値: ${STAGE_NAMES.join(", ")}）`
+    );
+  }
+
+  const config = applyEnvironmentVariables(STAGE_CONFIGS[stage], env);
+  validateEnvironmentConfig(config);
+  return config;
+}
+
+/**
+ * 環境設定の妥当性チェック
+ *
+ * 問題をすべて集めてから1つのエラーとして投げることで、
+ * 複数の設定ミスを一度に確認できるようにしている
+ */
+export function validateEnvironmentConfig(config: EnvironmentConfig): void {
+  const errors: string[] = [];
+
+  if (!config.region) {
+    errors.push("region が設定されていません");
+  }
+
+  // ネットワーク設定のチェック
+  const cidrMask = parseCidrMask(config.network.vpcCidr);
+  if (cidrMask === undefined) {
+    errors.push(`network.vpcCidr が不正です: "${config.network.vpcCidr}"`);
+  } else if (cidrMask < 16 || cidrMask > 22) {
+    errors.push(
+      `network.vpcCidr のプレフィックス長は /16〜/22 で指定してください: "${config.network.vpcCidr}"`
+    );
+  }
+
+  if (!isIntegerInRange(config.network.maxAzs, 1, 6)) {
+    errors.push(
+      `network.maxAzs は1〜6の整数で指定してください: ${config.network.maxAzs}`
+    );
+  } else if (cidrMask !== undefined && cidrMask >= 16 && cidrMask <= 22) {
+    // サブネット（/24）がVPCのアドレス空間に収まるか
+    // パブリック + プライベートの2種類を各AZに作成する
+    // NATを使用する場合は、アプリケーション用のサブネットがさらに1種類増える
+    const subnetGroups = usesNat(config.network.egress) ? 3 : 2;
+    const availableSubnets = 2 ** (24 - cidrMask);
+    const requiredSubnets = subnetGroups * config.network.maxAzs;
+    if (requiredSubnets > availableSubnets) {
+      errors.push(
+        `network.vpcCidr (${config.network.vpcCidr}) には /24 サブネットを${availableSubnets}個しか作成できません（必要数: ${requiredSubnets}）`
+      );
+    }
+  }
+
+  // NATインスタンスのAMIはアカウントを指定したlookupで取得するため、アカウントが必須
+  if (config.network.egress === "natInstance" && !config.account) {
+    errors.push(
+      "network.egress が natInstance の場合は account を指定してください（CDK_DEFAULT_ACCOUNT が未設定です）"
+    );
+  }
+
+  // サービス設定のチェック
+  errors.push(...validateServiceSpec(config.service, "service"));
+
+  // 追加のサービスのチェック
+  const additionalServices = config.additionalServices ?? [];
+  additionalServices.forEach((spec, index) => {
+    const path = `additionalServices[${index}]`;
+    errors.push(...validateServiceSpec(spec, path));
+
+    const { listenerRule } = spec;
+    if (!listenerRule) {
+      return;
+    }
+    if (!config.loadBalancer || !spec.ingress) {
+      errors.push(
+        `${path}.listenerRule を設定する場合は ingress と loadBalancer を設定してください`
+      );
+    }
+    if (listenerRule.pathPatterns.length === 0) {
+      errors.push(
+        `${path}.listenerRule.pathPatterns を1つ以上指定してください`
+      );
+    }
+    if (!isIntegerInRange(listenerRule.priority, 1, 50000)) {
+      errors.push(
+        `${path}.listenerRule.priority は1〜50000の整数で指定してください: ${listenerRule.priority}`
+      );
+    }
+    if (!listenerRule.healthCheckPath.startsWith("/")) {
+      errors.push(
+        `${path}.listenerRule.healthCheckPath は "/" で始めてください: "${listenerRule.healthCheckPath}"`
+      );
+    }
+  });
+
+  // サービス名・ファミリー名・リスナールールの優先度はクラスター・ALB内で一意
+  const allServices = [config.service, ...additionalServices];
+  (["serviceName", "family"] as const).forEach((key) => {
+    findDuplicates(allServices.map((spec) => spec[key])).forEach((value) => {
+      errors.push(`${key} が重複しています: "${value}"`);
+    });
+  });
+  findDuplicates(
+    additionalServices.flatMap((spec) =>
+      spec.listenerRule ? [String(spec.listenerRule.priority)] : []
+    )
+  ).forEach((priority) => {
+    errors.push(`listenerRule.priority が重複しています: ${priority}`);
+  });
+
+  // シークレットのチェック
+  errors.push(...validateSecrets(config.secrets ?? [], allServices));
+
+  // サービスディスカバリーのチェック
+  errors.push(...validateServiceDiscovery(config, allServices));
+
+  // キャパシティプロバイダー戦略のチェック
+  allServices.forEach((spec) => {
+    if (spec.capacity) {
+      errors.push(
+        ...validateCapacity(spec.capacity, spec.serviceName, config.stage)
+      );
+    }
+  });
+
+  // Auto Scaling設定のチェック
+  if (config.service.autoScaling) {
+    errors.push(
+      ...validateAutoScaling(
+        config.service.autoScaling,
+        config.service.desiredCount,
+        config.loadBalancer !== undefined
+      )
+    );
+  }
+
+  // スケジュール設定のチェック
+  if (config.service.schedule) {
+    errors.push(...validateSchedule(config.service.schedule));
+  }
+
+  // ロードバランサー設定のチェック
+  if (config.loadBalancer) {
+    if (!config.loadBalancer.healthCheckPath.startsWith("/")) {
+      errors.push(
+        `loadBalancer.healthCheckPath は "/" で始めてください: "${config.loadBalancer.healthCheckPath}"`
+      );
+    }
+    if (
+      !isIntegerInRange(config.loadBalancer.healthCheckIntervalSeconds, 5, 300)
+    ) {
+      errors.push(
+        `loadBalancer.healthCheckIntervalSeconds は5〜300の整数で指定してください: ${config.loadBalancer.healthCheckIntervalSeconds}`
+      );
+    }
+    if (config.loadBalancer.customDomain) {
+      errors.push(
+        ...validateCustomDomain(config.loadBalancer.customDomain, config)
+      );
+    }
+    if (config.loadBalancer.waf) {
+      errors.push(...validateWaf(config.loadBalancer.waf));
+    }
+  }
+
+  // ECS Exec設定のチェック
+  if (config.execCommand) {
+    const { logDestinations } = config.execCommand;
+    if (logDestinations.length === 0) {
+      errors.push("execCommand.logDestinations を1つ以上指定してください");
+    }
+    findDuplicates(logDestinations).forEach((destination) => {
+      errors.push(
+        `execCommand.logDestinations が重複しています: ${destination}`
+      );
+    });
+  }
+
+  // 暗号化設定のチェック
+  if (
+    config.encryption &&
+    !isIntegerInRange(config.encryption.pendingWindowDays, 7, 30)
+  ) {
+    errors.push(
+      `encryption.pendingWindowDays は7〜30の整数で指定してください: ${config.encryption.pendingWindowDays}`
+    );
+  }
+
+  // データベース設定のチェック
+  if (config.database) {
+    errors.push(...validateDatabase(config.database, config));
+  }
+
+  // デプロイ方式のチェック
+  const { deployment } = config.service;
+  if (deployment?.strategy === "blueGreen") {
+    errors.push(...validateBlueGreenDeployment(deployment, config));
+  } else if (deployment?.deploymentAlarms && !config.monitoring) {
+    errors.push(
+      "service.deployment.deploymentAlarms を設定する場合は monitoring を設定してください"
+    );
+  }
+
+  // パイプライン設定のチェック
+  const { imageBuild } = config.pipeline;
+  if (imageBuild) {
+    // ECRリポジトリ名の命名規則（小文字、数字、区切り文字）
+    if (
+      !/^[a-z0-9]+(?:[._-][a-z0-9]+)*(?:\/[a-z0-9]+(?:[._-][a-z0-9]+)*)*$/.test(
+        imageBuild.repositoryName
+      )
+    ) {
+      errors.push(
+        `pipeline.imageBuild.repositoryName が不正です（小文字・数字・区切り文字のみ）: "${imageBuild.repositoryName}"`
+      );
+    }
+    if (
+      imageBuild.imageTag !== undefined &&
+      !/^[\w][\w.-]{0,127}$/.test(imageBuild.imageTag)
+    ) {
+      errors.push(
+        `pipeline.imageBuild.imageTag（LAB_INFRA_IMAGE_TAG）がイメージのタグとして不正です: "${imageBuild.imageTag}"`
+      );
+    }
+    if (!isIntegerInRange(imageBuild.maxImageCount, 1, 1000)) {
+      errors.push(
+        `pipeline.imageBuild.maxImageCount は1〜1000の整数で指定してください: ${imageBuild.maxImageCount}`
+      );
+    }
+    if (
+      !config.service.containers.some(
+        (container) => container.name === imageBuild.containerName
+      )
+    ) {
+      errors.push(
+        `pipeline.imageBuild.containerName のコンテナが service.containers にありません: "${imageBuild.containerName}"`
+      );
+    }
+  }
+
+  // VPCエンドポイント経由ではDocker Hubなど外部レジストリのイメージをプルできない
+  // ECRのイメージか、パイプラインでビルドしたイメージ（imageTag 指定時）のみ許可する
+  if (config.network.egress === "vpcEndpoints") {
+    const checkImages = (spec: ServiceSpec, path: string) => {
+      spec.containers.forEach((container, index) => {
+        const built =
+          spec === config.service &&
+          container.name === imageBuild?.containerName &&
+          imageBuild.imageTag !== undefined;
+        if (!built && !ECR_IMAGE_PATTERN.test(container.image)) {
+          errors.push(
+            `network.egress が vpcEndpoints の場合、${path}.containers[${index}].image はECRのイメージを指定してください: "${container.image}"`
+          );
+        }
+      });
+    };
+    checkImages(config.service, "service");
+    (config.additionalServices ?? []).forEach((spec, index) =>
+      checkImages(spec, `additionalServices[${index}]`)
+    );
+  }
+
+  errors.push(...validateSource(config.pipeline.source));
+
+  const { smokeTest } = config.pipeline;
+  if (smokeTest) {
+    // ALBのDNS名にアクセスして確認するため
+    if (!config.loadBalancer) {
+      errors.push(
+        "pipeline.smokeTest を設定する場合は loadBalancer を設定してください"
+      );
+    }
+    if (!smokeTest.path.startsWith("/")) {
+      errors.push(
+        `pipeline.smokeTest.path は / で始めてください: "${smokeTest.path}"`
+      );
+    }
+    if (!isIntegerInRange(smokeTest.expectedStatus, 100, 599)) {
+      errors.push(
+        `pipeline.smokeTest.expectedStatus が不正です: ${smokeTest.expectedStatus}`
+      );
+    }
+    if (!isIntegerInRange(smokeTest.attempts, 1, 60)) {
+      errors.push(
+        `pipeline.smokeTest.attempts は1〜60の整数で指定してください: ${smokeTest.attempts}`
+      );
+    }
+  }
+
+  const { approval } = config.pipeline;
+  if (approval) {
+    // 承認依頼が誰にも届かず、承認待ちのまま止まるのを防ぐ
+    if (approval.approverEmails.length === 0) {
+      errors.push(
+        "pipeline.approval を設定する場合は approverEmails（LAB_INFRA_APPROVER_EMAILS）を指定してください"
+      );
+    }
+    approval.approverEmails
+      .filter((email) => !isEmailAddress(email))
+      .forEach((email) => {
+        errors.push(
+          `pipeline.approval.approverEmails のメールアドレスが不正です: "${email}"`
+        );
+      });
+  }
+
+  const { notifications } = config.pipeline;
+  if (notifications) {
+    if (notifications.events.length === 0) {
+      errors.push("pipeline.notifications.events を1つ以上指定してください");
+    }
+    if (
+      notifications.events.includes("approvalNeeded") &&
+      !config.pipeline.approval
+    ) {
+      errors.push(
+        "pipeline.notifications.events の approvalNeeded は pipeline.approval を設定した場合のみ指定できます"
+      );
+    }
+    notifications.emails
+      .filter((email) => !isEmailAddress(email))
+      .forEach((email) => {
+        errors.push(
+          `pipeline.notifications.emails のメールアドレスが不正です: "${email}"`
+        );
+      });
+    if (notifications.chatWebhook?.secretName.trim() === "") {
+      errors.push(
+        "pipeline.notifications.chatWebhook.secretName を指定してください"
+      );
+    }
+  }
+
+  const { monitoring } = config;
+  if (monitoring) {
+    monitoring.alarmEmails
+      .filter((email) => !isEmailAddress(email))
+      .forEach((email) => {
+        errors.push(
+          `monitoring.alarmEmails のメールアドレスが不正です: "${email}"`
+        );
+      });
+    if (monitoring.alarmWebhook?.secretName.trim() === "") {
+      errors.push("monitoring.alarmWebhook.secretName を指定してください");
+    }
+    (["cpuAlarmThreshold", "memoryAlarmThreshold"] as const).forEach((key) => {
+      if (!isIntegerInRange(monitoring[key], 1, 100)) {
+        errors.push(
+          `monitoring.${key} は1〜100の整数で指定してください: ${monitoring[key]}`
+        );
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `[${config.stage}] 環境設定が不正です:\n` +
+        errors.map((error) => `  - ${error}`).join("\n")
+    );
+  }
+}
+
+// TypeScript: 戻り値の型に「value is StageName」と書くと型ガードになり、
+// trueを返した後の呼び出し元では value が StageName 型として扱われる
+function isStageName(value: unknown): value is StageName {
+  return (
+    typeof value === "string" &&
+    (STAGE_NAMES as readonly string[]).includes(value)
+  );
+}
+
+function validateAutoScaling(
+  autoScaling: AutoScalingConfig,
+  desiredCount: number,
+  hasLoadBalancer: boolean
+): string[] {
+  const errors: string[] = [];
+  const { minCapacity, maxCapacity } = autoScaling;
+
+  if (
+    !isIntegerInRange(minCapacity, 0, 100) ||
+    !isIntegerInRange(maxCapacity, 1, 100) ||
+    minCapacity > maxCapacity
+  ) {
+    errors.push(
+      `service.autoScaling の minCapacity (${minCapacity}) と maxCapacity (${maxCapacity}) は 0 <= min <= max <= 100 の整数で指定してください`
+    );
+  } else if (desiredCount < minCapacity || desiredCount > maxCapacity) {
+    errors.push(
+      `service.desiredCount (${desiredCount}) は autoScaling の minCapacity〜maxCapacity の範囲で指定してください`
+    );
+  }
+
+  // TypeScript: [名前, 値] のタプル配列でまとめてチェック
+  const targetTrackings: [string, TargetTrackingConfig | undefined][] = [
+    ["cpu", autoScaling.cpu],
+    ["memory", autoScaling.memory],
+    ["requestCountPerTarget", autoScaling.requestCountPerTarget],
+  ];
+  for (const [name, policy] of targetTrackings) {
+    if (!policy) {
+      continue;
+    }
+    // 使用率（%）は1〜100、リクエスト数は1以上
+    const maxTarget = name === "requestCountPerTarget" ? Infinity : 100;
+    if (!(policy.targetValue > 0 && policy.targetValue <= maxTarget)) {
+      errors.push(
+        `service.autoScaling.${name}.targetValue が範囲外です: ${policy.targetValue}`
+      );
+    }
+    if (
+      policy.scaleInCooldownSeconds < 0 ||
+      policy.scaleOutCooldownSeconds < 0
+    ) {
+      errors.push(
+        `service.autoScaling.${name} のクールダウンは0秒以上で指定してください`
+      );
+    }
+  }
+
+  if (autoScaling.requestCountPerTarget && !hasLoadBalancer) {
+    errors.push(
+      "service.autoScaling.requestCountPerTarget は loadBalancer を設定した場合のみ使用できます"
+    );
+  }
+
+  const { customMetric } = autoScaling;
+  if (customMetric) {
+    if (customMetric.steps.length < 2) {
+      errors.push(
+        "service.autoScaling.customMetric.steps には2つ以上の段階を指定してください（スケールアウトとスケールイン）"
+      );
+    }
+    if (customMetric.cooldownSeconds < 0) {
+      errors.push(
+        "service.autoScaling.customMetric.cooldownSeconds は0秒以上で指定してください"
+      );
+    }
+  }
+
+  return errors;
+}
+
+// サービス名はIAMロールやターゲットグループの名前にも使うため、長さと文字を制限する
+const SERVICE_NAME_PATTERN = /^lab-infra-[a-z0-9-]{1,18}$/;
+
+// ECRのイメージのURI（例: 123456789012.dkr.ecr.ap-northeast-1.amazonaws.com/lab-infra-app:v1）
+const ECR_IMAGE_PATTERN = /^\d{12}\.dkr\.ecr\.[a-z0-9-]+\.amazonaws\.com\//;
+
+/**
+ * サービスの定義（タスクのサイズとコンテナ）のチェック
+ *
+ * path はエラーメッセージに表示する設定の場所（例: "service", "additionalServices[0]"）
+ */
+function validateServiceSpec(spec: ServiceSpec, path: string): string[] {
+  const errors: string[] = [];
+
+  if (!SERVICE_NAME_PATTERN.test(spec.serviceName)) {
+    errors.push(
+      `${path}.serviceName は lab-infra- で始まる28文字以内の小文字・数字・ハイフンで指定してください: "${spec.serviceName}"`
+    );
+  }
+
+  const allowedMemory = FARGATE_MEMORY_BY_CPU[spec.cpu];
+  if (allowedMemory === undefined) {
+    errors.push(
+      `${path}.cpu はFargateで指定可能な値にしてください（${Object.keys(
+        FARGATE_MEMORY_BY_CPU
+      ).join(", ")}）: ${spec.cpu}`
+    );
+  } else if (!allowedMemory.includes(spec.memoryLimitMiB)) {
+    errors.push(
+      `${path}.memoryLimitMiB (${spec.memoryLimitMiB}) は cpu ${
+        spec.cpu
+      } と組み合わせられません（${allowedMemory[0]}〜${
+        allowedMemory[allowedMemory.length - 1]
+      }）`
+    );
+  }
+
+  if (!isIntegerInRange(spec.desiredCount, 0, 100)) {
+    errors.push(
+      `${path}.desiredCount は0〜100の整数で指定してください: ${spec.desiredCount}`
+    );
+  }
+
+  // コンテナのチェック
+  const { containers } = spec;
+  if (containers.length === 0) {
+    errors.push(`${path}.containers を1つ以上指定してください`);
+  }
+  findDuplicates(containers.map((container) => container.name)).forEach(
+    (name) => {
+      errors.push(`${path}.containers のコンテナ名が重複しています: "${name}"`);
+    }
+  );
+  if (
+    containers.length > 0 &&
+    containers.every((container) => container.essential === false)
+  ) {
+    errors.push(`${path}.containers には essential なコンテナが必要です`);
+  }
+
+  // コンテナに割り当てるCPU・メモリの合計がタスクの範囲に収まるか
+  const sum = (values: (number | undefined)[]) =>
+    values.reduce<number>((total, value) => total + (value ?? 0), 0);
+  if (sum(containers.map((container) => container.cpu)) > spec.cpu) {
+    errors.push(
+      `${path}.containers の cpu の合計がタスクの cpu (${spec.cpu}) を超えています`
+    );
+  }
+  if (
+    sum(
+      containers.map(
+        (container) =>
+          container.memoryReservationMiB ?? container.memoryLimitMiB
+      )
+    ) > spec.memoryLimitMiB
+  ) {
+    errors.push(
+      `${path}.containers のメモリの合計がタスクの memoryLimitMiB (${spec.memoryLimitMiB}) を超えています`
+    );
+  }
+
+  const names = containers.map((container) => container.name);
+  containers.forEach((container) => {
+    const containerPath = `${path}.containers["${container.name}"]`;
+    (container.dependsOn ?? []).forEach(({ containerName, condition }) => {
+      if (containerName === container.name || !names.includes(containerName)) {
+        errors.push(
+          `${containerPath}.dependsOn のコンテナが不正です: "${containerName}"`
+        );
+        return;
+      }
+      const dependency = containers.find(
+        (candidate) => candidate.name === containerName
+      );
+      if (condition === "healthy" && !dependency?.healthCheck) {
+        errors.push(
+          `${containerPath}.dependsOn の条件が healthy の場合は "${containerName}" に healthCheck を設定してください`
+        );
+      }
+    });
+    Object.entries(container.secrets ?? {}).forEach(([name, secret]) => {
+      if (!ENVIRONMENT_VARIABLE_PATTERN.test(name)) {
+        errors.push(
+          `${containerPath}.secrets の環境変数名が不正です: "${name}"`
+        );
+      }
+      if (container.environment && name in container.environment) {
+        errors.push(
+          `${containerPath} の環境変数 "${name}" が environment と secrets の両方にあります`
+        );
+      }
+      const reference =
+        secret.source === "secretsManager"
+          ? secret.secretName
+          : secret.parameterName;
+      if (reference.trim() === "") {
+        errors.push(
+          `${containerPath}.secrets["${name}"] の参照先を指定してください`
+        );
+      }
+    });
+    if (container.firelensOptions && container.logRouter) {
+      errors.push(
+        `${containerPath} はログルーターのため firelensOptions は指定できません`
+      );
+    }
+    if (container.healthCheck) {
+      errors.push(
+        ...validateContainerHealthCheck(
+          container.healthCheck,
+          `${containerPath}.healthCheck`
+        )
+      );
+    }
+  });
+
+  if (
+    spec.healthCheckGracePeriodSeconds !== undefined &&
+    !isIntegerInRange(spec.healthCheckGracePeriodSeconds, 0, 3600)
+  ) {
+    errors.push(
+      `${path}.healthCheckGracePeriodSeconds は0〜3600の整数で指定してください: ${spec.healthCheckGracePeriodSeconds}`
+    );
+  }
+
+  const logRouters = containers.filter((container) => container.logRouter);
+  if (logRouters.length > 1) {
+    errors.push(`${path}.containers のログルーターは1つまでです`);
+  }
+  if (
+    logRouters.length === 0 &&
+    containers.some((container) => container.firelensOptions)
+  ) {
+    errors.push(
+      `${path}.containers で firelensOptions を使う場合は logRouter のコンテナを追加してください`
+    );
+  }
+
+  // 外部からのトラフィックを受けるコンテナがポートを公開しているか
+  const { ingress } = spec;
+  if (ingress) {
+    const container = containers.find(
+      (candidate) => candidate.name === ingress.containerName
+    );
+    if (!container) {
+      errors.push(
+        `${path}.ingress.containerName のコンテナがありません: "${ingress.containerName}"`
+      );
+    } else if (
+      !(container.portMappings ?? []).some(
+        (mapping) => mapping.containerPort === ingress.containerPort
+      )
+    ) {
+      errors.push(
+        `${path}.ingress.containerPort (${ingress.containerPort}) がコンテナ "${ingress.containerName}" の portMappings にありません`
+      );
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * コンテナのヘルスチェックのチェック（範囲はECSのタスク定義で指定できる値）
+ */
+function validateContainerHealthCheck(
+  healthCheck: ContainerHealthCheckSpec,
+  path: string
+): string[] {
+  const errors: string[] = [];
+
+  const [type, ...args] = healthCheck.command;
+  if (!(type === "CMD" || type === "CMD-SHELL") || args.length === 0) {
+    errors.push(
+      `${path}.command は "CMD" または "CMD-SHELL" とコマンドを指定してください（例: ["CMD-SHELL", "curl -f http://localhost/ || exit 1"]）`
+    );
+  }
+  // TypeScript: as const で要素をリテラル型にすると、healthCheck[key] の key がプロパティ名として扱われる
+  (
+    [
+      ["intervalSeconds", 5, 300],
+      ["timeoutSeconds", 2, 60],
+      ["retries", 1, 10],
+      ["startPeriodSeconds", 0, 300],
+    ] as const
+  ).forEach(([key, min, max]) => {
+    const value = healthCheck[key];
+    if (value !== undefined && !isIntegerInRange(value, min, max)) {
+      errors.push(
+        `${path}.${key} は${min}〜${max}の整数で指定してください: ${value}`
+      );
+    }
+  });
+
+  return errors;
+}
+
+// 環境変数名（英字またはアンダースコアで始まる英数字とアンダースコア）
+const ENVIRONMENT_VARIABLE_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// 作成するシークレットの名前（IAMポリシーなどで lab-infra/* として扱えるようにする）
+const MANAGED_SECRET_NAME_PATTERN = /^lab-infra\/[A-Za-z0-9/_+=.@-]+$/;
+
+/**
+ * 作成するシークレットと、コンテナからのシークレットの参照のチェック
+ */
+function validateSecrets(
+  secrets: ManagedSecretConfig[],
+  services: ServiceSpec[]
+): string[] {
+  const errors: string[] = [];
+
+  secrets.forEach((secret, index) => {
+    const path = `secrets[${index}]`;
+    if (!MANAGED_SECRET_NAME_PATTERN.test(secret.secretName)) {
+      errors.push(
+        `${path}.secretName は lab-infra/ で始まる名前で指定してください: "${secret.secretName}"`
+      );
+    }
+    if (
+      secret.passwordLength !== undefined &&
+      !isIntegerInRange(secret.passwordLength, 8, 128)
+    ) {
+      errors.push(
+        `${path}.passwordLength は8〜128の整数で指定してください: ${secret.passwordLength}`
+      );
+    }
+    if (secret.json) {
+      if (secret.json.generateKey.trim() === "") {
+        errors.push(`${path}.json.generateKey を指定してください`);
+      } else if (secret.json.generateKey in secret.json.template) {
+        errors.push(
+          `${path}.json.generateKey "${secret.json.generateKey}" は template のキーと重複しています`
+        );
+      }
+    }
+  });
+  findDuplicates(secrets.map((secret) => secret.secretName)).forEach((name) => {
+    errors.push(`secrets.secretName が重複しています: "${name}"`);
+  });
+
+  // 作成するシークレットを参照する場合は、JSONのキーが存在するか
+  services.forEach((service) => {
+    service.containers.forEach((container) => {
+      Object.entries(container.secrets ?? {}).forEach(([name, reference]) => {
+        if (reference.source !== "secretsManager") {
+          return;
+        }
+        const managed = secrets.find(
+          (secret) => secret.secretName === reference.secretName
+        );
+        if (!managed || reference.jsonKey === undefined) {
+          return;
+        }
+        const keys = managed.json
+          ? [...Object.keys(managed.json.template), managed.json.generateKey]
+          : [];
+        if (!keys.includes(reference.jsonKey)) {
+          errors.push(
+            `${service.serviceName} のコンテナ "${container.name}" の secrets["${name}"].jsonKey がシークレット "${managed.secretName}" にありません: "${reference.jsonKey}"`
+          );
+        }
+      });
+    });
+  });
+
+  return errors;
+}
+
+function validateCapacity(
+  capacity: CapacityProviderStrategySpec,
+  serviceName: string,
+  stage: StageName
+): string[] {
+  const errors: string[] = [];
+  const path = `${serviceName}.capacity`;
+
+  if (!isIntegerInRange(capacity.onDemandBase, 0, 100)) {
+    errors.push(
+      `${path}.onDemandBase は0〜100の整数で指定してください: ${capacity.onDemandBase}`
+    );
+  }
+  (["onDemandWeight", "spotWeight"] as const).forEach((key) => {
+    if (!isIntegerInRange(capacity[key], 0, 1000)) {
+      errors.push(
+        `${path}.${key} は0〜1000の整数で指定してください: ${capacity[key]}`
+      );
+    }
+  });
+  if (capacity.onDemandWeight === 0 && capacity.spotWeight === 0) {
+    errors.push(
+      `${path} の onDemandWeight と spotWeight のどちらかを1以上にしてください`
+    );
+  }
+
+  // 本番はSpotの中断が重なっても最低限のタスクがオンデマンドで動き続けるようにする
+  if (
+    stage === "prod" &&
+    capacity.spotWeight > 0 &&
+    capacity.onDemandBase < 1
+  ) {
+    errors.push(
+      `${path}.onDemandBase は prod でSpotを使用する場合は1以上にしてください`
+    );
+  }
+
+  return errors;
+}
+
+// DNSのラベル（小文字・数字・ハイフン、63文字以内）
+const DNS_LABEL_PATTERN = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/;
+
+// "lab.example.com" のようにDNSのラベルを "." でつないだ名前か
+function isDomainName(value: string): boolean {
+  return value.split(".").every((label) => DNS_LABEL_PATTERN.test(label));
+}
+
+/**
+ * カスタムドメインのドメイン名とホストゾーンのチェック
+ */
+function validateCustomDomain(
+  customDomain: CustomDomainConfig,
+  config: EnvironmentConfig
+): string[] {
+  const errors: string[] = [];
+  const { domainName, hostedZoneName } = customDomain;
+
+  if (!isDomainName(domainName)) {
+    errors.push(
+      `loadBalancer.customDomain.domainName が不正です（例: "app.lab.example.com"）: "${domainName}"`
+    );
+  }
+  if (!isDomainName(hostedZoneName)) {
+    errors.push(
+      `loadBalancer.customDomain.hostedZoneName が不正です（例: "lab.example.com"）: "${hostedZoneName}"`
+    );
+  }
+  // レコードはホストゾーン内にしか作成できない（ホストゾーンの名前そのものは可）
+  if (
+    domainName !== hostedZoneName &&
+    !domainName.endsWith(`.${hostedZoneName}`)
+  ) {
+    errors.push(
+      `loadBalancer.customDomain.domainName (${domainName}) は hostedZoneName (${hostedZoneName}) のドメインに含めてください`
+    );
+  }
+  // 既存のホストゾーンはアカウントを指定したlookupで取得する
+  if (customDomain.hostedZone === "lookup" && !config.account) {
+    errors.push(
+      "loadBalancer.customDomain.hostedZone が lookup の場合は account を指定してください（CDK_DEFAULT_ACCOUNT が未設定です）"
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * WAFのルールのチェック
+ */
+function validateWaf(waf: WafConfig): string[] {
+  const errors: string[] = [];
+
+  const duplicatedGroups = findDuplicates(waf.managedRuleGroups);
+  if (duplicatedGroups.length > 0) {
+    errors.push(
+      `loadBalancer.waf.managedRuleGroups が重複しています: ${duplicatedGroups.join(
+        ", "
+      )}`
+    );
+  }
+  // WAFのレートベースのルールで指定できる範囲
+  if (
+    waf.rateLimitPer5Minutes !== undefined &&
+    !isIntegerInRange(waf.rateLimitPer5Minutes, 100, 2000000000)
+  ) {
+    errors.push(
+      `loadBalancer.waf.rateLimitPer5Minutes は100〜2000000000の整数で指定してください: ${waf.rateLimitPer5Minutes}`
+    );
+  }
+
+  // IPセットはIPv4のアドレスのみ作成する
+  const allowed = waf.allowedIpCidrs ?? [];
+  const blocked = waf.blockedIpCidrs ?? [];
+  [
+    { key: "allowedIpCidrs", cidrs: allowed },
+    { key: "blockedIpCidrs", cidrs: blocked },
+  ].forEach(({ key, cidrs }) => {
+    cidrs
+      .filter((cidr) => {
+        const mask = parseCidrMask(cidr);
+        return mask === undefined || mask > 32;
+      })
+      .forEach((cidr) => {
+        errors.push(
+          `loadBalancer.waf.${key} にはIPv4のCIDR（例: "203.0.113.0/24"）を指定してください: "${cidr}"`
+        );
+      });
+  });
+  const conflicts = allowed.filter((cidr) => blocked.includes(cidr));
+  if (conflicts.length > 0) {
+    errors.push(
+      `loadBalancer.waf の allowedIpCidrs と blockedIpCidrs の両方に指定されています: ${conflicts.join(
+        ", "
+      )}`
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * 名前空間とサービスの登録、呼び出し元の許可のチェック
+ */
+function validateServiceDiscovery(
+  config: EnvironmentConfig,
+  services: ServiceSpec[]
+): string[] {
+  const errors: string[] = [];
+  const { serviceDiscovery } = config;
+
+  if (serviceDiscovery && !isDomainName(serviceDiscovery.namespace)) {
+    errors.push(
+      `serviceDiscovery.namespace が不正です（例: "lab.local"）: "${serviceDiscovery.namespace}"`
+    );
+  }
+
+  services.forEach((spec) => {
+    const { discovery } = spec;
+    if (!discovery) {
+      return;
+    }
+    const path = `${spec.serviceName}.discovery`;
+
+    if (!serviceDiscovery) {
+      errors.push(
+        `${path} を設定する場合は serviceDiscovery を設定してください`
+      );
+    }
+    // Blue/Greenデプロイ（CodeDeploy）のサービスは、Cloud Map・Service Connectに対応していない
+    if (
+      spec === config.service &&
+      config.service.deployment?.strategy === "blueGreen"
+    ) {
+      errors.push(
+        `${path} は service.deployment が blueGreen の場合は使用できません`
+      );
+    }
+
+    if (discovery.name === undefined) {
+      if (discovery.mode === "cloudMap") {
+        errors.push(`${path}.name を指定してください（cloudMap の場合は必須）`);
+      }
+      if ((discovery.allowedCallers ?? []).length > 0) {
+        errors.push(
+          `${path}.allowedCallers を設定する場合は name を指定してください`
+        );
+      }
+      return;
+    }
+
+    if (!DNS_LABEL_PATTERN.test(discovery.name)) {
+      errors.push(
+        `${path}.name は小文字・数字・ハイフンで指定してください: "${discovery.name}"`
+      );
+    }
+    const portMappingName = discovery.portMappingName ?? "http";
+    if (
+      !spec.containers.some((container) =>
+        (container.portMappings ?? []).some(
+          (mapping) => mapping.name === portMappingName
+        )
+      )
+    ) {
+      errors.push(
+        `${path}.portMappingName のポートマッピングがコンテナにありません: "${portMappingName}"`
+      );
+    }
+
+    (discovery.allowedCallers ?? []).forEach((callerName) => {
+      const caller = services.find(
+        (candidate) => candidate.serviceName === callerName
+      );
+      if (!caller || caller === spec) {
+        errors.push(
+          `${path}.allowedCallers のサービスが不正です: "${callerName}"`
+        );
+      } else if (
+        discovery.mode === "serviceConnect" &&
+        caller.discovery?.mode !== "serviceConnect"
+      ) {
+        // 呼び出し側もService Connectのプロキシを経由しないと名前解決できない
+        errors.push(
+          `${path}.allowedCallers の "${callerName}" は discovery.mode を serviceConnect にしてください`
+        );
+      }
+    });
+  });
+
+  findDuplicates(
+    services.flatMap((spec) =>
+      spec.discovery?.name ? [spec.discovery.name] : []
+    )
+  ).forEach((name) => {
+    errors.push(`discovery.name が重複しています: "${name}"`);
+  });
+
+  return errors;
+}
+
+// コンテナに注入するデータベースの接続情報の環境変数
+export const DATABASE_ENVIRONMENT_VARIABLES = [
+  "DB_HOST",
+  "DB_PORT",
+  "DB_NAME",
+  "DB_USERNAME",
+  "DB_PASSWORD",
+];
+
+function validateDatabase(
+  database: DatabaseConfig,
+  config: EnvironmentConfig
+): string[] {
+  const errors: string[] = [];
+  const { engine } = database;
+
+  // DBサブネットグループには2つ以上のAZのサブネットが必要
+  if (config.network.maxAzs < 2) {
+    errors.push(
+      "database を設定する場合は network.maxAzs を2以上にしてください"
+    );
+  }
+
+  // PostgreSQLの識別子（英字で始まる63文字以内）
+  if (!/^[A-Za-z][A-Za-z0-9_]{0,62}$/.test(database.databaseName)) {
+    errors.push(
+      `database.databaseName は英字で始まる63文字以内の英数字とアンダースコアで指定してください: "${database.databaseName}"`
+    );
+  }
+
+  const minRetentionDays = engine.type === "auroraServerless" ? 1 : 0;
+  if (!isIntegerInRange(database.backupRetentionDays, minRetentionDays, 35)) {
+    errors.push(
+      `database.backupRetentionDays は${minRetentionDays}〜35の整数で指定してください: ${database.backupRetentionDays}`
+    );
+  }
+  if (
+    database.preferredBackupWindow !== undefined &&
+    !/^([01]\d|2[0-3]):[0-5]\d-([01]\d|2[0-3]):[0-5]\d$/.test(
+      database.preferredBackupWindow
+    )
+  ) {
+    errors.push(
+      `database.preferredBackupWindow は "hh:mm-hh:mm"（UTC）の形式で指定してください: "${database.preferredBackupWindow}"`
+    );
+  }
+
+  if (engine.type === "rdsPostgres") {
+    if (!/^[a-z0-9]+\.[a-z0-9]+$/.test(engine.instanceType)) {
+      errors.push(
+        `database.engine.instanceType が不正です（例: "t4g.micro"）: "${engine.instanceType}"`
+      );
+    }
+    if (!isIntegerInRange(engine.allocatedStorageGiB, 20, 65536)) {
+      errors.push(
+        `database.engine.allocatedStorageGiB は20〜65536の整数で指定してください: ${engine.allocatedStorageGiB}`
+      );
+    }
+  } else {
+    const isCapacity = (value: number) =>
+      Number.isInteger(value * 2) && value >= 0.5 && value <= 128;
+    if (
+      !isCapacity(engine.minCapacity) ||
+      !isCapacity(engine.maxCapacity) ||
+      engine.minCapacity > engine.maxCapacity
+    ) {
+      errors.push(
+        `database.engine の minCapacity (${engine.minCapacity}) と maxCapacity (${engine.maxCapacity}) は 0.5 <= min <= max <= 128 の0.5刻みで指定してください`
+      );
+    }
+    if (!isIntegerInRange(engine.readers, 0, 15)) {
+      errors.push(
+        `database.engine.readers は0〜15の整数で指定してください: ${engine.readers}`
+      );
+    }
+  }
+
+  // 接続情報を注入するコンテナ
+  const container = config.service.containers.find(
+    (candidate) => candidate.name === database.containerName
+  );
+  if (!container) {
+    errors.push(
+      `database.containerName のコンテナが service.containers にありません: "${database.containerName}"`
+    );
+  } else {
+    DATABASE_ENVIRONMENT_VARIABLES.filter(
+      (name) =>
+        name in (container.environment ?? {}) ||
+        name in (container.secrets ?? {})
+    ).forEach((name) => {
+      errors.push(
+        `コンテナ "${container.name}" の環境変数 "${name}" はデータベースの接続情報と重複しています`
+      );
+    });
+  }
+
+  return errors;
+}
+
+function validateSchedule(schedule: ScheduleConfig): string[] {
+  const errors: string[] = [];
+
+  // 存在しないタイムゾーンを指定するとIntl.DateTimeFormatが例外を投げる
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: schedule.timeZone });
+  } catch {
+    errors.push(
+      `service.schedule.timeZone が不正です: "${schedule.timeZone}"（例: "Asia/Tokyo"）`
+    );
+  }
+
+  // Application Auto Scaling の cron式は6フィールド（分 時 日 月 曜日 年）
+  // TypeScript: オブジェクトリテラルをその場でループ（キー名をエラーメッセージに使う）
+  for (const [name, cron] of Object.entries({
+    sleepCron: schedule.sleepCron,
+    wakeCron: schedule.wakeCron,
+  })) {
+    if (cron.trim().split(/\s+/).length !== 6) {
+      errors.push(
+        `service.schedule.${name} は6フィールドのcron式で指定してください（分 時 日 月 曜日 年）: "${cron}"`
+      );
+    }
+  }
+
+  return errors;
+}
+
+function validateBlueGreenDeployment(
+  deployment: BlueGreenDeploymentConfig,
+  config: EnvironmentConfig
+): string[] {
+  const errors: string[] = [];
+
+  // Blue/Greenでは2つのターゲットグループをALBのリスナーで切り替える
+  if (!config.loadBalancer) {
+    errors.push(
+      "service.deployment が blueGreen の場合は loadBalancer を設定してください"
+    );
+  }
+  // CODE_DEPLOYコントローラーのサービスは、CloudFormationからイメージを更新できないため
+  // パイプラインでビルドしたイメージをCodeDeployでデプロイする
+  if (!config.pipeline.imageBuild) {
+    errors.push(
+      "service.deployment が blueGreen の場合は pipeline.imageBuild を設定してください"
+    );
+  }
+
+  if (
+    !isIntegerInRange(deployment.testListenerPort, 1, 65535) ||
+    deployment.testListenerPort === 80
+  ) {
+    errors.push(
+      `service.deployment.testListenerPort は80以外のポート番号で指定してください: ${deployment.testListenerPort}`
+    );
+  }
+  if (!isIntegerInRange(deployment.terminationWaitMinutes, 0, 2880)) {
+    errors.push(
+      `service.deployment.terminationWaitMinutes は0〜2880の整数で指定してください: ${deployment.terminationWaitMinutes}`
+    );
+  }
+
+  const { trafficShifting } = deployment;
+  if (trafficShifting.type !== "allAtOnce") {
+    if (!isIntegerInRange(trafficShifting.percentage, 1, 99)) {
+      errors.push(
+        `service.deployment.trafficShifting.percentage は1〜99の整数で指定してください: ${trafficShifting.percentage}`
+      );
+    }
+    if (!isIntegerInRange(trafficShifting.intervalMinutes, 1, 2880)) {
+      errors.push(
+        `service.deployment.trafficShifting.intervalMinutes は1〜2880の整数で指定してください: ${trafficShifting.intervalMinutes}`
+      );
+    }
+  }
+
+  return errors;
+}
+
+// パイプラインのソース設定のチェック
+function validateSource(source: SourceConfig): string[] {
+  const errors: string[] = [];
+
+  // TypeScript: switch文で判別可能なユニオン型を絞り込む
+  // 各caseの中では、そのproviderに対応するプロパティだけが参照できる
+  switch (source.provider) {
+    case "s3":
+      if (!source.bucketKey.endsWith(".zip")) {
+        errors.push(
+          `pipeline.source.bucketKey はZIPファイルを指定してください: "${source.bucketKey}"`
+        );
+      }
+      break;
+    case "codeCommit":
+      if (!/^[\w.-]{1,100}$/.test(source.repositoryName)) {
+        errors.push(
+          `pipeline.source.repositoryName が不正です: "${source.repositoryName}"`
+        );
+      }
+      break;
+    case "codeStarConnection":
+      if (
+        !/^arn:aws[\w-]*:(codestar-connections|codeconnections):[\w-]+:\d{12}:connection\/[\w-]+$/.test(
+          source.connectionArn
+        )
+      ) {
+        errors.push(
+          `pipeline.source.connectionArn が不正です: "${source.connectionArn}"`
+        );
+      }
+      if (!source.owner || !source.repository) {
+        errors.push(
+          "pipeline.source.owner と pipeline.source.repository を指定してください"
+        );
+      }
+      break;
+  }
+
+  if (source.provider !== "s3" && source.branch.trim() === "") {
+    errors.push("pipeline.source.branch を指定してください");
+  }
+
+  return errors;
+}
+
+/**
+ * NATを経由してインターネットに出る方式かどうか
+ */
+export function usesNat(egress: EgressMode): boolean {
+  return egress === "natInstance" || egress === "natGateway";
+}
+
+function isEmailAddress(value: string): boolean {
+  return /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(value);
+}
+
+// 配列内で2回以上現れる値（重複の検出用）
+function findDuplicates(values: string[]): string[] {
+  // TypeScript: Setで重複を取り除いてから配列に戻す
+  return [
+    ...new Set(
+      values.filter((value, index) => values.indexOf(value) !== index)
+    ),
+  ];
+}
+
+function isIntegerInRange(value: number, min: number, max: number): boolean {
+  return Number.isInteger(value) && value >= min && value <= max;
+}
+
+// "10.0.0.0/16" → 16 を返す（形式が不正な場合はundefined）
+function parseCidrMask(cidr: string): number | undefined {
+  const match = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})\/(\d{1,2})$/.exec(
+    cidr
+  );
+  if (!match) {
+    return undefined;
+  }
+  const octets = match.slice(1, 5).map(Number);
+  if (octets.some((octet) => octet > 255)) {
+    return undefined;
+  }
+  return Number(match[5]);
+}
+
+function range(start: number, end: number, step: number): number[] {
+  const values: number[] = [];
+  for (let value = start; value <= end; value += step) {
+    values.push(value);
+  }
+  return values;
+}
@@ -0,0 +1,434 @@
+// TypeScript: 型だけを使う場合は「import type」で読み込む
+// コンパイル後のJavaScriptにimport文が残らないため、environment-config.ts との循環参照にならない
+import type {
+  ContainerSpec,
+  EnvironmentConfig,
+  StageName,
+} from "./environment-config";
+import * as cdk from "aws-cdk-lib";
+import * as logs from "aws-cdk-lib/aws-logs";
+
+// 全環境で共通のデプロイ先（環境変数が未設定の場合は東京リージョン）
+const defaultRegion = process.env.CDK_DEFAULT_REGION || "ap-northeast-1";
+
+// カンマ区切りの環境変数を配列にする
+function listFromEnv(env: NodeJS.ProcessEnv, name: string): string[] {
+  return (env[name] || "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+}
+
+/**
+ * synth時の環境変数の値をステージの設定に反映する
+ *
+ * メールアドレスなどの通知先はリポジトリに含めないよう、環境変数から読み込む（カンマ区切りで複数指定）
+ * - LAB_INFRA_APPROVER_EMAILS:              デプロイの承認者
+ * - LAB_INFRA_PIPELINE_NOTIFICATION_EMAILS: パイプラインの実行の通知先
+ * - LAB_INFRA_ALARM_EMAILS:                 アラームの通知先
+ * - LAB_INFRA_IMAGE_TAG: パイプラインの ImageBuild でビルドしたイメージのタグ（パイプラインのsynthで設定される）
+ *                        ローカルからデプロイする場合は、デプロイ済みのタグを指定しないとサンプルイメージに戻る
+ *
+ * loadEnvironmentConfig から呼び出す（STAGE_CONFIGS 自体は環境変数に依存しない）
+ */
+export function applyEnvironmentVariables(
+  config: EnvironmentConfig,
+  env: NodeJS.ProcessEnv
+): EnvironmentConfig {
+  const { imageBuild, approval, notifications } = config.pipeline;
+  return {
+    ...config,
+    pipeline: {
+      ...config.pipeline,
+      imageBuild: imageBuild && {
+        ...imageBuild,
+        imageTag: env.LAB_INFRA_IMAGE_TAG || undefined,
+      },
+      approval: approval && {
+        ...approval,
+        approverEmails: listFromEnv(env, "LAB_INFRA_APPROVER_EMAILS"),
+      },
+      notifications: notifications && {
+        ...notifications,
+        emails: listFromEnv(env, "LAB_INFRA_PIPELINE_NOTIFICATION_EMAILS"),
+      },
+    },
+    monitoring: config.monitoring && {
+      ...config.monitoring,
+      alarmEmails: listFromEnv(env, "LAB_INFRA_ALARM_EMAILS"),
+    },
+  };
+}
+
+// メインのサービスのアプリケーションコンテナ（全環境で共通）
+// amazon/amazon-ecs-sample は、AWSが提供する学習用のサンプルイメージ
+// シンプルなWebサーバーが含まれており、ポート80でHTTPリクエストに応答
+// パイプラインでイメージをビルドする場合は、ビルドしたECRのイメージに置き換えてデプロイされる
+const appContainer: ContainerSpec = {
+  name: "lab-infra-container",
+  image: "amazon/amazon-ecs-sample",
+  portMappings: [{ containerPort: 80, name: "http" }],
+  environment: { APP_NAME: "LabInfra" },
+};
+
+// アプリケーションコンテナのヘルスチェック（dev / stg のみ）
+// サンプルイメージ（curl）とパイプラインでビルドするnginxのイメージ（wget）のどちらでも動くコマンド
+// prodはBlue/Greenデプロイのため、CloudFormationからタスク定義を変更できない
+const appContainerWithHealthCheck: ContainerSpec = {
+  ...appContainer,
+  healthCheck: {
+    command: [
+      "CMD-SHELL",
+      "wget -q -O /dev/null http://localhost/ || curl -fs -o /dev/null http://localhost/ || exit 1",
+    ],
+    intervalSeconds: 30,
+    timeoutSeconds: 5,
+    retries: 3,
+    startPeriodSeconds: 30,
+  },
+};
+
+// メインのサービスの名前（パイプラインのリリースやスモークテストで参照する）
+const mainService = {
+  serviceName: "lab-infra-service",
+  family: "lab-infra-task",
+  containers: [appContainer],
+  ingress: { containerName: appContainer.name, containerPort: 80 },
+};
+
+/**
+ * ステージごとの環境設定
+ *
+ * - dev:  学習用の最小構成（コスト最優先、スタック削除時にリソースも削除）
+ * - stg:  本番に近いサイジングで動作確認する環境
+ * - prod: 冗長化とデータ保持を優先する環境
+ *
+ * 環境ごとに別アカウントへデプロイすることを想定しているため、
+ * リソース名（lab-infra-cluster など）は環境間で共通にしている
+ *
+ * 通知先のメールアドレスとビルドしたイメージのタグは空にしておき、
+ * loadEnvironmentConfig で環境変数の値を反映する（applyEnvironmentVariables）
+ */
+// TypeScript: Record<K, V> = キーの型と値の型を指定したオブジェクト型（JavaのMap<K, V>に相当）
+// StageNameの全ての値をキーとして定義しないとコンパイルエラーになる
+export const STAGE_CONFIGS: Record<StageName, EnvironmentConfig> = {
+  dev: {
+    stage: "dev",
+    displayName: "Development",
+    account: process.env.CDK_DEFAULT_ACCOUNT,
+    region: defaultRegion,
+    removalPolicy: cdk.RemovalPolicy.DESTROY,
+    logRetention: logs.RetentionDays.ONE_WEEK,
+    network: {
+      vpcCidr: "10.0.0.0/16",
+      maxAzs: 2,
+      // 学習用のためNATやエンドポイントの費用がかからない構成
+      egress: "publicSubnet",
+    },
+    service: {
+      ...mainService,
+      containers: [appContainerWithHealthCheck],
+      cpu: 256,
+      memoryLimitMiB: 512,
+      desiredCount: 1,
+      // 起動に失敗し続けるタスクの置き換えを止めて、直前のデプロイに戻す
+      deployment: { strategy: "rolling", circuitBreaker: { rollback: true } },
+      // 学習用のため全てのタスクをFargate Spotで実行（オンデマンドより約70%安い）
+      capacity: { onDemandBase: 0, onDemandWeight: 0, spotWeight: 1 },
+      // 利用しない夜間と休日はタスクを停止（平日8:00〜20:00のみ稼働）
+      schedule: {
+        timeZone: "Asia/Tokyo",
+        sleepCron: "0 20 * * ? *",
+        wakeCron: "0 8 ? * MON-FRI *",
+      },
+    },
+    // 実行中のコンテナでコマンドを実行してデバッグできる（セッションはCloudWatch Logsに記録）
+    execCommand: { logDestinations: ["cloudWatchLogs"] },
+    // devはコスト削減のためALBを作成しない（タスクのパブリックIPでアクセス）
+    // パイプラインは承認なしで自動デプロイ
+    pipeline: {
+      // 手動でアップロードしたソースZIPを使用
+      // Gitリポジトリを使用する場合の例:
+      //   source: {
+      //     provider: "codeStarConnection",
+      //     connectionArn: "arn:aws:codestar-connections:ap-northeast-1:123456789012:connection/xxxx",
+      //     owner: "my-org",
+      //     repository: "lab-infra",
+      //     branch: "main",
+      //   },
+      source: { provider: "s3", bucketKey: "source.zip" },
+      // ソースZIP内の app/Dockerfile からイメージをビルドしてサービスに反映
+      imageBuild: {
+        repositoryName: "lab-infra-app",
+        dockerfileDirectory: "app",
+        containerName: appContainer.name,
+        maxImageCount: 10,
+      },
+      // 失敗した時のみ通知
+      // チャットにも通知する場合の例（シークレットは事前に作成しておく）:
+      //   chatWebhook: { format: "slack", secretName: "lab-infra/pipeline-chat-webhook" },
+      notifications: {
+        events: ["failed"],
+        emails: [],
+      },
+    },
+  },
+
+  stg: {
+    stage: "stg",
+    displayName: "Staging",
+    account: process.env.CDK_DEFAULT_ACCOUNT,
+    region: defaultRegion,
+    removalPolicy: cdk.RemovalPolicy.DESTROY,
+    logRetention: logs.RetentionDays.ONE_MONTH,
+    network: {
+      vpcCidr: "10.1.0.0/16",
+      maxAzs: 2,
+      // サンプルイメージ（Docker Hub）をプルするため、パブリックIPを付与する
+      // ECRのイメージのみで動く場合（LAB_INFRA_IMAGE_TAG の指定など）は "vpcEndpoints" に切り替え可能
+      egress: "publicSubnet",
+    },
+    service: {
+      ...mainService,
+      containers: [appContainerWithHealthCheck],
+      cpu: 512,
+      memoryLimitMiB: 1024,
+      desiredCount: 1,
+      // タスクの起動失敗に加えて、デプロイ中のタスク不足やALBのヘルスチェックの失敗でも直前のデプロイに戻す
+      deployment: {
+        strategy: "rolling",
+        circuitBreaker: { rollback: true },
+        deploymentAlarms: { rollback: true },
+      },
+      // 最初の1タスクはオンデマンド、スケールアウトで追加するタスクはSpotで実行
+      capacity: { onDemandBase: 1, onDemandWeight: 0, spotWeight: 1 },
+      autoScaling: {
+        minCapacity: 1,
+        maxCapacity: 4,
+        cpu: {
+          targetValue: 70,
+          scaleInCooldownSeconds: 300,
+          scaleOutCooldownSeconds: 60,
+        },
+      },
+      schedule: {
+        timeZone: "Asia/Tokyo",
+        sleepCron: "0 20 * * ? *",
+        wakeCron: "0 8 ? * MON-FRI *",
+      },
+    },
+    // セッションはCloudWatch Logsに加えて、長期保存用にS3にも記録
+    execCommand: { logDestinations: ["cloudWatchLogs", "s3"] },
+    // 本番と同じ暗号化の構成を検証するため、カスタマー管理のKMSキーで暗号化
+    encryption: { pendingWindowDays: 7 },
+    // クラスター内のサービスは [名前].lab.local で呼び出せる（サービスの discovery で登録）
+    serviceDiscovery: { namespace: "lab.local" },
+    // 共有クラスターでサービスを追加する場合の例（ALBのパスごとにサービスへ振り分け）:
+    //   additionalServices: [
+    //     {
+    //       serviceName: "lab-infra-api",
+    //       family: "lab-infra-api-task",
+    //       cpu: 256,
+    //       memoryLimitMiB: 512,
+    //       desiredCount: 1,
+    //       containers: [
+    //         {
+    //           name: "api",
+    //           image: "123456789012.dkr.ecr.ap-northeast-1.amazonaws.com/lab-infra-api:1.0.0",
+    //           portMappings: [{ containerPort: 8080, name: "http" }],
+    //           secrets: {
+    //             DB_PASSWORD: { source: "secretsManager", secretName: "lab-infra/api-db", jsonKey: "password" },
+    //             API_KEY: { source: "ssmParameter", parameterName: "/lab-infra/api-key" },
+    //           },
+    //           firelensOptions: { Name: "cloudwatch_logs", region: "ap-northeast-1", log_group_name: "/aws/ecs/lab-infra", log_stream_prefix: "api/" },
+    //           dependsOn: [{ containerName: "log-router", condition: "start" }],
+    //         },
+    //         {
+    //           name: "log-router",
+    //           // VPCエンドポイント経由でプルできるよう、AWSが提供するECRのイメージを使う
+    //           image: "906394416424.dkr.ecr.ap-northeast-1.amazonaws.com/aws-for-fluent-bit:stable",
+    //           essential: false,
+    //           memoryReservationMiB: 50,
+    //           logRouter: "fluentbit",
+    //         },
+    //       ],
+    //       ingress: { containerName: "api", containerPort: 8080 },
+    //       listenerRule: { pathPatterns: ["/api/*"], priority: 10, healthCheckPath: "/api/health" },
+    //       // メインのサービスから http://api.lab.local:8080 で呼び出す
+    //       // （Service Connectの場合は mode: "serviceConnect" にし、メインのサービスにも discovery: { mode: "serviceConnect" } を設定）
+    //       discovery: { mode: "cloudMap", name: "api", allowedCallers: ["lab-infra-service"] },
+    //     },
+    //   ],
+    // シークレットを作成する場合の例（値はランダムに生成、コンテナからは secretName で参照）:
+    //   secrets: [
+    //     {
+    //       secretName: "lab-infra/api-db",
+    //       description: "APIサービスのデータベースの認証情報",
+    //       excludePunctuation: true,
+    //       json: { template: { username: "api" }, generateKey: "password" },
+    //     },
+    //   ],
+    loadBalancer: {
+      healthCheckPath: "/",
+      healthCheckIntervalSeconds: 30,
+      healthyHttpCodes: "200",
+    },
+    // 負荷が少ない時間帯は最小容量（0.5 ACU）まで縮小される
+    database: {
+      engine: {
+        type: "auroraServerless",
+        minCapacity: 0.5,
+        maxCapacity: 2,
+        readers: 0,
+      },
+      databaseName: "labinfra",
+      backupRetentionDays: 7,
+      preferredBackupWindow: "17:00-18:00", // 日本時間 2:00-3:00
+      deletionProtection: false,
+      containerName: appContainer.name,
+    },
+    pipeline: {
+      source: { provider: "s3", bucketKey: "source.zip" },
+      imageBuild: {
+        repositoryName: "lab-infra-app",
+        dockerfileDirectory: "app",
+        containerName: appContainer.name,
+        maxImageCount: 10,
+      },
+      // 変更セットを確認してから反映する
+      approval: { approverEmails: [] },
+      // 夜間・休日はタスクが停止しているため、keep-awakeのパラメータで起こしてからテストする
+      smokeTest: {
+        path: "/",
+        expectedStatus: 200,
+        attempts: 6,
+        rollbackOnFailure: false,
+      },
+      notifications: {
+        events: ["failed", "approvalNeeded"],
+        emails: [],
+      },
+    },
+    // Webhookにも通知する場合の例（シークレットは事前に作成しておく）:
+    //   alarmWebhook: { secretName: "lab-infra/alarm-webhook" },
+    monitoring: {
+      alarmEmails: [],
+      cpuAlarmThreshold: 85,
+      memoryAlarmThreshold: 85,
+    },
+  },
+
+  prod: {
+    stage: "prod",
+    displayName: "Production",
+    account: process.env.CDK_DEFAULT_ACCOUNT,
+    region: defaultRegion,
+    // 本番ではスタックを削除してもログやバケットを残す
+    removalPolicy: cdk.RemovalPolicy.RETAIN,
+    logRetention: logs.RetentionDays.THREE_MONTHS,
+    network: {
+      vpcCidr: "10.2.0.0/16",
+      maxAzs: 3,
+      // ECRのイメージのみで動く場合は "vpcEndpoints" に切り替え可能（stg を参照）
+      egress: "publicSubnet",
+    },
+    service: {
+      ...mainService,
+      cpu: 512,
+      memoryLimitMiB: 1024,
+      // 1つのAZ障害でもサービスを継続できるよう2タスク以上
+      desiredCount: 2,
+      autoScaling: {
+        minCapacity: 2,
+        maxCapacity: 10,
+        cpu: {
+          targetValue: 60,
+          scaleInCooldownSeconds: 300,
+          scaleOutCooldownSeconds: 60,
+        },
+        memory: {
+          targetValue: 75,
+          scaleInCooldownSeconds: 300,
+          scaleOutCooldownSeconds: 60,
+        },
+        requestCountPerTarget: {
+          targetValue: 500,
+          scaleInCooldownSeconds: 300,
+          scaleOutCooldownSeconds: 60,
+        },
+      },
+      // 最初に10%のトラフィックで新しいタスクを確認してから全体を切り替える
+      deployment: {
+        strategy: "blueGreen",
+        trafficShifting: { type: "canary", percentage: 10, intervalMinutes: 5 },
+        testListenerPort: 8080,
+        terminationWaitMinutes: 15,
+      },
+    },
+    loadBalancer: {
+      healthCheckPath: "/",
+      healthCheckIntervalSeconds: 15,
+      healthyHttpCodes: "200",
+      // カスタムドメインでHTTPSを使用する場合の例（Route 53のホストゾーンが必要）:
+      //   customDomain: {
+      //     domainName: "app.lab.example.com",
+      //     hostedZoneName: "lab.example.com",
+      //     hostedZone: "lookup",
+      //   },
+      // 本番環境はWAFで一般的な攻撃や悪意のあるIPアドレスからのリクエストをブロック
+      waf: {
+        managedRuleGroups: ["commonRuleSet", "knownBadInputs", "ipReputation"],
+        rateLimitPer5Minutes: 2000,
+        logDestination: "cloudWatchLogs",
+      },
+    },
+    // 本番ではECS Execを無効にする（障害調査などで一時的に有効にする場合の例）:
+    //   execCommand: { logDestinations: ["cloudWatchLogs", "s3"] },
+    // カスタマー管理のKMSキーで暗号化する場合の例（キーの月額料金とAPIリクエストの料金がかかる）:
+    //   encryption: { pendingWindowDays: 30 },
+    // データベースを使用する場合の例（Blue/Greenデプロイの環境では、CloudFormationから
+    // タスク定義を更新できないため、既存のサービスに後から追加する場合はサービスの再作成が必要）:
+    //   database: {
+    //     engine: { type: "rdsPostgres", instanceType: "t4g.small", allocatedStorageGiB: 20, multiAz: true },
+    //     databaseName: "labinfra",
+    //     backupRetentionDays: 30,
+    //     preferredBackupWindow: "17:00-18:00",
+    //     deletionProtection: true,
+    //     containerName: appContainer.name,
+    //   },
+    pipeline: {
+      source: { provider: "s3", bucketKey: "source.zip" },
+      imageBuild: {
+        repositoryName: "lab-infra-app",
+        dockerfileDirectory: "app",
+        containerName: appContainer.name,
+        // ロールバックに備えて多めに保持
+        maxImageCount: 30,
+      },
+      approval: { approverEmails: [] },
+      // 確認に失敗した場合は直前のタスク定義に自動で戻す
+      smokeTest: {
+        path: "/",
+        expectedStatus: 200,
+        attempts: 6,
+        rollbackOnFailure: true,
+      },
+      // 本番はリリースの開始から結果までをチャットでも共有する
+      notifications: {
+        events: ["started", "succeeded", "failed", "approvalNeeded"],
+        emails: [],
+        chatWebhook: {
+          format: "slack",
+          secretName: "lab-infra/pipeline-chat-webhook",
+        },
+      },
+    },
+    // 本番はスケーリングのしきい値（CPU 60%、メモリ 75%）を超えても収まらない場合に通知
+    monitoring: {
+      alarmEmails: [],
+      alarmWebhook: { secretName: "lab-infra/alarm-webhook" },
+      cpuAlarmThreshold: 80,
+      memoryAlarmThreshold: 85,
+    },
+  },
+};
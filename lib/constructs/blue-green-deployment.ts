@@ -0,0 +1,161 @@
+import * as cdk from "aws-cdk-lib";
+import * as cloudwatch from "aws-cdk-lib/aws-cloudwatch";
+import * as codedeploy from "aws-cdk-lib/aws-codedeploy";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import { Construct } from "constructs";
+import {
+  BlueGreenDeploymentConfig,
+  TrafficShiftingConfig,
+} from "../config/environment-config";
+
+/**
+ * BlueGreenDeploymentのプロパティ
+ */
+export interface BlueGreenDeploymentProps {
+  // CODE_DEPLOYデプロイメントコントローラーで作成したサービス
+  readonly service: ecs.FargateService;
+  readonly config: BlueGreenDeploymentConfig;
+  readonly vpc: ec2.IVpc;
+  readonly loadBalancer: elbv2.ApplicationLoadBalancer;
+  // 本番トラフィックを受けるリスナーと、現在サービスが登録されているターゲットグループ
+  readonly productionListener: elbv2.ApplicationListener;
+  readonly blueTargetGroup: elbv2.ApplicationTargetGroup;
+  // green側ターゲットグループのヘルスチェック（blue側と同じ設定にする）
+  readonly healthCheck: elbv2.HealthCheck;
+  readonly applicationName: string;
+  readonly deploymentGroupName: string;
+}
+
+/**
+ * CodeDeployによるBlue/Greenデプロイ
+ *
+ * 新しいタスクセット（green）を別のターゲットグループで起動し、
+ * テスト用リスナーで確認した後、本番リスナーのトラフィックを切り替えます。
+ * 切り替え中にCloudWatchアラームが発火した場合は自動でロールバックします。
+ */
+export class BlueGreenDeployment extends Construct {
+  public readonly deploymentGroup: codedeploy.EcsDeploymentGroup;
+  // デプロイのたびにblue側と本番を入れ替えるため、監視などで両方を参照できるよう公開
+  public readonly greenTargetGroup: elbv2.ApplicationTargetGroup;
+
+  constructor(scope: Construct, id: string, props: BlueGreenDeploymentProps) {
+    super(scope, id);
+
+    const { config } = props;
+
+    // green側のターゲットグループ（blue側と同じ設定）
+    this.greenTargetGroup = new elbv2.ApplicationTargetGroup(
+      this,
+      "GreenTargetGroup",
+      {
+        targetGroupName: "lab-infra-tg-green",
+        vpc: props.vpc,
+        port: 80,
+        protocol: elbv2.ApplicationProtocol.HTTP,
+        targetType: elbv2.TargetType.IP,
+        healthCheck: props.healthCheck,
+        deregistrationDelay: cdk.Duration.seconds(30),
+      }
+    );
+
+    // テスト用リスナー
+    // デプロイ中は新しいタスクセットに接続され、切り替え前の動作確認に使用する
+    // VPC内（パイプラインのテストや踏み台）からのアクセスのみ許可
+    const testListener = props.loadBalancer.addListener("TestListener", {
+      port: config.testListenerPort,
+      protocol: elbv2.ApplicationProtocol.HTTP,
+      defaultTargetGroups: [this.greenTargetGroup],
+      open: false,
+    });
+    props.loadBalancer.connections.allowFrom(
+      ec2.Peer.ipv4(props.vpc.vpcCidrBlock),
+      ec2.Port.tcp(config.testListenerPort),
+      "Test listener traffic from VPC"
+    );
+
+    // 自動ロールバック用のアラーム
+    // blue/green両方のターゲットグループを監視し、どちらが本番になっていても検知できるようにする
+    const targetGroups: Record<string, elbv2.ApplicationTargetGroup> = {
+      Blue: props.blueTargetGroup,
+      Green: this.greenTargetGroup,
+    };
+    // TypeScript: flatMapで「ターゲットグループごとに2つのアラーム」を1つの配列にまとめる
+    const alarms = Object.entries(targetGroups).flatMap(([name, group]) => {
+      return [
+        new cloudwatch.Alarm(this, `${name}Target5xxAlarm`, {
+          alarmDescription: `${name}ターゲットグループで5xxエラーが発生`,
+          metric: group.metrics.httpCodeTarget(
+            elbv2.HttpCodeTarget.TARGET_5XX_COUNT,
+            { period: cdk.Duration.minutes(1), statistic: "Sum" }
+          ),
+          threshold: 5,
+          evaluationPeriods: 2,
+          treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+        }),
+        new cloudwatch.Alarm(this, `${name}UnhealthyHostAlarm`, {
+          alarmDescription: `${name}ターゲットグループに異常なタスクが存在`,
+          metric: group.metrics.unhealthyHostCount({
+            period: cdk.Duration.minutes(1),
+            statistic: "Maximum",
+          }),
+          threshold: 1,
+          evaluationPeriods: 2,
+          treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+        }),
+      ];
+    });
+
+    const application = new codedeploy.EcsApplication(this, "Application", {
+      applicationName: props.applicationName,
+    });
+
+    this.deploymentGroup = new codedeploy.EcsDeploymentGroup(
+      this,
+      "DeploymentGroup",
+      {
+        application,
+        deploymentGroupName: props.deploymentGroupName,
+        service: props.service,
+        deploymentConfig: this.createDeploymentConfig(config.trafficShifting),
+        blueGreenDeploymentConfig: {
+          blueTargetGroup: props.blueTargetGroup,
+          greenTargetGroup: this.greenTargetGroup,
+          listener: props.productionListener,
+          testListener,
+          terminationWaitTime: cdk.Duration.minutes(
+            config.terminationWaitMinutes
+          ),
+        },
+        alarms,
+        autoRollback: {
+          failedDeployment: true, // デプロイ失敗時
+          stoppedDeployment: true, // デプロイを手動で停止した時
+          deploymentInAlarm: true, // アラーム発火時
+        },
+      }
+    );
+  }
+
+  // トラフィック切り替え方式の設定からデプロイ設定を作成
+  private createDeploymentConfig(
+    trafficShifting: TrafficShiftingConfig
+  ): codedeploy.IEcsDeploymentConfig {
+    if (trafficShifting.type === "allAtOnce") {
+      return codedeploy.EcsDeploymentConfig.ALL_AT_ONCE;
+    }
+
+    const routingProps = {
+      percentage: trafficShifting.percentage,
+      interval: cdk.Duration.minutes(trafficShifting.intervalMinutes),
+    };
+
+    return new codedeploy.EcsDeploymentConfig(this, "DeploymentConfig", {
+      trafficRouting:
+        trafficShifting.type === "linear"
+          ? codedeploy.TrafficRouting.timeBasedLinear(routingProps)
+          : codedeploy.TrafficRouting.timeBasedCanary(routingProps),
+    });
+  }
+}
@@ -0,0 +1,350 @@
+import * as cdk from "aws-cdk-lib";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as ecr from "aws-cdk-lib/aws-ecr";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
+import * as servicediscovery from "aws-cdk-lib/aws-servicediscovery";
+import * as ssm from "aws-cdk-lib/aws-ssm";
+import { Construct } from "constructs";
+import {
+  ContainerDependencyCondition,
+  ContainerSecretSpec,
+  ContainerSpec,
+  ServiceDiscoverySpec,
+  ServiceSpec,
+} from "../config/environment-config";
+
+/**
+ * ContainerServiceのプロパティ
+ */
+export interface ContainerServiceProps {
+  readonly spec: ServiceSpec;
+  readonly cluster: ecs.ICluster;
+  readonly vpc: ec2.IVpc;
+  // 全てのサービスで共有するタスク実行ロールとロググループ
+  readonly executionRole: iam.IRole;
+  readonly logGroup: logs.ILogGroup;
+  // 名前付きのリソース（パイプラインの実行ロールはLabInfra*のIAMロールのみ作成できる）
+  readonly taskRoleName: string;
+  readonly securityGroupName: string;
+  // ログストリーム名の先頭（[プレフィックス]/[コンテナ名]/[タスクID]）
+  readonly logStreamPrefix: string;
+  // 全てのコンテナに設定する環境変数（ENVIRONMENTなど）
+  readonly environment: Record<string, string>;
+  // スタックで作成したシークレット（secretName をキーにする）
+  // ここにない名前のシークレットは既存のものとして名前で参照する
+  readonly managedSecrets?: Record<string, secretsmanager.ISecret>;
+  readonly vpcSubnets: ec2.SubnetSelection;
+  readonly assignPublicIp: boolean;
+  // 未指定の場合はECSのローリングアップデート
+  readonly deploymentController?: ecs.DeploymentController;
+  // 未指定の場合はサーキットブレーカーなし（ECSのローリングアップデートの場合のみ指定可能）
+  readonly circuitBreaker?: ecs.DeploymentCircuitBreaker;
+  // ECS Execを有効化（クラスターの executeCommandConfiguration の設定が必要）
+  readonly enableExecuteCommand?: boolean;
+  // コンテナ名ごとに spec の image の代わりに使用するイメージ（パイプラインでビルドしたイメージなど）
+  readonly images?: Record<string, ecs.ContainerImage>;
+}
+
+// 設定の条件名と、ECSのコンテナの起動順序の条件の対応
+const DEPENDENCY_CONDITIONS: Record<
+  ContainerDependencyCondition,
+  ecs.ContainerDependencyCondition
+> = {
+  start: ecs.ContainerDependencyCondition.START,
+  complete: ecs.ContainerDependencyCondition.COMPLETE,
+  success: ecs.ContainerDependencyCondition.SUCCESS,
+  healthy: ecs.ContainerDependencyCondition.HEALTHY,
+};
+
+/**
+ * サービスの定義から作成するFargateサービス
+ *
+ * 以下を作成します：
+ * - タスクロール: コンテナ内のアプリケーションが他のAWSサービスにアクセスする際に使用
+ * - タスク定義: アプリケーションとサイドカー（ログルーター、プロキシなど）のコンテナ
+ * - セキュリティグループ: インバウンドのルールは呼び出し側で追加する（ALBからの許可など）
+ * - Fargateサービス
+ *
+ * - サービスディスカバリー: クラスターの名前空間への登録（spec.discovery がある場合）
+ *
+ * ALBへの登録、Auto Scaling、監視などは呼び出し側で service に対して設定する
+ */
+export class ContainerService extends Construct {
+  public readonly service: ecs.FargateService;
+  public readonly taskDefinition: ecs.FargateTaskDefinition;
+  public readonly securityGroup: ec2.SecurityGroup;
+  // TypeScript: コンテナ名をキーにしたオブジェクト
+  public readonly containers: Record<string, ecs.ContainerDefinition> = {};
+  // 名前空間に名前を登録した場合の、他のサービスから呼び出すポート
+  public readonly discoveryPort?: number;
+
+  constructor(scope: Construct, id: string, props: ContainerServiceProps) {
+    super(scope, id);
+
+    const { spec } = props;
+
+    const taskRole = new iam.Role(this, "LabInfraTaskRole", {
+      roleName: props.taskRoleName,
+      assumedBy: new iam.ServicePrincipal("ecs-tasks.amazonaws.com"),
+      description: "ECS Fargate タスク内のアプリケーション用のIAMロール",
+    });
+
+    this.taskDefinition = new ecs.FargateTaskDefinition(
+      this,
+      "LabInfraTaskDefinition",
+      {
+        family: spec.family,
+        // CPUとメモリの組み合わせは環境設定の読み込み時に検証済み
+        cpu: spec.cpu,
+        memoryLimitMiB: spec.memoryLimitMiB,
+        executionRole: props.executionRole, // タスク実行用（ECSサービスが使用）
+        taskRole: taskRole, // アプリケーション用（コンテナ内から使用）
+      }
+    );
+
+    // 全てのコンテナを追加してから起動順序を設定する（後ろのコンテナへの依存も書けるように）
+    spec.containers.forEach((containerSpec) => {
+      this.containers[containerSpec.name] = this.addContainer(
+        containerSpec,
+        props
+      );
+    });
+    spec.containers.forEach((containerSpec) => {
+      (containerSpec.dependsOn ?? []).forEach((dependency) => {
+        this.containers[containerSpec.name].addContainerDependencies({
+          container: this.containers[dependency.containerName],
+          condition: DEPENDENCY_CONDITIONS[dependency.condition],
+        });
+      });
+    });
+
+    // FireLensでCloudWatch Logsに送る場合の書き込み権限（ログルーターはタスクロールを使用）
+    if (spec.containers.some((containerSpec) => containerSpec.logRouter)) {
+      props.logGroup.grantWrite(taskRole);
+    }
+
+    this.securityGroup = new ec2.SecurityGroup(this, "LabInfraSecurityGroup", {
+      securityGroupName: props.securityGroupName,
+      vpc: props.vpc,
+      description: "Lab Infra Fargate サービス用のセキュリティグループ",
+      allowAllOutbound: true,
+    });
+
+    this.service = new ecs.FargateService(this, "LabInfraService", {
+      serviceName: spec.serviceName,
+      cluster: props.cluster,
+      taskDefinition: this.taskDefinition,
+      desiredCount: spec.desiredCount,
+      vpcSubnets: props.vpcSubnets,
+      securityGroups: [this.securityGroup],
+      assignPublicIp: props.assignPublicIp,
+      platformVersion: ecs.FargatePlatformVersion.LATEST,
+      deploymentController: props.deploymentController,
+      circuitBreaker: props.circuitBreaker,
+      // タスクロールへの権限（ssmmessages など）はCDKが追加する
+      enableExecuteCommand: props.enableExecuteCommand,
+      // 未指定の場合は起動タイプ FARGATE（全てオンデマンド）
+      capacityProviderStrategies: spec.capacity && [
+        {
+          capacityProvider: "FARGATE",
+          base: spec.capacity.onDemandBase,
+          weight: spec.capacity.onDemandWeight,
+        },
+        {
+          capacityProvider: "FARGATE_SPOT",
+          weight: spec.capacity.spotWeight,
+        },
+      ],
+
+      // ローリングアップデート時の設定
+      maxHealthyPercent: 200, // 更新中に実行可能なタスクの最大割合
+      minHealthyPercent: 50, // 更新中に実行必須なタスクの最小割合
+
+      // サービス開始後、ヘルスチェックを開始するまでの待機時間
+      healthCheckGracePeriod: cdk.Duration.seconds(
+        spec.healthCheckGracePeriodSeconds ?? 60
+      ),
+    });
+
+    // クラスターの名前空間への登録（名前空間はクラスターの作成時に設定済み）
+    if (spec.discovery) {
+      this.discoveryPort = this.enableDiscovery(spec.discovery, spec);
+    }
+  }
+
+  // サービスを名前空間に登録し、公開するポートを返す
+  private enableDiscovery(
+    discovery: ServiceDiscoverySpec,
+    spec: ServiceSpec
+  ): number | undefined {
+    const { name } = discovery;
+    const portMappingName = discovery.portMappingName ?? "http";
+    const port = spec.containers
+      .flatMap((containerSpec) => containerSpec.portMappings ?? [])
+      .find((mapping) => mapping.name === portMappingName)?.containerPort;
+
+    if (discovery.mode === "cloudMap") {
+      // タスクのIPアドレスをAレコードで登録（停止したタスクは登録が解除される）
+      // タスクの入れ替えがすぐに反映されるよう、TTLは短くする
+      this.service.enableCloudMap({
+        name,
+        dnsRecordType: servicediscovery.DnsRecordType.A,
+        dnsTtl: cdk.Duration.seconds(10),
+      });
+    } else {
+      // 名前を指定しない場合は、他のサービスを呼び出すクライアントとしてのみ参加する
+      this.service.enableServiceConnect({
+        services:
+          name !== undefined && port !== undefined
+            ? [{ portMappingName, discoveryName: name, port }]
+            : undefined,
+      });
+    }
+
+    return name !== undefined ? port : undefined;
+  }
+
+  // コンテナの定義をタスク定義に追加
+  private addContainer(
+    containerSpec: ContainerSpec,
+    props: ContainerServiceProps
+  ): ecs.ContainerDefinition {
+    // コンテナが1つだけでメモリの指定がない場合は、タスクのメモリ全体を上限にする
+    const { containers } = props.spec;
+    const memoryLimitMiB =
+      containers.length === 1 &&
+      containerSpec.memoryLimitMiB === undefined &&
+      containerSpec.memoryReservationMiB === undefined
+        ? props.spec.memoryLimitMiB
+        : containerSpec.memoryLimitMiB;
+
+    const options: ecs.ContainerDefinitionOptions = {
+      containerName: containerSpec.name,
+      image:
+        props.images?.[containerSpec.name] ??
+        this.containerImage(containerSpec),
+      essential: containerSpec.essential ?? true,
+      cpu: containerSpec.cpu,
+      memoryLimitMiB,
+      memoryReservationMiB: containerSpec.memoryReservationMiB,
+      portMappings: containerSpec.portMappings?.map((mapping) => ({
+        containerPort: mapping.containerPort,
+        protocol: ecs.Protocol.TCP,
+        name: mapping.name,
+      })),
+      // TypeScript: スプレッド構文でオブジェクトを結合（同じキーは後の値で上書き）
+      environment: { ...containerSpec.environment, ...props.environment },
+      // 参照先の読み取り権限はCDKがタスク実行ロールに付与する
+      secrets: this.containerSecrets(containerSpec, props),
+      healthCheck: containerSpec.healthCheck && {
+        command: containerSpec.healthCheck.command,
+        interval: optionalSeconds(containerSpec.healthCheck.intervalSeconds),
+        timeout: optionalSeconds(containerSpec.healthCheck.timeoutSeconds),
+        retries: containerSpec.healthCheck.retries,
+        startPeriod: optionalSeconds(
+          containerSpec.healthCheck.startPeriodSeconds
+        ),
+      },
+      logging: containerSpec.firelensOptions
+        ? ecs.LogDrivers.firelens({ options: containerSpec.firelensOptions })
+        : ecs.LogDrivers.awsLogs({
+            streamPrefix: props.logStreamPrefix,
+            logGroup: props.logGroup,
+          }),
+    };
+
+    if (containerSpec.logRouter) {
+      return this.taskDefinition.addFirelensLogRouter(containerSpec.name, {
+        ...options,
+        firelensConfig: {
+          type:
+            containerSpec.logRouter === "fluentbit"
+              ? ecs.FirelensLogRouterType.FLUENTBIT
+              : ecs.FirelensLogRouterType.FLUENTD,
+        },
+      });
+    }
+    return this.taskDefinition.addContainer(containerSpec.name, options);
+  }
+
+  // 秘密情報の参照先を、環境変数名をキーにしたECSのシークレットに変換
+  private containerSecrets(
+    containerSpec: ContainerSpec,
+    props: ContainerServiceProps
+  ): Record<string, ecs.Secret> | undefined {
+    if (!containerSpec.secrets) {
+      return undefined;
+    }
+
+    const secrets: Record<string, ecs.Secret> = {};
+    Object.entries(containerSpec.secrets).forEach(([name, secretSpec]) => {
+      secrets[name] = this.toEcsSecret(
+        `${containerSpec.name}${name}`,
+        secretSpec,
+        props
+      );
+    });
+    return secrets;
+  }
+
+  private toEcsSecret(
+    id: string,
+    secretSpec: ContainerSecretSpec,
+    props: ContainerServiceProps
+  ): ecs.Secret {
+    if (secretSpec.source === "ssmParameter") {
+      // String / SecureString のどちらも参照できる（AWSマネージドキーで暗号化した場合）
+      const parameter = ssm.StringParameter.fromSecureStringParameterAttributes(
+        this,
+        `${id}Parameter`,
+        { parameterName: secretSpec.parameterName }
+      );
+      return ecs.Secret.fromSsmParameter(parameter);
+    }
+
+    // 名前で参照したシークレットの権限は、ARNの末尾のランダムな6文字をワイルドカードにして付与される
+    const secret =
+      props.managedSecrets?.[secretSpec.secretName] ??
+      secretsmanager.Secret.fromSecretNameV2(
+        this,
+        `${id}Secret`,
+        secretSpec.secretName
+      );
+    return ecs.Secret.fromSecretsManager(secret, secretSpec.jsonKey);
+  }
+
+  // ECRのイメージはリポジトリとして参照し、タスク実行ロールにプルの権限を付与する
+  // （他のアカウントのリポジトリも可。それ以外のレジストリはイメージ名のまま）
+  private containerImage(containerSpec: ContainerSpec): ecs.ContainerImage {
+    const match = ECR_IMAGE_PATTERN.exec(containerSpec.image);
+    if (!match) {
+      return ecs.ContainerImage.fromRegistry(containerSpec.image);
+    }
+
+    // TypeScript: 配列の分割代入で、先頭（一致した文字列全体）を読み飛ばす
+    const [, account, region, repositoryName, tagOrDigest] = match;
+    const repository = ecr.Repository.fromRepositoryAttributes(
+      this,
+      `${containerSpec.name}Repository`,
+      {
+        repositoryName,
+        repositoryArn: `arn:${cdk.Aws.PARTITION}:ecr:${region}:${account}:repository/${repositoryName}`,
+      }
+    );
+    return ecs.ContainerImage.fromEcrRepository(repository, tagOrDigest);
+  }
+}
+
+// 例: 123456789012.dkr.ecr.ap-northeast-1.amazonaws.com/lab-infra-api:1.0.0
+//     （タグの代わりに @sha256:... のダイジェストも可）
+const ECR_IMAGE_PATTERN =
+  /^(\d{12})\.dkr\.ecr\.([a-z0-9-]+)\.amazonaws\.com\/([^:@]+)[:@](.+)$/;
+
+function optionalSeconds(
+  seconds: number | undefined
+): cdk.Duration | undefined {
+  return seconds === undefined ? undefined : cdk.Duration.seconds(seconds);
+}
@@ -0,0 +1,93 @@
+import * as cdk from "aws-cdk-lib";
+import * as cloudwatch from "aws-cdk-lib/aws-cloudwatch";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as events from "aws-cdk-lib/aws-events";
+import * as targets from "aws-cdk-lib/aws-events-targets";
+import * as kms from "aws-cdk-lib/aws-kms";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as sns from "aws-cdk-lib/aws-sns";
+import { Construct } from "constructs";
+
+/**
+ * DeploymentFailureLogのプロパティ
+ */
+export interface DeploymentFailureLogProps {
+  // サーキットブレーカーやデプロイのアラームを設定したサービス
+  readonly services: ecs.IBaseService[];
+  readonly logRetention: logs.RetentionDays;
+  readonly removalPolicy: cdk.RemovalPolicy;
+  // ロググループの暗号化に使用するKMSキー（未指定の場合はCloudWatch Logsの既定の暗号化）
+  readonly encryptionKey?: kms.IKey;
+}
+
+/**
+ * ECSのデプロイの失敗の記録
+ *
+ * サーキットブレーカーやデプロイのアラームでデプロイが失敗したイベント
+ * （ECS Deployment State Change の SERVICE_DEPLOYMENT_FAILED）を
+ * EventBridgeでCloudWatch Logsに保存し、メトリクスフィルターで件数をメトリクスにします。
+ * イベントの reason には失敗の理由と、自動でロールバックした場合はロールバック先のデプロイが含まれます。
+ * 通知する場合は notify で SNSトピックをターゲットに追加します。
+ */
+export class DeploymentFailureLog extends Construct {
+  public readonly logGroup: logs.LogGroup;
+  // 失敗したデプロイの数（LabInfra / DeploymentFailures、1分ごとの合計）
+  public readonly metric: cloudwatch.Metric;
+  private readonly rule: events.Rule;
+
+  constructor(scope: Construct, id: string, props: DeploymentFailureLogProps) {
+    super(scope, id);
+
+    // EventBridgeから書き込むロググループは /aws/events/ で始める
+    this.logGroup = new logs.LogGroup(this, "LogGroup", {
+      logGroupName: "/aws/events/lab-infra-deployment-failures",
+      encryptionKey: props.encryptionKey,
+      retention: props.logRetention,
+      removalPolicy: props.removalPolicy,
+    });
+
+    this.rule = new events.Rule(this, "Rule", {
+      ruleName: "lab-infra-deployment-failures",
+      description: "ECSサービスのデプロイの失敗をCloudWatch Logsに記録",
+      eventPattern: {
+        source: ["aws.ecs"],
+        detailType: ["ECS Deployment State Change"],
+        // デプロイのイベントはサービスのARNを resources に含む
+        resources: props.services.map((service) => service.serviceArn),
+        detail: {
+          eventName: ["SERVICE_DEPLOYMENT_FAILED"],
+        },
+      },
+      // ロググループへの書き込みを許可するリソースポリシーはCDKが追加する
+      targets: [new targets.CloudWatchLogGroup(this.logGroup)],
+    });
+
+    this.metric = new logs.MetricFilter(this, "MetricFilter", {
+      logGroup: this.logGroup,
+      filterPattern: logs.FilterPattern.allEvents(),
+      metricNamespace: "LabInfra",
+      metricName: "DeploymentFailures",
+      metricValue: "1",
+      defaultValue: 0,
+    }).metric({ statistic: "Sum", period: cdk.Duration.minutes(1) });
+  }
+
+  // デプロイの失敗をSNSトピックに通知（メール・Webhookで読める形式のメッセージ）
+  public notify(topic: sns.ITopic): void {
+    this.rule.addTarget(
+      new targets.SnsTopic(topic, {
+        message: events.RuleTargetInput.fromText(
+          [
+            `ECSサービスのデプロイが失敗しました: ${events.EventField.fromPath(
+              "$.resources[0]"
+            )}`,
+            `理由: ${events.EventField.fromPath("$.detail.reason")}`,
+            `デプロイID: ${events.EventField.fromPath(
+              "$.detail.deploymentId"
+            )}`,
+          ].join("\n")
+        ),
+      })
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import * as cdk from "aws-cdk-lib";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as kms from "aws-cdk-lib/aws-kms";
+import { Construct } from "constructs";
+
+/**
+ * EncryptionKeyのプロパティ
+ */
+export interface EncryptionKeyProps {
+  // 例: "alias/lab-infra-service"
+  readonly alias: string;
+  readonly description: string;
+  readonly removalPolicy: cdk.RemovalPolicy;
+  // キーの削除を予約してから削除されるまでの日数（未指定の場合は30日）
+  readonly pendingWindowDays?: number;
+  // CloudWatch Logsのロググループの暗号化に使用する場合は true
+  readonly allowCloudWatchLogs?: boolean;
+}
+
+/**
+ * カスタマー管理のKMSキー
+ *
+ * キーの自動ローテーション（1年ごと）を有効にしたKMSキーです。
+ * キーポリシーはアカウント（IAMポリシーで許可したプリンシパル）と、
+ * 指定した場合はこのリージョンのCloudWatch Logsのロググループからの使用のみを許可します。
+ * S3バケットなどの使用の許可は、各リソースの grant でIAMポリシーとして追加されます。
+ */
+// TypeScript: extends でL2コンストラクトを継承（論理IDは kms.Key を直接作成した場合と同じ）
+export class EncryptionKey extends kms.Key {
+  constructor(scope: Construct, id: string, props: EncryptionKeyProps) {
+    super(scope, id, {
+      alias: props.alias,
+      description: props.description,
+      enableKeyRotation: true,
+      pendingWindow:
+        props.pendingWindowDays !== undefined
+          ? cdk.Duration.days(props.pendingWindowDays)
+          : undefined,
+      removalPolicy: props.removalPolicy,
+    });
+
+    if (props.allowCloudWatchLogs) {
+      // CloudWatch Logsはロググループの暗号化コンテキスト（ロググループのARN）を指定してキーを使用する
+      const { region, account } = cdk.Stack.of(this);
+      this.addToResourcePolicy(
+        new iam.PolicyStatement({
+          principals: [
+            new iam.ServicePrincipal(`logs.${region}.amazonaws.com`),
+          ],
+          actions: [
+            "kms:Encrypt*",
+            "kms:Decrypt*",
+            "kms:ReEncrypt*",
+            "kms:GenerateDataKey*",
+            "kms:Describe*",
+          ],
+          resources: ["*"],
+          conditions: {
+            ArnLike: {
+              "kms:EncryptionContext:aws:logs:arn": `arn:${cdk.Aws.PARTITION}:logs:${region}:${account}:log-group:*`,
+            },
+          },
+        })
+      );
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import * as cdk from "aws-cdk-lib";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as kms from "aws-cdk-lib/aws-kms";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as s3 from "aws-cdk-lib/aws-s3";
+import { Construct } from "constructs";
+import { ExecCommandConfig } from "../config/environment-config";
+import { EncryptionKey } from "./encryption-key";
+
+/**
+ * ExecCommandAuditのプロパティ
+ */
+export interface ExecCommandAuditProps {
+  readonly config: ExecCommandConfig;
+  readonly logRetention: logs.RetentionDays;
+  readonly removalPolicy: cdk.RemovalPolicy;
+  // カスタマー管理のKMSキー（未指定の場合はECS Exec専用のキーを作成し、S3バケットはSSE-S3）
+  // キーポリシーでCloudWatch Logsにキーの使用を許可しておく
+  readonly encryptionKey?: kms.IKey;
+}
+
+/**
+ * ECS Execのセッションの暗号化と記録
+ *
+ * 以下を作成し、クラスターの executeCommandConfiguration に指定する設定を作成します：
+ * - KMSキー: セッションのデータとロググループの暗号化（encryptionKey を指定した場合は作成しない）
+ * - ロググループ・S3バケット: セッションの入出力の保存先（設定した方のみ）
+ *
+ * タスクロールへの権限（ssmmessages、ログの書き込み、KMSキーの使用）は、
+ * サービスで enableExecuteCommand を有効にした時にCDKが追加する
+ */
+export class ExecCommandAudit extends Construct {
+  public readonly key: kms.IKey;
+  public readonly configuration: ecs.ExecuteCommandConfiguration;
+
+  constructor(scope: Construct, id: string, props: ExecCommandAuditProps) {
+    super(scope, id);
+
+    const { logDestinations } = props.config;
+
+    // 暗号化のキーが指定された場合はそのキーを使用し、専用のキーは作成しない
+    this.key =
+      props.encryptionKey ??
+      new EncryptionKey(this, "Key", {
+        alias: "alias/lab-infra-exec-command",
+        description: "Lab Infra ECS Exec のセッションとログの暗号化",
+        removalPolicy: props.removalPolicy,
+        // ロググループの暗号化に使用するため、CloudWatch Logsにキーの使用を許可
+        allowCloudWatchLogs: logDestinations.includes("cloudWatchLogs"),
+      });
+
+    let logGroup: logs.LogGroup | undefined;
+    if (logDestinations.includes("cloudWatchLogs")) {
+      logGroup = new logs.LogGroup(this, "LogGroup", {
+        logGroupName: "/aws/ecs/lab-infra-exec-command",
+        encryptionKey: this.key,
+        retention: props.logRetention,
+        removalPolicy: props.removalPolicy,
+      });
+    }
+
+    let bucket: s3.Bucket | undefined;
+    if (logDestinations.includes("s3")) {
+      bucket = new s3.Bucket(this, "LogBucket", {
+        bucketName: `lab-infra-exec-command-logs-${cdk.Aws.ACCOUNT_ID}-${cdk.Aws.REGION}`,
+        encryption: props.encryptionKey
+          ? s3.BucketEncryption.KMS
+          : s3.BucketEncryption.S3_MANAGED,
+        encryptionKey: props.encryptionKey,
+        bucketKeyEnabled: props.encryptionKey !== undefined,
+        blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+        enforceSSL: true,
+        removalPolicy: props.removalPolicy,
+        // autoDeleteObjectsはRemovalPolicy.DESTROYの場合のみ指定可能
+        autoDeleteObjects: props.removalPolicy === cdk.RemovalPolicy.DESTROY,
+        lifecycleRules: [
+          {
+            id: "DeleteOldLogs",
+            enabled: true,
+            expiration: cdk.Duration.days(90),
+          },
+        ],
+      });
+    }
+
+    this.configuration = {
+      kmsKey: this.key,
+      // OVERRIDE: 下の logConfiguration の保存先に記録する
+      logging: ecs.ExecuteCommandLogging.OVERRIDE,
+      logConfiguration: {
+        cloudWatchLogGroup: logGroup,
+        cloudWatchEncryptionEnabled: logGroup !== undefined,
+        s3Bucket: bucket,
+        s3EncryptionEnabled: bucket !== undefined,
+        s3KeyPrefix: bucket && "exec-command",
+      },
+    };
+  }
+}
@@ -0,0 +1,156 @@
+import * as cdk from "aws-cdk-lib";
+import * as iam from "aws-cdk-lib/aws-iam";
+import { Construct } from "constructs";
+import { suppressPolicyRule } from "../aspects/policy-checker";
+
+/**
+ * このプロジェクトのIAMロールに設定する権限の境界（管理ポリシー）の名前
+ */
+export const PERMISSIONS_BOUNDARY_NAME = "LabInfraPermissionsBoundary";
+
+/**
+ * PermissionsBoundaryPolicyのプロパティ
+ */
+export interface PermissionsBoundaryPolicyProps {
+  // ロールに許可できるサービスのアクションのプレフィックス（例: "ecs"）
+  // IAMとSTSはここでは指定せず、このプロジェクトのロールに限定して許可する
+  readonly servicePrefixes: readonly string[];
+}
+
+/**
+ * このプロジェクトのIAMロールの権限の境界
+ *
+ * ロールの権限は、ロールのポリシーとこの境界の両方で許可されたものに限られます。
+ * パイプラインの実行ロールはこの境界を設定したロールのみを作成・変更できるため、
+ * テンプレートのロールに AdministratorAccess などを付けても、境界を超える権限にはなりません。
+ *
+ * - 許可: servicePrefixes のサービス、このプロジェクトのロール（LabInfra*）の管理と引き渡し、
+ *         cdk bootstrap のロール（ルックアップ・アセットの公開）の引き受け
+ * - 拒否: 境界を設定しないロールの作成・変更、境界の解除、この管理ポリシー自体の変更
+ *
+ * IAMユーザーの作成や、他のロール（cdk bootstrap のデプロイ用のロールなど）の引き受けは許可しない
+ */
+// TypeScript: extends でL2コンストラクトを継承（EncryptionKeyと同じ）
+export class PermissionsBoundaryPolicy extends iam.ManagedPolicy {
+  constructor(
+    scope: Construct,
+    id: string,
+    props: PermissionsBoundaryPolicyProps
+  ) {
+    // 自身のARNはトークンで参照すると循環するため、名前から組み立てる
+    const boundaryArn = permissionsBoundaryArn();
+
+    super(scope, id, {
+      managedPolicyName: PERMISSIONS_BOUNDARY_NAME,
+      description: "Lab Infra のIAMロールの権限の境界",
+      statements: [
+        new iam.PolicyStatement({
+          sid: "AllowProjectServices",
+          actions: props.servicePrefixes.map((prefix) => `${prefix}:*`),
+          resources: ["*"],
+        }),
+        new iam.PolicyStatement({
+          sid: "AllowProjectRoles",
+          actions: [
+            "iam:Get*",
+            "iam:List*",
+            "iam:CreateRole",
+            "iam:DeleteRole",
+            "iam:UpdateRole",
+            "iam:UpdateAssumeRolePolicy",
+            "iam:TagRole",
+            "iam:UntagRole",
+            "iam:PutRolePolicy",
+            "iam:DeleteRolePolicy",
+            "iam:AttachRolePolicy",
+            "iam:DetachRolePolicy",
+            "iam:PutRolePermissionsBoundary",
+            "iam:PassRole",
+            "iam:CreateInstanceProfile",
+            "iam:DeleteInstanceProfile",
+            "iam:AddRoleToInstanceProfile",
+            "iam:RemoveRoleFromInstanceProfile",
+            "iam:TagInstanceProfile",
+            "iam:UntagInstanceProfile",
+            "sts:AssumeRole",
+          ],
+          resources: [
+            `arn:${cdk.Aws.PARTITION}:iam::${cdk.Aws.ACCOUNT_ID}:role/LabInfra*`,
+            `arn:${cdk.Aws.PARTITION}:iam::${cdk.Aws.ACCOUNT_ID}:instance-profile/LabInfra*`,
+          ],
+        }),
+        new iam.PolicyStatement({
+          sid: "AllowCdkBootstrapRoles",
+          actions: ["sts:AssumeRole"],
+          resources: [
+            "lookup-role",
+            "file-publishing-role",
+            "image-publishing-role",
+          ].map(
+            (role) =>
+              `arn:${cdk.Aws.PARTITION}:iam::${cdk.Aws.ACCOUNT_ID}:role/cdk-*-${role}-${cdk.Aws.ACCOUNT_ID}-${cdk.Aws.REGION}`
+          ),
+        }),
+        new iam.PolicyStatement({
+          sid: "AllowServiceLinkedRolesAndCallerIdentity",
+          actions: ["iam:CreateServiceLinkedRole", "sts:GetCallerIdentity"],
+          resources: ["*"],
+        }),
+        new iam.PolicyStatement({
+          sid: "DenyRolesWithoutBoundary",
+          effect: iam.Effect.DENY,
+          actions: [
+            "iam:CreateRole",
+            "iam:PutRolePolicy",
+            "iam:AttachRolePolicy",
+            "iam:PutRolePermissionsBoundary",
+          ],
+          resources: ["*"],
+          conditions: {
+            StringNotEquals: { "iam:PermissionsBoundary": boundaryArn },
+          },
+        }),
+        new iam.PolicyStatement({
+          sid: "DenyBoundaryChanges",
+          effect: iam.Effect.DENY,
+          actions: [
+            "iam:DeleteRolePermissionsBoundary",
+            "iam:CreatePolicyVersion",
+            "iam:DeletePolicy",
+            "iam:DeletePolicyVersion",
+            "iam:SetDefaultPolicyVersion",
+          ],
+          resources: [boundaryArn, `arn:${cdk.Aws.PARTITION}:iam::*:role/*`],
+        }),
+      ],
+    });
+
+    suppressPolicyRule(
+      this,
+      "WildcardIam",
+      "権限の境界は権限の上限で、権限を付与するものではないため、サービス単位で指定する"
+    );
+  }
+}
+
+/**
+ * 権限の境界のARN
+ */
+export function permissionsBoundaryArn(): string {
+  return `arn:${cdk.Aws.PARTITION}:iam::${cdk.Aws.ACCOUNT_ID}:policy/${PERMISSIONS_BOUNDARY_NAME}`;
+}
+
+/**
+ * スタック内の全てのIAMロールに権限の境界を設定する
+ *
+ * 境界の管理ポリシーはPipelineStackで作成するため、PipelineStackより後にデプロイするスタックで使用する
+ */
+export function applyPermissionsBoundary(stack: cdk.Stack): void {
+  iam.PermissionsBoundary.of(stack).apply(
+    iam.ManagedPolicy.fromManagedPolicyName(
+      stack,
+      "LabInfraPermissionsBoundary",
+      PERMISSIONS_BOUNDARY_NAME
+    )
+  );
+}
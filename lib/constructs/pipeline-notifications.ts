@@ -0,0 +1,180 @@
+import * as cdk from "aws-cdk-lib";
+import * as codepipeline from "aws-cdk-lib/aws-codepipeline";
+import * as codestarnotifications from "aws-cdk-lib/aws-codestarnotifications";
+import * as lambda from "aws-cdk-lib/aws-lambda";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
+import * as sns from "aws-cdk-lib/aws-sns";
+import * as subscriptions from "aws-cdk-lib/aws-sns-subscriptions";
+import { Construct } from "constructs";
+import {
+  PipelineNotificationConfig,
+  PipelineNotificationEvent,
+} from "../config/environment-config";
+
+/**
+ * PipelineNotificationsのプロパティ
+ */
+export interface PipelineNotificationsProps {
+  readonly pipeline: codepipeline.Pipeline;
+  readonly config: PipelineNotificationConfig;
+  // チャット通知用Lambda関数のログの保持期間
+  readonly logRetention: logs.RetentionDays;
+}
+
+// 設定のイベント名と、CodeStar Notificationsのイベントの対応
+const NOTIFICATION_EVENTS: Record<
+  PipelineNotificationEvent,
+  codepipeline.PipelineNotificationEvents
+> = {
+  started: codepipeline.PipelineNotificationEvents.PIPELINE_EXECUTION_STARTED,
+  succeeded:
+    codepipeline.PipelineNotificationEvents.PIPELINE_EXECUTION_SUCCEEDED,
+  failed: codepipeline.PipelineNotificationEvents.PIPELINE_EXECUTION_FAILED,
+  approvalNeeded:
+    codepipeline.PipelineNotificationEvents.MANUAL_APPROVAL_NEEDED,
+};
+
+/**
+ * パイプラインの実行の通知
+ *
+ * CodeStar Notificationsの通知ルールで、パイプラインの実行の開始・成功・失敗と
+ * 承認待ちをSNSトピックに送ります。
+ * チャットへの通知を設定した場合は、トピックをサブスクライブするLambda関数が
+ * 通知の内容をSlack / Teamsのメッセージに整形してIncoming Webhookに送ります。
+ */
+export class PipelineNotifications extends Construct {
+  public readonly topic: sns.Topic;
+
+  constructor(scope: Construct, id: string, props: PipelineNotificationsProps) {
+    super(scope, id);
+
+    const { config } = props;
+
+    this.topic = new sns.Topic(this, "Topic", {
+      topicName: "lab-infra-pipeline-notifications",
+      displayName: "Lab Infra パイプライン通知",
+    });
+    config.emails.forEach((email) => {
+      this.topic.addSubscription(new subscriptions.EmailSubscription(email));
+    });
+
+    // トピックのアクセスポリシー（通知サービスからの発行の許可）はCDKが追加する
+    props.pipeline.notifyOn("NotificationRule", this.topic, {
+      notificationRuleName: "lab-infra-pipeline-notifications",
+      events: config.events.map((event) => NOTIFICATION_EVENTS[event]),
+      // 失敗したアクションの情報などを含める
+      detailType: codestarnotifications.DetailType.FULL,
+    });
+
+    const { chatWebhook } = config;
+    if (!chatWebhook) {
+      return;
+    }
+
+    // シークレットは事前に作成しておく（このスタックでは作成しない）
+    const webhookSecret = secretsmanager.Secret.fromSecretNameV2(
+      this,
+      "ChatWebhookSecret",
+      chatWebhook.secretName
+    );
+
+    const chatFunction = new lambda.Function(this, "ChatFunction", {
+      description: "パイプラインの通知をチャットのWebhookに送信",
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: "index.handler",
+      // 依存パッケージのない小さな関数のため、コードをテンプレートに直接埋め込む
+      code: lambda.Code.fromInline(CHAT_NOTIFICATION_HANDLER),
+      timeout: cdk.Duration.seconds(30),
+      logRetention: props.logRetention,
+      environment: {
+        SECRET_ID: chatWebhook.secretName,
+        CHAT_FORMAT: chatWebhook.format,
+      },
+    });
+
+    webhookSecret.grantRead(chatFunction);
+    this.topic.addSubscription(
+      new subscriptions.LambdaSubscription(chatFunction)
+    );
+  }
+}
+
+// Lambda関数のコード（Node.js 18 ランタイムに含まれる AWS SDK v3 と fetch を使用）
+// SNSのメッセージは通知ルールが送るJSON（detailType, detail, additionalAttributes など）
+const CHAT_NOTIFICATION_HANDLER = `
+const {
+  SecretsManagerClient,
+  GetSecretValueCommand,
+} = require("@aws-sdk/client-secrets-manager");
+
+const secrets = new SecretsManagerClient({});
+let webhookUrl;
+
+const STATES = {
+  STARTED: { icon: "▶️", label: "開始" },
+  SUCCEEDED: { icon: "✅", label: "成功" },
+  FAILED: { icon: "❌", label: "失敗" },
+};
+
+function toLines(notification) {
+  const detail = notification.detail || {};
+  const region = notification.region;
+  const consoleUrl =
+    "https://" + region + ".console.aws.amazon.com/codesuite/codepipeline/pipelines/" +
+    detail.pipeline + "/view?region=" + region;
+
+  if (detail.type && detail.type.category === "Approval") {
+    return [
+      "✋ [" + detail.pipeline + "] " + detail.stage + " / " + detail.action + " の承認待ちです",
+      consoleUrl,
+    ];
+  }
+
+  const state = STATES[detail.state] || { icon: "", label: detail.state };
+  const lines = [
+    state.icon + " [" + detail.pipeline + "] パイプラインの実行: " + state.label,
+    "実行ID: " + detail["execution-id"],
+  ];
+  const attributes = notification.additionalAttributes || {};
+  (attributes.failedActions || []).forEach((failed) => {
+    lines.push("失敗したアクション: " + failed.action + " - " + (failed.additionalInformation || ""));
+  });
+  lines.push(consoleUrl);
+  return lines;
+}
+
+function toPayload(lines) {
+  if (process.env.CHAT_FORMAT === "teams") {
+    // Teamsのメッセージカードでは段落の区切りに空行が必要
+    return {
+      "@type": "MessageCard",
+      "@context": "https://schema.org/extensions",
+      summary: lines[0],
+      text: lines.join("\\n\\n"),
+    };
+  }
+  return { text: lines.join("\\n") };
+}
+
+exports.handler = async (event) => {
+  if (!webhookUrl) {
+    const { SecretString } = await secrets.send(
+      new GetSecretValueCommand({ SecretId: process.env.SECRET_ID })
+    );
+    webhookUrl = SecretString.trim();
+  }
+
+  for (const record of event.Records) {
+    const notification = JSON.parse(record.Sns.Message);
+    const response = await fetch(webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(toPayload(toLines(notification))),
+    });
+    if (!response.ok) {
+      throw new Error("Webhook request failed: HTTP " + response.status);
+    }
+  }
+};
+`;
@@ -0,0 +1,142 @@
+import * as cdk from "aws-cdk-lib";
+import * as appscaling from "aws-cdk-lib/aws-applicationautoscaling";
+import * as cloudwatch from "aws-cdk-lib/aws-cloudwatch";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import { Construct } from "constructs";
+import {
+  AutoScalingConfig,
+  StepScalingConfig,
+} from "../config/environment-config";
+
+/**
+ * ServiceAutoScalingのプロパティ
+ */
+export interface ServiceAutoScalingProps {
+  // スケーリング対象のFargateサービス
+  readonly service: ecs.FargateService;
+  // 未指定の場合はスケーリングポリシーを作成せず、タスク数を desiredCount に固定する
+  // （スケジュールによる停止・再開だけを行う場合）
+  readonly config?: AutoScalingConfig;
+  readonly desiredCount: number;
+  // リクエスト数によるスケーリングで使用するターゲットグループ（ALBがある場合のみ）
+  readonly targetGroup?: elbv2.ApplicationTargetGroup;
+}
+
+/**
+ * Fargateサービスの Auto Scaling
+ *
+ * 環境設定に従って、以下のスケーリングポリシーを個別に有効化します：
+ * - CPU使用率 / メモリ使用率によるターゲット追跡
+ * - ALBのターゲットあたりリクエスト数によるターゲット追跡
+ * - カスタムCloudWatchメトリクスによるステップスケーリング
+ *
+ * 複数のポリシーを有効にした場合、最も多いタスク数を求めるポリシーが優先されます。
+ */
+// TypeScript: Constructを継承して再利用可能な部品（L3コンストラクト）を作成
+// スタックと同じく (scope, id, props) の形式のコンストラクタを持つ
+export class ServiceAutoScaling extends Construct {
+  // スケーリング対象（スケジュールなど他の設定から参照できるよう公開）
+  public readonly scalableTarget: ecs.ScalableTaskCount;
+  // 通常時（スケジュールで停止していないとき）のタスク数の範囲
+  public readonly minCapacity: number;
+  public readonly maxCapacity: number;
+
+  constructor(scope: Construct, id: string, props: ServiceAutoScalingProps) {
+    super(scope, id);
+
+    const { config } = props;
+
+    // TypeScript: オプショナルチェーン（?.）と Null合体演算子（??）
+    // config が undefined の場合は desiredCount を使用する
+    this.minCapacity = config?.minCapacity ?? props.desiredCount;
+    this.maxCapacity = config?.maxCapacity ?? props.desiredCount;
+
+    // スケーラブルターゲットの作成
+    // タスク数を minCapacity〜maxCapacity の範囲で調整する
+    this.scalableTarget = props.service.autoScaleTaskCount({
+      minCapacity: this.minCapacity,
+      maxCapacity: this.maxCapacity,
+    });
+
+    if (!config) {
+      return;
+    }
+
+    // CPU使用率に基づくスケーリング
+    if (config.cpu) {
+      this.scalableTarget.scaleOnCpuUtilization("CpuScaling", {
+        targetUtilizationPercent: config.cpu.targetValue,
+        scaleInCooldown: cdk.Duration.seconds(
+          config.cpu.scaleInCooldownSeconds
+        ),
+        scaleOutCooldown: cdk.Duration.seconds(
+          config.cpu.scaleOutCooldownSeconds
+        ),
+      });
+    }
+
+    // メモリ使用率に基づくスケーリング
+    if (config.memory) {
+      this.scalableTarget.scaleOnMemoryUtilization("MemoryScaling", {
+        targetUtilizationPercent: config.memory.targetValue,
+        scaleInCooldown: cdk.Duration.seconds(
+          config.memory.scaleInCooldownSeconds
+        ),
+        scaleOutCooldown: cdk.Duration.seconds(
+          config.memory.scaleOutCooldownSeconds
+        ),
+      });
+    }
+
+    // ALBのターゲットあたりリクエスト数に基づくスケーリング
+    // 設定の検証でALBの存在を確認しているが、念のためターゲットグループがない場合はスキップ
+    if (config.requestCountPerTarget && props.targetGroup) {
+      this.scalableTarget.scaleOnRequestCount("RequestCountScaling", {
+        requestsPerTarget: config.requestCountPerTarget.targetValue,
+        targetGroup: props.targetGroup,
+        scaleInCooldown: cdk.Duration.seconds(
+          config.requestCountPerTarget.scaleInCooldownSeconds
+        ),
+        scaleOutCooldown: cdk.Duration.seconds(
+          config.requestCountPerTarget.scaleOutCooldownSeconds
+        ),
+      });
+    }
+
+    // カスタムメトリクスに基づくステップスケーリング
+    // 例: アプリケーションが発行するキューの滞留数に応じて段階的にタスクを増減
+    if (config.customMetric) {
+      const { metric, steps } = config.customMetric;
+
+      this.scalableTarget.scaleOnMetric("CustomMetricScaling", {
+        metric: new cloudwatch.Metric({
+          namespace: metric.namespace,
+          metricName: metric.metricName,
+          dimensionsMap: metric.dimensions,
+          statistic: metric.statistic,
+          period: cdk.Duration.seconds(metric.periodSeconds),
+        }),
+        // TypeScript: mapで設定の配列をCDKの型の配列に変換
+        scalingSteps: steps.map((step) => ({
+          lower: step.lower,
+          upper: step.upper,
+          change: step.change,
+        })),
+        adjustmentType: ADJUSTMENT_TYPES[config.customMetric.adjustmentType],
+        cooldown: cdk.Duration.seconds(config.customMetric.cooldownSeconds),
+      });
+    }
+  }
+}
+
+// 設定値（CloudFormationの表記）とCDKのenumの対応
+// TypeScript: インターフェースのプロパティ型は 型名["プロパティ名"] で参照できる
+const ADJUSTMENT_TYPES: Record<
+  StepScalingConfig["adjustmentType"],
+  appscaling.AdjustmentType
+> = {
+  ChangeInCapacity: appscaling.AdjustmentType.CHANGE_IN_CAPACITY,
+  PercentChangeInCapacity: appscaling.AdjustmentType.PERCENT_CHANGE_IN_CAPACITY,
+  ExactCapacity: appscaling.AdjustmentType.EXACT_CAPACITY,
+};
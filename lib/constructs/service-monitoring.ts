@@ -0,0 +1,379 @@
+import * as cdk from "aws-cdk-lib";
+import * as cloudwatch from "aws-cdk-lib/aws-cloudwatch";
+import * as cloudwatch_actions from "aws-cdk-lib/aws-cloudwatch-actions";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import * as lambda from "aws-cdk-lib/aws-lambda";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
+import * as sns from "aws-cdk-lib/aws-sns";
+import * as subscriptions from "aws-cdk-lib/aws-sns-subscriptions";
+import { Construct } from "constructs";
+import { MonitoringConfig } from "../config/environment-config";
+
+/**
+ * ServiceMonitoringのプロパティ
+ */
+export interface ServiceMonitoringProps {
+  // Container Insightsを有効にしたクラスターのサービス（タスク数のメトリクスに使用）
+  readonly service: ecs.FargateService;
+  readonly logGroup: logs.ILogGroup;
+  readonly config: MonitoringConfig;
+  // Webhook通知用Lambda関数のログの保持期間
+  readonly logRetention: logs.RetentionDays;
+  // ALBがある場合のみ指定
+  readonly loadBalancer?: elbv2.ApplicationLoadBalancer;
+  // サービスのタスクが登録されるターゲットグループ（Blue/Greenの場合は両方）
+  readonly targetGroups?: elbv2.ApplicationTargetGroup[];
+  // Fargate Spotのタスクの中断数（Spotを使用する場合のみ指定）
+  readonly spotInterruptions?: cloudwatch.IMetric;
+  // 失敗したデプロイの数（サーキットブレーカーやデプロイのアラームを使用する場合のみ指定）
+  readonly deploymentFailures?: cloudwatch.IMetric;
+}
+
+/**
+ * Fargateサービスの監視
+ *
+ * 以下を作成します：
+ * - CloudWatchダッシュボード（CPU・メモリ、タスク数、ALBのエラーと応答時間、ログのエラー数、Spotの中断数、デプロイの失敗数）
+ * - アラーム（実行中のタスク不足、異常なターゲット、5xxエラー、CPU・メモリの高使用率）
+ * - アラームの通知先のSNSトピック（メール・Webhook）
+ *
+ * Webhookへの通知を設定した場合は、トピックをサブスクライブするLambda関数が
+ * アラームの内容（CloudWatchアラームのJSON）をWebhookにPOSTします。
+ */
+export class ServiceMonitoring extends Construct {
+  public readonly alarmTopic: sns.Topic;
+  public readonly dashboard: cloudwatch.Dashboard;
+  // ECSのデプロイのアラームとして監視するアラームの名前（タスク不足、ALBのヘルスチェックの失敗）
+  public readonly deploymentAlarmNames: string[];
+
+  constructor(scope: Construct, id: string, props: ServiceMonitoringProps) {
+    super(scope, id);
+
+    const { config, service } = props;
+    const period = cdk.Duration.minutes(1);
+
+    /**
+     * アラームの通知先
+     */
+    this.alarmTopic = new sns.Topic(this, "AlarmTopic", {
+      topicName: "lab-infra-alarms",
+      displayName: "Lab Infra アラーム",
+    });
+    config.alarmEmails.forEach((email) => {
+      this.alarmTopic.addSubscription(
+        new subscriptions.EmailSubscription(email)
+      );
+    });
+    if (config.alarmWebhook) {
+      // シークレットは事前に作成しておく（このスタックでは作成しない）
+      const webhookSecret = secretsmanager.Secret.fromSecretNameV2(
+        this,
+        "AlarmWebhookSecret",
+        config.alarmWebhook.secretName
+      );
+      const webhookFunction = new lambda.Function(
+        this,
+        "AlarmWebhookFunction",
+        {
+          description: "アラームの通知をWebhookに送信",
+          runtime: lambda.Runtime.NODEJS_18_X,
+          handler: "index.handler",
+          // 依存パッケージのない小さな関数のため、コードをテンプレートに直接埋め込む
+          code: lambda.Code.fromInline(ALARM_WEBHOOK_HANDLER),
+          timeout: cdk.Duration.seconds(30),
+          logRetention: props.logRetention,
+          environment: {
+            SECRET_ID: config.alarmWebhook.secretName,
+          },
+        }
+      );
+      webhookSecret.grantRead(webhookFunction);
+      this.alarmTopic.addSubscription(
+        new subscriptions.LambdaSubscription(webhookFunction)
+      );
+    }
+
+    /**
+     * メトリクス
+     */
+    const cpuUtilization = service.metricCpuUtilization({ period });
+    const memoryUtilization = service.metricMemoryUtilization({ period });
+
+    // タスク数はContainer Insightsのメトリクス
+    const taskCountDimensions = {
+      ClusterName: service.cluster.clusterName,
+      ServiceName: service.serviceName,
+    };
+    const runningTaskCount = new cloudwatch.Metric({
+      namespace: "ECS/ContainerInsights",
+      metricName: "RunningTaskCount",
+      dimensionsMap: taskCountDimensions,
+      statistic: "Average",
+      period,
+    });
+    const desiredTaskCount = new cloudwatch.Metric({
+      namespace: "ECS/ContainerInsights",
+      metricName: "DesiredTaskCount",
+      dimensionsMap: taskCountDimensions,
+      statistic: "Average",
+      period,
+    });
+
+    // アプリケーションログのエラー数
+    // ログに ERROR / error を含む行を数える（nginxのエラーログは [error] を含む）
+    const logErrors = new logs.MetricFilter(this, "LogErrorMetricFilter", {
+      logGroup: props.logGroup,
+      filterPattern: logs.FilterPattern.anyTerm("ERROR", "error"),
+      metricNamespace: "LabInfra",
+      metricName: "ApplicationLogErrors",
+      metricValue: "1",
+      defaultValue: 0,
+    }).metric({ statistic: "Sum", period });
+
+    /**
+     * アラーム
+     */
+    const { loadBalancer } = props;
+    const alarms: cloudwatch.Alarm[] = [
+      // 実行中のタスクが必要数より少ない状態が続いている
+      // （タスクの起動失敗や停止の繰り返し。スケジュールで0にしている時間帯は必要数も0になる）
+      new cloudwatch.Alarm(this, "RunningTasksBelowDesiredAlarm", {
+        alarmName: "lab-infra-running-tasks-below-desired",
+        alarmDescription: "実行中のタスクが必要数より少ない状態が続いています",
+        metric: new cloudwatch.MathExpression({
+          expression: "desired - running",
+          usingMetrics: {
+            desired: desiredTaskCount,
+            running: runningTaskCount,
+          },
+          period,
+        }),
+        threshold: 1,
+        comparisonOperator:
+          cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        evaluationPeriods: 5,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      }),
+
+      new cloudwatch.Alarm(this, "HighCpuAlarm", {
+        alarmDescription: `CPU使用率が${config.cpuAlarmThreshold}%を超えています`,
+        metric: cpuUtilization,
+        threshold: config.cpuAlarmThreshold,
+        evaluationPeriods: 5,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      }),
+
+      new cloudwatch.Alarm(this, "HighMemoryAlarm", {
+        alarmDescription: `メモリ使用率が${config.memoryAlarmThreshold}%を超えています`,
+        metric: memoryUtilization,
+        threshold: config.memoryAlarmThreshold,
+        evaluationPeriods: 5,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      }),
+
+      // ALBまたはタスクが5xxエラーを返している（ALBがある場合のみ）
+      ...(loadBalancer
+        ? [
+            new cloudwatch.Alarm(this, "Http5xxAlarm", {
+              alarmName: "lab-infra-http-5xx",
+              alarmDescription: "5xxエラーが続いています",
+              metric: new cloudwatch.MathExpression({
+                expression: "FILL(elb, 0) + FILL(target, 0)",
+                usingMetrics: {
+                  elb: loadBalancer.metrics.httpCodeElb(
+                    elbv2.HttpCodeElb.ELB_5XX_COUNT,
+                    { period }
+                  ),
+                  target: loadBalancer.metrics.httpCodeTarget(
+                    elbv2.HttpCodeTarget.TARGET_5XX_COUNT,
+                    { period }
+                  ),
+                },
+                label: "5xxエラー数",
+                period,
+              }),
+              threshold: HTTP_5XX_ALARM_THRESHOLD,
+              comparisonOperator:
+                cloudwatch.ComparisonOperator
+                  .GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+              evaluationPeriods: 3,
+              treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+            }),
+          ]
+        : []),
+
+      // TypeScript: mapで配列の要素ごとにアラームを作成し、スプレッド構文で展開
+      // ヘルスチェックに失敗しているタスクがある
+      ...(props.targetGroups ?? []).map(
+        (targetGroup, index) =>
+          new cloudwatch.Alarm(this, `UnhealthyTargetAlarm${index}`, {
+            alarmName: `lab-infra-unhealthy-targets-${index}`,
+            alarmDescription:
+              "ALBのヘルスチェックに失敗しているタスクがあります",
+            metric: targetGroup.metrics.unhealthyHostCount({
+              period,
+              statistic: "Maximum",
+            }),
+            threshold: 1,
+            comparisonOperator:
+              cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+            evaluationPeriods: 3,
+            treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+          })
+      ),
+    ];
+
+    // デプロイのアラームはサービスの設定に名前で指定する
+    // （アラームはサービスのメトリクスを参照するため、名前を固定して循環参照を避ける）
+    this.deploymentAlarmNames = [
+      "lab-infra-running-tasks-below-desired",
+      ...(props.targetGroups ?? []).map(
+        (_, index) => `lab-infra-unhealthy-targets-${index}`
+      ),
+    ];
+
+    // アラーム状態になった時と、正常に戻った時の両方を通知
+    const alarmAction = new cloudwatch_actions.SnsAction(this.alarmTopic);
+    alarms.forEach((alarm) => {
+      alarm.addAlarmAction(alarmAction);
+      alarm.addOkAction(alarmAction);
+    });
+
+    /**
+     * ダッシュボード
+     */
+    this.dashboard = new cloudwatch.Dashboard(this, "Dashboard", {
+      dashboardName: "lab-infra-service",
+    });
+
+    this.dashboard.addWidgets(
+      new cloudwatch.AlarmStatusWidget({
+        title: "アラーム",
+        alarms,
+        width: 24,
+        height: 3,
+      })
+    );
+
+    this.dashboard.addWidgets(
+      new cloudwatch.GraphWidget({
+        title: "CPU・メモリ使用率（%）",
+        left: [cpuUtilization, memoryUtilization],
+        leftYAxis: { min: 0, max: 100 },
+        width: 8,
+      }),
+      new cloudwatch.GraphWidget({
+        title: "タスク数",
+        left: [runningTaskCount, desiredTaskCount],
+        leftYAxis: { min: 0 },
+        width: 8,
+      }),
+      new cloudwatch.GraphWidget({
+        title: "ログのエラー数",
+        left: [logErrors],
+        leftYAxis: { min: 0 },
+        width: 8,
+      })
+    );
+
+    if (loadBalancer) {
+      this.dashboard.addWidgets(
+        new cloudwatch.GraphWidget({
+          title: "リクエスト数",
+          left: [loadBalancer.metrics.requestCount({ period })],
+          width: 8,
+        }),
+        new cloudwatch.GraphWidget({
+          title: "5xxエラー数",
+          left: [
+            loadBalancer.metrics.httpCodeElb(elbv2.HttpCodeElb.ELB_5XX_COUNT, {
+              period,
+            }),
+            loadBalancer.metrics.httpCodeTarget(
+              elbv2.HttpCodeTarget.TARGET_5XX_COUNT,
+              { period }
+            ),
+          ],
+          width: 8,
+        }),
+        new cloudwatch.GraphWidget({
+          title: "応答時間（秒）",
+          left: [
+            loadBalancer.metrics.targetResponseTime({
+              period,
+              statistic: "p50",
+            }),
+            loadBalancer.metrics.targetResponseTime({
+              period,
+              statistic: "p90",
+            }),
+          ],
+          width: 8,
+        })
+      );
+    }
+
+    // 設定に応じて表示するメトリクス（指定されたものだけを1行に並べる）
+    const optionalWidgets: cloudwatch.IWidget[] = [];
+    if (props.spotInterruptions) {
+      optionalWidgets.push(
+        new cloudwatch.GraphWidget({
+          title: "Spotの中断数",
+          left: [props.spotInterruptions],
+          leftYAxis: { min: 0 },
+          width: 8,
+        })
+      );
+    }
+    if (props.deploymentFailures) {
+      optionalWidgets.push(
+        new cloudwatch.GraphWidget({
+          title: "デプロイの失敗数",
+          left: [props.deploymentFailures],
+          leftYAxis: { min: 0 },
+          width: 8,
+        })
+      );
+    }
+    if (optionalWidgets.length > 0) {
+      this.dashboard.addWidgets(...optionalWidgets);
+    }
+  }
+}
+
+// 1分あたりの5xxエラー数（ALBとタスクの合計）がこの数以上の状態が3分続いたらアラーム
+const HTTP_5XX_ALARM_THRESHOLD = 5;
+
+// Lambda関数のコード（Node.js 18 ランタイムに含まれる AWS SDK v3 と fetch を使用）
+// SNSのメッセージ（CloudWatchアラームの状態変化のJSON）をそのままPOSTする
+const ALARM_WEBHOOK_HANDLER = `
+const {
+  SecretsManagerClient,
+  GetSecretValueCommand,
+} = require("@aws-sdk/client-secrets-manager");
+
+const secrets = new SecretsManagerClient({});
+let webhookUrl;
+
+exports.handler = async (event) => {
+  if (!webhookUrl) {
+    const { SecretString } = await secrets.send(
+      new GetSecretValueCommand({ SecretId: process.env.SECRET_ID })
+    );
+    webhookUrl = SecretString.trim();
+  }
+
+  for (const record of event.Records) {
+    const response = await fetch(webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: record.Sns.Message,
+    });
+    if (!response.ok) {
+      throw new Error("Webhook request failed: HTTP " + response.status);
+    }
+  }
+};
+`;
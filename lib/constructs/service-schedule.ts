@@ -0,0 +1,234 @@
+import * as cdk from "aws-cdk-lib";
+import * as appscaling from "aws-cdk-lib/aws-applicationautoscaling";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as events from "aws-cdk-lib/aws-events";
+import * as targets from "aws-cdk-lib/aws-events-targets";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as lambda from "aws-cdk-lib/aws-lambda";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as ssm from "aws-cdk-lib/aws-ssm";
+import { Construct } from "constructs";
+import { ScheduleConfig } from "../config/environment-config";
+
+/**
+ * 「起こしておく」オーバーライド用のSSMパラメータの名前
+ * （パイプラインのスモークテストでも、停止中のサービスを起こすために使用する）
+ */
+export const KEEP_AWAKE_PARAMETER_NAME = "/lab-infra/keep-awake-until";
+
+// このコンストラクトで作成するスケジュールアクションの名前
+const SCHEDULED_ACTION_NAMES = ["Sleep", "Wake"];
+
+/**
+ * ServiceScheduleのプロパティ
+ */
+export interface ServiceScheduleProps {
+  readonly service: ecs.FargateService;
+  // ServiceAutoScalingで作成したスケーラブルターゲット
+  readonly scalableTarget: ecs.ScalableTaskCount;
+  readonly config: ScheduleConfig;
+  // 稼働時間帯のタスク数の範囲
+  readonly awakeMinCapacity: number;
+  readonly awakeMaxCapacity: number;
+  readonly logRetention: logs.RetentionDays;
+}
+
+/**
+ * スケジュールによるサービスの停止・再開
+ *
+ * 夜間・休日にタスク数を0にしてFargateの費用を削減します。
+ * スケーラブルターゲットのスケジュールアクションで min/max を切り替えます。
+ *
+ * 一時的に停止させたくない場合は、SSMパラメータに終了日時を設定します：
+ *   aws ssm put-parameter --name /lab-infra/keep-awake-until \
+ *     --value 2026-01-31T23:00:00+09:00 --overwrite
+ * 設定中はスケジュールアクションが一時停止され、日時を過ぎると自動で再開されます。
+ * （再開後は次のスケジュール時刻から停止・再開が適用されます）
+ */
+export class ServiceSchedule extends Construct {
+  public readonly keepAwakeParameter: ssm.StringParameter;
+
+  constructor(scope: Construct, id: string, props: ServiceScheduleProps) {
+    super(scope, id);
+
+    const { config } = props;
+
+    // 停止: タスク数を0に固定
+    // スケジュールアクションの名前は scaleOnSchedule の id（SCHEDULED_ACTION_NAMES）
+    props.scalableTarget.scaleOnSchedule("Sleep", {
+      schedule: appscaling.Schedule.expression(`cron(${config.sleepCron})`),
+      minCapacity: 0,
+      maxCapacity: 0,
+    });
+
+    // 再開: 通常時のタスク数の範囲に戻す
+    props.scalableTarget.scaleOnSchedule("Wake", {
+      schedule: appscaling.Schedule.expression(`cron(${config.wakeCron})`),
+      minCapacity: props.awakeMinCapacity,
+      maxCapacity: props.awakeMaxCapacity,
+    });
+
+    // スケジュールのタイムゾーン指定
+    // 現在のCDKバージョン（2.87）のscaleOnScheduleはタイムゾーンに未対応のため、
+    // L1リソース（CfnScalableTarget）の ScheduledActions のうち、上の2つのアクションに
+    // 名前（scaleOnScheduleのid）で Timezone を追加する（エスケープハッチ）
+    // 配列の位置で上書きすると、他のスケジュールアクションが追加された場合に別のアクションを変更してしまう
+    // TypeScript: 「as 型」で型アサーション（Javaのキャストに相当）
+    const cfnScalableTarget = props.scalableTarget.node.findChild("Target").node
+      .defaultChild as appscaling.CfnScalableTarget;
+    const scheduledActions = cfnScalableTarget.scheduledActions;
+    // ScheduledActions はsynth時に値が決まる（Lazy）ため、同じくLazyで元の値を解決してから変更する
+    cfnScalableTarget.scheduledActions = cdk.Lazy.any(
+      {
+        produce: () => {
+          const actions: appscaling.CfnScalableTarget.ScheduledActionProperty[] =
+            cdk.Stack.of(this).resolve(scheduledActions) ?? [];
+          return actions.map((action) =>
+            SCHEDULED_ACTION_NAMES.includes(action.scheduledActionName)
+              ? { ...action, timezone: config.timeZone }
+              : action
+          );
+        },
+      },
+      { omitEmptyArray: true }
+    );
+
+    /**
+     * 「起こしておく」オーバーライド
+     *
+     * SSMパラメータの値（ISO 8601形式の日時、または "none"）に応じて、
+     * スケジュールアクションを一時停止・再開するLambda関数
+     */
+    this.keepAwakeParameter = new ssm.StringParameter(
+      this,
+      "KeepAwakeParameter",
+      {
+        parameterName: KEEP_AWAKE_PARAMETER_NAME,
+        description:
+          "この日時（ISO 8601）までスケジュールによる停止を行わない。無効化する場合は none",
+        stringValue: "none",
+      }
+    );
+
+    const resourceId = `service/${props.service.cluster.clusterName}/${props.service.serviceName}`;
+
+    const keepAwakeFunction = new lambda.Function(this, "KeepAwakeFunction", {
+      description:
+        "SSMパラメータに応じてスケジュールによる停止を一時停止・再開",
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: "index.handler",
+      // 依存パッケージのない小さな関数のため、コードをテンプレートに直接埋め込む
+      code: lambda.Code.fromInline(KEEP_AWAKE_HANDLER),
+      timeout: cdk.Duration.seconds(30),
+      logRetention: props.logRetention,
+      environment: {
+        PARAMETER_NAME: this.keepAwakeParameter.parameterName,
+        RESOURCE_ID: resourceId,
+        AWAKE_MIN_CAPACITY: String(props.awakeMinCapacity),
+        AWAKE_MAX_CAPACITY: String(props.awakeMaxCapacity),
+      },
+    });
+
+    this.keepAwakeParameter.grantRead(keepAwakeFunction);
+
+    // Application Auto Scalingはリソースレベルの権限指定に対応していないため "*" を指定
+    keepAwakeFunction.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: [
+          "application-autoscaling:DescribeScalableTargets",
+          "application-autoscaling:RegisterScalableTarget",
+        ],
+        resources: ["*"],
+      })
+    );
+
+    // スケーラブルターゲットの更新時に、ECSサービスの存在確認と更新が行われる
+    keepAwakeFunction.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["ecs:DescribeServices", "ecs:UpdateService"],
+        resources: [props.service.serviceArn],
+      })
+    );
+
+    // パラメータが変更されたらすぐに反映
+    new events.Rule(this, "KeepAwakeParameterChangeRule", {
+      description: "keep-awakeパラメータの変更時にスケジュール状態を更新",
+      eventPattern: {
+        source: ["aws.ssm"],
+        detailType: ["Parameter Store Change"],
+        detail: {
+          name: [this.keepAwakeParameter.parameterName],
+        },
+      },
+      targets: [new targets.LambdaFunction(keepAwakeFunction)],
+    });
+
+    // 期限切れを検知するため定期的にも実行
+    new events.Rule(this, "KeepAwakeExpiryRule", {
+      description: "keep-awakeの期限切れを確認してスケジュールを再開",
+      schedule: events.Schedule.rate(cdk.Duration.minutes(15)),
+      targets: [new targets.LambdaFunction(keepAwakeFunction)],
+    });
+  }
+}
+
+// Lambda関数のコード（Node.js 18 ランタイムに含まれる AWS SDK v3 を使用）
+const KEEP_AWAKE_HANDLER = `
+const {
+  ApplicationAutoScalingClient,
+  DescribeScalableTargetsCommand,
+  RegisterScalableTargetCommand,
+} = require("@aws-sdk/client-application-auto-scaling");
+const { SSMClient, GetParameterCommand } = require("@aws-sdk/client-ssm");
+
+const autoscaling = new ApplicationAutoScalingClient({});
+const ssm = new SSMClient({});
+
+exports.handler = async () => {
+  const { Parameter } = await ssm.send(
+    new GetParameterCommand({ Name: process.env.PARAMETER_NAME })
+  );
+  const until = Date.parse(Parameter.Value);
+  const keepAwake = !Number.isNaN(until) && until > Date.now();
+
+  const { ScalableTargets } = await autoscaling.send(
+    new DescribeScalableTargetsCommand({
+      ServiceNamespace: "ecs",
+      ResourceIds: [process.env.RESOURCE_ID],
+      ScalableDimension: "ecs:service:DesiredCount",
+    })
+  );
+  const target = ScalableTargets[0];
+  const suspended = Boolean(
+    target.SuspendedState && target.SuspendedState.ScheduledScalingSuspended
+  );
+
+  if (keepAwake === suspended) {
+    console.log("No change", { keepAwake, until: Parameter.Value });
+    return;
+  }
+
+  const request = {
+    ServiceNamespace: "ecs",
+    ResourceId: process.env.RESOURCE_ID,
+    ScalableDimension: "ecs:service:DesiredCount",
+    SuspendedState: { ScheduledScalingSuspended: keepAwake },
+  };
+  if (keepAwake) {
+    // 停止中に起こす場合は、通常時のタスク数の範囲に戻す
+    request.MinCapacity = Math.max(
+      target.MinCapacity,
+      Number(process.env.AWAKE_MIN_CAPACITY)
+    );
+    request.MaxCapacity = Math.max(
+      target.MaxCapacity,
+      Number(process.env.AWAKE_MAX_CAPACITY)
+    );
+  }
+
+  await autoscaling.send(new RegisterScalableTargetCommand(request));
+  console.log(keepAwake ? "Scheduled scaling suspended" : "Scheduled scaling resumed", {
+    until: Parameter.Value,
+  });
+};
+`;
@@ -0,0 +1,314 @@
+import * as cdk from "aws-cdk-lib";
+import * as codebuild from "aws-cdk-lib/aws-codebuild";
+import * as iam from "aws-cdk-lib/aws-iam";
+import { Construct } from "constructs";
+import { SmokeTestConfig } from "../config/environment-config";
+
+/**
+ * SmokeTestProjectのプロパティ
+ */
+export interface SmokeTestProjectProps {
+  readonly config: SmokeTestConfig;
+  // 接続先（サービスのURL）やサービス名を出力しているスタック
+  readonly serviceStackName: string;
+  // Blue/GreenデプロイでALBのトラフィックを受けるコンテナとポート
+  readonly containerName: string;
+  readonly containerPort: number;
+  // Blue/Greenデプロイの場合は、ロールバックもCodeDeployで行う
+  readonly codeDeploy?: {
+    readonly applicationName: string;
+    readonly deploymentGroupName: string;
+  };
+  // スケジュールで停止するサービスの場合のみ指定（「起こしておく」オーバーライドのSSMパラメータ名）
+  // テストの前にパラメータを設定してサービスを起こし、タスクが起動するまで待つ
+  readonly keepAwakeParameterName?: string;
+}
+
+// スモークテストでサービスを起こしておく時間（分）
+const KEEP_AWAKE_MINUTES = 60;
+
+/**
+ * デプロイ後のスモークテスト用CodeBuildプロジェクト
+ *
+ * スタックの出力からサービスのURLを取得してHTTPリクエストを送り、
+ * 期待するステータスコードが返らない場合はビルドを失敗させます（パイプラインの実行も失敗）。
+ * rollbackOnFailure が有効な場合は、失敗させる前にサービスを直前のタスク定義に戻します。
+ *
+ * スケジュールで停止するサービス（keepAwakeParameterName を指定）の場合は、
+ * 「起こしておく」オーバーライドのSSMパラメータに KEEP_AWAKE_MINUTES 分後の日時を設定して
+ * サービスを起こしてからテストします（既により後の日時が設定されている場合は変更しない）。
+ * 停止の時間帯にテストした場合、サービスは次の停止の時刻まで起動したままになります。
+ *
+ * 直前のタスク定義は、デプロイ前に recordProject で記録したサービスのタスク定義です。
+ * recordProject が出力する変数 PREVIOUS_TASK_DEFINITION を、スモークテストの環境変数に渡してください。
+ */
+export class SmokeTestProject extends Construct {
+  public readonly project: codebuild.Project;
+  // デプロイ前のサービスのタスク定義を記録するプロジェクト（rollbackOnFailure が有効な場合のみ）
+  public readonly recordProject?: codebuild.Project;
+
+  constructor(scope: Construct, id: string, props: SmokeTestProjectProps) {
+    super(scope, id);
+
+    const { config } = props;
+
+    this.project = new codebuild.Project(this, "Project", {
+      projectName: "lab-infra-smoke-test",
+      description: "Lab Infra デプロイ後のスモークテスト",
+
+      environment: {
+        buildImage: codebuild.LinuxBuildImage.AMAZON_LINUX_2_5,
+        computeType: codebuild.ComputeType.SMALL,
+      },
+
+      environmentVariables: {
+        SERVICE_STACK_NAME: { value: props.serviceStackName },
+        HEALTH_CHECK_PATH: { value: config.path },
+        EXPECTED_STATUS: { value: String(config.expectedStatus) },
+        ATTEMPTS: { value: String(config.attempts) },
+        ROLLBACK_ON_FAILURE: { value: String(config.rollbackOnFailure) },
+        // デプロイ前に記録したタスク定義（パイプラインのアクションで上書きする）
+        PREVIOUS_TASK_DEFINITION: { value: "none" },
+        CONTAINER_NAME: { value: props.containerName },
+        CONTAINER_PORT: { value: String(props.containerPort) },
+        CODEDEPLOY_APPLICATION: {
+          value: props.codeDeploy?.applicationName ?? "",
+        },
+        CODEDEPLOY_DEPLOYMENT_GROUP: {
+          value: props.codeDeploy?.deploymentGroupName ?? "",
+        },
+        KEEP_AWAKE_PARAMETER: { value: props.keepAwakeParameterName ?? "" },
+        KEEP_AWAKE_MINUTES: { value: String(KEEP_AWAKE_MINUTES) },
+      },
+
+      // サービスを起こす場合は、タスクの起動を待つ時間（最大10分）を含む
+      timeout: cdk.Duration.minutes(props.keepAwakeParameterName ? 25 : 15),
+
+      buildSpec: codebuild.BuildSpec.fromObject({
+        version: "0.2",
+        phases: {
+          pre_build: {
+            commands: [
+              'echo "=== Resolving the service endpoint ==="',
+              ...["ServiceUrl", "ClusterName", "ServiceName"].map(
+                (outputKey) =>
+                  `${outputKey}=$(aws cloudformation describe-stacks --stack-name $SERVICE_STACK_NAME --query "Stacks[0].Outputs[?OutputKey=='${outputKey}'].OutputValue" --output text)`
+              ),
+              // カスタムドメインがある場合は https://[ドメイン名]（HTTPはリダイレクトされるため）
+              'URL="$ServiceUrl$HEALTH_CHECK_PATH"',
+              'echo "Target: $URL"',
+              WAKE_COMMAND,
+            ],
+          },
+          build: {
+            commands: [
+              'echo "=== Running the smoke test ==="',
+              SMOKE_TEST_COMMAND,
+              ROLLBACK_COMMAND,
+            ],
+          },
+        },
+      }),
+    });
+
+    // 接続先の取得（このプロジェクトのスタックのみ）
+    const describeStacks = new iam.PolicyStatement({
+      actions: ["cloudformation:DescribeStacks"],
+      resources: [
+        cdk.Stack.of(this).formatArn({
+          service: "cloudformation",
+          resource: "stack",
+          resourceName: `${props.serviceStackName}/*`,
+        }),
+      ],
+    });
+    this.project.addToRolePolicy(describeStacks);
+
+    // 停止中のサービスを起こす（パラメータの変更でスケジュールが一時停止される）
+    if (props.keepAwakeParameterName) {
+      this.project.addToRolePolicy(
+        new iam.PolicyStatement({
+          actions: ["ssm:GetParameter", "ssm:PutParameter"],
+          resources: [
+            cdk.Stack.of(this).formatArn({
+              service: "ssm",
+              resource: "parameter",
+              // パラメータ名の先頭の "/" はARNに含めない
+              resourceName: props.keepAwakeParameterName.replace(/^\//, ""),
+            }),
+          ],
+        })
+      );
+      this.project.addToRolePolicy(
+        new iam.PolicyStatement({
+          actions: ["ecs:DescribeServices"],
+          resources: [
+            cdk.Stack.of(this).formatArn({
+              service: "ecs",
+              resource: "service",
+              resourceName: "*",
+            }),
+          ],
+        })
+      );
+    }
+
+    if (!config.rollbackOnFailure) {
+      return;
+    }
+
+    // デプロイ前のタスク定義の記録
+    // ListTaskDefinitionsで最新のリビジョンを探すと、デプロイで登録されたリビジョンの数によって
+    // 戻す先がずれるため、デプロイ前にサービスが使用しているタスク定義をそのまま記録する
+    this.recordProject = new codebuild.Project(this, "RecordProject", {
+      projectName: "lab-infra-record-task-definition",
+      description:
+        "Lab Infra デプロイ前のタスク定義の記録（スモークテストのロールバック用）",
+
+      environment: {
+        buildImage: codebuild.LinuxBuildImage.AMAZON_LINUX_2_5,
+        computeType: codebuild.ComputeType.SMALL,
+      },
+
+      environmentVariables: {
+        SERVICE_STACK_NAME: { value: props.serviceStackName },
+      },
+
+      timeout: cdk.Duration.minutes(5),
+
+      buildSpec: codebuild.BuildSpec.fromObject({
+        version: "0.2",
+        env: {
+          // 後続のアクション（スモークテスト）で #{Namespace.PREVIOUS_TASK_DEFINITION} として参照できる
+          "exported-variables": ["PREVIOUS_TASK_DEFINITION"],
+        },
+        phases: {
+          build: {
+            commands: [
+              'echo "=== Recording the current task definition ==="',
+              RECORD_COMMAND,
+              'echo "Previous task definition: $PREVIOUS_TASK_DEFINITION"',
+            ],
+          },
+        },
+      }),
+    });
+    this.recordProject.addToRolePolicy(describeStacks);
+    this.recordProject.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["ecs:DescribeServices"],
+        resources: [
+          cdk.Stack.of(this).formatArn({
+            service: "ecs",
+            resource: "service",
+            resourceName: "*",
+          }),
+        ],
+      })
+    );
+
+    if (props.codeDeploy) {
+      // 直前のタスク定義でBlue/Greenデプロイを作成する
+      this.project.addToRolePolicy(
+        new iam.PolicyStatement({
+          actions: [
+            "codedeploy:CreateDeployment",
+            "codedeploy:GetDeploymentConfig",
+            "codedeploy:RegisterApplicationRevision",
+          ],
+          resources: [
+            cdk.Stack.of(this).formatArn({
+              service: "codedeploy",
+              resource: "deploymentgroup",
+              resourceName: `${props.codeDeploy.applicationName}/${props.codeDeploy.deploymentGroupName}`,
+              arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME,
+            }),
+            cdk.Stack.of(this).formatArn({
+              service: "codedeploy",
+              resource: "deploymentconfig",
+              resourceName: "*",
+              arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME,
+            }),
+            cdk.Stack.of(this).formatArn({
+              service: "codedeploy",
+              resource: "application",
+              resourceName: props.codeDeploy.applicationName,
+              arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME,
+            }),
+          ],
+        })
+      );
+    } else {
+      // サービスのタスク定義を直接更新する
+      this.project.addToRolePolicy(
+        new iam.PolicyStatement({
+          actions: ["ecs:UpdateService"],
+          resources: [
+            cdk.Stack.of(this).formatArn({
+              service: "ecs",
+              resource: "service",
+              resourceName: "*",
+            }),
+          ],
+        })
+      );
+    }
+  }
+}
+
+// スケジュールで停止するサービスの場合は、テストの前にサービスを起こす
+// 設定済みの日時がより後の場合（手動で起こしている場合など）はそのままにする
+// 実行中のタスクができるまで、10秒間隔で最大10分待つ
+const WAKE_COMMAND = `if [ -n "$KEEP_AWAKE_PARAMETER" ]; then
+  UNTIL=$(date -u -d "+$KEEP_AWAKE_MINUTES minutes" +%Y-%m-%dT%H:%M:%SZ)
+  CURRENT=$(aws ssm get-parameter --name "$KEEP_AWAKE_PARAMETER" --query Parameter.Value --output text)
+  if [ "$(date -d "$CURRENT" +%s 2>/dev/null || echo 0)" -lt "$(date -d "$UNTIL" +%s)" ]; then
+    echo "Keeping the service awake until $UNTIL"
+    aws ssm put-parameter --name "$KEEP_AWAKE_PARAMETER" --value "$UNTIL" --overwrite
+  fi
+  for i in $(seq 1 60); do
+    RUNNING=$(aws ecs describe-services --cluster "$ClusterName" --services "$ServiceName" --query 'services[0].runningCount' --output text)
+    echo "Running tasks: $RUNNING"
+    if [ "$RUNNING" -gt 0 ]; then break; fi
+    sleep 10
+  done
+fi`;
+
+// 期待するステータスコードが返るまで、10秒間隔で ATTEMPTS 回まで試行する
+const SMOKE_TEST_COMMAND = `HEALTHY=false
+for i in $(seq 1 $ATTEMPTS); do
+  STATUS=$(curl -s -o /dev/null -w '%{http_code}' --max-time 10 "$URL")
+  echo "Attempt $i: HTTP $STATUS"
+  if [ "$STATUS" = "$EXPECTED_STATUS" ]; then HEALTHY=true; break; fi
+  sleep 10
+done`;
+
+// サービスが使用しているタスク定義のARN
+// 初回のデプロイ（スタックやサービスがまだない）の場合は none
+const RECORD_COMMAND = `ClusterName=$(aws cloudformation describe-stacks --stack-name $SERVICE_STACK_NAME --query "Stacks[0].Outputs[?OutputKey=='ClusterName'].OutputValue" --output text 2>/dev/null || true)
+ServiceName=$(aws cloudformation describe-stacks --stack-name $SERVICE_STACK_NAME --query "Stacks[0].Outputs[?OutputKey=='ServiceName'].OutputValue" --output text 2>/dev/null || true)
+PREVIOUS_TASK_DEFINITION=none
+if [ -n "$ClusterName" ] && [ -n "$ServiceName" ]; then
+  CURRENT=$(aws ecs describe-services --cluster "$ClusterName" --services "$ServiceName" --query 'services[0].taskDefinition' --output text)
+  if [ -n "$CURRENT" ] && [ "$CURRENT" != "None" ]; then PREVIOUS_TASK_DEFINITION=$CURRENT; fi
+fi`;
+
+// 失敗時の処理
+// デプロイ前に記録したタスク定義に戻す（記録がない初回のデプロイでは戻さない）
+const ROLLBACK_COMMAND = `if [ "$HEALTHY" != "true" ]; then
+  echo "Smoke test failed: expected HTTP $EXPECTED_STATUS"
+  if [ "$ROLLBACK_ON_FAILURE" = "true" ] && [ "$PREVIOUS_TASK_DEFINITION" = "none" ]; then
+    echo "No previous task definition was recorded, skipping the rollback"
+  elif [ "$ROLLBACK_ON_FAILURE" = "true" ]; then
+    PREVIOUS=$PREVIOUS_TASK_DEFINITION
+    echo "Rolling back to $PREVIOUS"
+    if [ -n "$CODEDEPLOY_APPLICATION" ]; then
+      APPSPEC=$(printf '{"version":0.0,"Resources":[{"TargetService":{"Type":"AWS::ECS::Service","Properties":{"TaskDefinition":"%s","LoadBalancerInfo":{"ContainerName":"%s","ContainerPort":%s}}}}]}' $PREVIOUS $CONTAINER_NAME $CONTAINER_PORT)
+      aws deploy create-deployment --application-name $CODEDEPLOY_APPLICATION --deployment-group-name $CODEDEPLOY_DEPLOYMENT_GROUP \\
+        --revision "$(jq -n --arg content "$APPSPEC" '{revisionType: "AppSpecContent", appSpecContent: {content: $content}}')"
+    else
+      aws ecs update-service --cluster $ClusterName --service $ServiceName --task-definition $PREVIOUS
+    fi
+  fi
+  exit 1
+fi`;
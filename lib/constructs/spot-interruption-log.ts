@@ -0,0 +1,69 @@
+import * as cdk from "aws-cdk-lib";
+import * as cloudwatch from "aws-cdk-lib/aws-cloudwatch";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as events from "aws-cdk-lib/aws-events";
+import * as targets from "aws-cdk-lib/aws-events-targets";
+import * as kms from "aws-cdk-lib/aws-kms";
+import * as logs from "aws-cdk-lib/aws-logs";
+import { Construct } from "constructs";
+
+/**
+ * SpotInterruptionLogのプロパティ
+ */
+export interface SpotInterruptionLogProps {
+  readonly cluster: ecs.ICluster;
+  readonly logRetention: logs.RetentionDays;
+  readonly removalPolicy: cdk.RemovalPolicy;
+  // ロググループの暗号化に使用するKMSキー（未指定の場合はCloudWatch Logsの既定の暗号化）
+  readonly encryptionKey?: kms.IKey;
+}
+
+/**
+ * Fargate Spotのタスクの中断の記録
+ *
+ * クラスターのタスクがSpotの中断（stopCode: SpotInterruption）で停止したイベントを
+ * EventBridgeでCloudWatch Logsに保存し、メトリクスフィルターで件数をメトリクスにします。
+ * 中断されたタスクはECSが自動で置き換えるため、頻度の確認や調査に使用します。
+ */
+export class SpotInterruptionLog extends Construct {
+  public readonly logGroup: logs.LogGroup;
+  // 中断されたタスク数（LabInfra / SpotInterruptions、1分ごとの合計）
+  public readonly metric: cloudwatch.Metric;
+
+  constructor(scope: Construct, id: string, props: SpotInterruptionLogProps) {
+    super(scope, id);
+
+    // EventBridgeから書き込むロググループは /aws/events/ で始める
+    this.logGroup = new logs.LogGroup(this, "LogGroup", {
+      logGroupName: "/aws/events/lab-infra-spot-interruptions",
+      encryptionKey: props.encryptionKey,
+      retention: props.logRetention,
+      removalPolicy: props.removalPolicy,
+    });
+
+    new events.Rule(this, "Rule", {
+      ruleName: "lab-infra-spot-interruptions",
+      description: "Fargate Spotのタスクの中断をCloudWatch Logsに記録",
+      eventPattern: {
+        source: ["aws.ecs"],
+        detailType: ["ECS Task State Change"],
+        detail: {
+          clusterArn: [props.cluster.clusterArn],
+          lastStatus: ["STOPPED"],
+          stopCode: ["SpotInterruption"],
+        },
+      },
+      // ロググループへの書き込みを許可するリソースポリシーはCDKが追加する
+      targets: [new targets.CloudWatchLogGroup(this.logGroup)],
+    });
+
+    this.metric = new logs.MetricFilter(this, "MetricFilter", {
+      logGroup: this.logGroup,
+      filterPattern: logs.FilterPattern.allEvents(),
+      metricNamespace: "LabInfra",
+      metricName: "SpotInterruptions",
+      metricValue: "1",
+      defaultValue: 0,
+    }).metric({ statistic: "Sum", period: cdk.Duration.minutes(1) });
+  }
+}
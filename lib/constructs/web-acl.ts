@@ -0,0 +1,271 @@
+import * as cdk from "aws-cdk-lib";
+import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as kms from "aws-cdk-lib/aws-kms";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as s3 from "aws-cdk-lib/aws-s3";
+import * as wafv2 from "aws-cdk-lib/aws-wafv2";
+import { Construct } from "constructs";
+import { WafConfig, WafManagedRuleGroup } from "../config/environment-config";
+
+/**
+ * WebAclのプロパティ
+ */
+export interface WebAclProps {
+  readonly config: WafConfig;
+  // ウェブACLを関連付けるALB
+  readonly loadBalancer: elbv2.IApplicationLoadBalancer;
+  readonly logRetention: logs.RetentionDays;
+  readonly removalPolicy: cdk.RemovalPolicy;
+  // ログの保存先の暗号化に使用するKMSキー（未指定の場合はAWS管理のキー）
+  // ロググループに使用する場合は、キーポリシーでCloudWatch Logsにキーの使用を許可しておく
+  readonly encryptionKey?: kms.IKey;
+}
+
+// 設定の名前 → AWSのマネージドルールグループの名前
+const MANAGED_RULE_GROUP_NAMES: Record<WafManagedRuleGroup, string> = {
+  commonRuleSet: "AWSManagedRulesCommonRuleSet",
+  knownBadInputs: "AWSManagedRulesKnownBadInputsRuleSet",
+  ipReputation: "AWSManagedRulesAmazonIpReputationList",
+};
+
+/**
+ * ALBに関連付けるWAFのウェブACL
+ *
+ * 以下を作成します：
+ * - ウェブACL（許可・拒否リスト、IPアドレスごとのレート制限、AWSのマネージドルールグループ）
+ * - 許可・拒否リストのIPセット
+ * - リクエストのログの保存先（CloudWatch Logs または S3、設定した場合のみ）
+ *
+ * ルールごとのブロック数などはCloudWatchのメトリクス（AWS/WAFV2）で確認できます。
+ */
+export class WebAcl extends Construct {
+  public readonly webAcl: wafv2.CfnWebACL;
+
+  constructor(scope: Construct, id: string, props: WebAclProps) {
+    super(scope, id);
+
+    const { config } = props;
+
+    // TypeScript: 配列に push した順がルールの評価順（priority）になる
+    const rules: wafv2.CfnWebACL.RuleProperty[] = [];
+    const addRule = (
+      rule: Omit<wafv2.CfnWebACL.RuleProperty, "priority" | "visibilityConfig">
+    ) => {
+      rules.push({
+        ...rule,
+        priority: rules.length,
+        visibilityConfig: visibilityConfig(`lab-infra-waf-${rule.name}`),
+      });
+    };
+
+    /**
+     * 許可リスト・拒否リスト
+     */
+    if (config.allowedIpCidrs && config.allowedIpCidrs.length > 0) {
+      const allowedIps = new wafv2.CfnIPSet(this, "AllowedIps", {
+        name: "lab-infra-allowed-ips",
+        scope: "REGIONAL",
+        ipAddressVersion: "IPV4",
+        addresses: config.allowedIpCidrs,
+      });
+      addRule({
+        name: "allowed-ips",
+        action: { allow: {} },
+        statement: {
+          ipSetReferenceStatement: { arn: allowedIps.attrArn },
+        },
+      });
+    }
+
+    if (config.blockedIpCidrs && config.blockedIpCidrs.length > 0) {
+      const blockedIps = new wafv2.CfnIPSet(this, "BlockedIps", {
+        name: "lab-infra-blocked-ips",
+        scope: "REGIONAL",
+        ipAddressVersion: "IPV4",
+        addresses: config.blockedIpCidrs,
+      });
+      addRule({
+        name: "blocked-ips",
+        action: { block: {} },
+        statement: {
+          ipSetReferenceStatement: { arn: blockedIps.attrArn },
+        },
+      });
+    }
+
+    /**
+     * レート制限
+     *
+     * 直近5分間のリクエスト数が上限を超えたIPアドレスを、下回るまでブロック
+     */
+    if (config.rateLimitPer5Minutes !== undefined) {
+      addRule({
+        name: "rate-limit",
+        action: { block: {} },
+        statement: {
+          rateBasedStatement: {
+            limit: config.rateLimitPer5Minutes,
+            aggregateKeyType: "IP",
+          },
+        },
+      });
+    }
+
+    /**
+     * AWSのマネージドルールグループ
+     *
+     * ルールグループ内のルールのアクション（ブロック）をそのまま使用する
+     */
+    config.managedRuleGroups.forEach((group) => {
+      const name = MANAGED_RULE_GROUP_NAMES[group];
+      addRule({
+        name,
+        overrideAction: { none: {} },
+        statement: {
+          managedRuleGroupStatement: { vendorName: "AWS", name },
+        },
+      });
+    });
+
+    this.webAcl = new wafv2.CfnWebACL(this, "WebAcl", {
+      name: "lab-infra-web-acl",
+      description: "Lab Infra ALB 用のウェブACL",
+      // ALBに関連付けるウェブACLは REGIONAL（CloudFrontの場合は CLOUDFRONT）
+      scope: "REGIONAL",
+      // どのルールにも一致しないリクエストは許可
+      defaultAction: { allow: {} },
+      visibilityConfig: visibilityConfig("lab-infra-web-acl"),
+      rules,
+    });
+
+    new wafv2.CfnWebACLAssociation(this, "Association", {
+      resourceArn: props.loadBalancer.loadBalancerArn,
+      webAclArn: this.webAcl.attrArn,
+    });
+
+    /**
+     * リクエストのログ（オプション）
+     *
+     * 保存先の名前は "aws-waf-logs-" で始める必要がある
+     */
+    if (config.logDestination) {
+      const logDestination =
+        config.logDestination === "cloudWatchLogs"
+          ? this.createLogGroup(props)
+          : this.createLogBucket(props);
+
+      const loggingConfiguration = new wafv2.CfnLoggingConfiguration(
+        this,
+        "LoggingConfiguration",
+        {
+          resourceArn: this.webAcl.attrArn,
+          logDestinationConfigs: [logDestination.arn],
+        }
+      );
+      // バケットの場合は、バケットポリシーの作成後に配信を開始する
+      loggingConfiguration.node.addDependency(logDestination.resource);
+    }
+  }
+
+  // CloudWatch Logsのロググループ
+  private createLogGroup(props: WebAclProps): LogDestination {
+    const logGroup = new logs.LogGroup(this, "LogGroup", {
+      logGroupName: "aws-waf-logs-lab-infra",
+      encryptionKey: props.encryptionKey,
+      retention: props.logRetention,
+      removalPolicy: props.removalPolicy,
+    });
+
+    return {
+      // WAFには末尾の ":*" を含まないARNを指定する
+      arn: cdk.Stack.of(this).formatArn({
+        service: "logs",
+        resource: "log-group",
+        resourceName: logGroup.logGroupName,
+        arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME,
+      }),
+      resource: logGroup,
+    };
+  }
+
+  // S3バケット
+  private createLogBucket(props: WebAclProps): LogDestination {
+    const bucket = new s3.Bucket(this, "LogBucket", {
+      bucketName: `aws-waf-logs-lab-infra-${cdk.Aws.ACCOUNT_ID}-${cdk.Aws.REGION}`,
+      encryption: props.encryptionKey
+        ? s3.BucketEncryption.KMS
+        : s3.BucketEncryption.S3_MANAGED,
+      encryptionKey: props.encryptionKey,
+      bucketKeyEnabled: props.encryptionKey !== undefined,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      enforceSSL: true,
+      removalPolicy: props.removalPolicy,
+      // autoDeleteObjectsはRemovalPolicy.DESTROYの場合のみ指定可能
+      autoDeleteObjects: props.removalPolicy === cdk.RemovalPolicy.DESTROY,
+      lifecycleRules: [
+        {
+          id: "DeleteOldLogs",
+          enabled: true,
+          expiration: cdk.Duration.days(90),
+        },
+      ],
+    });
+
+    // ログの配信（delivery.logs.amazonaws.com）からの書き込みを許可
+    // 配信の開始時にWAFがバケットポリシーに追加する内容と同じだが、
+    // CDKが管理するバケットポリシーの更新で消えないようにここで定義する
+    const sourceAccount = {
+      "aws:SourceAccount": cdk.Aws.ACCOUNT_ID,
+    };
+    bucket.addToResourcePolicy(
+      new iam.PolicyStatement({
+        principals: [new iam.ServicePrincipal("delivery.logs.amazonaws.com")],
+        actions: ["s3:PutObject"],
+        resources: [bucket.arnForObjects(`AWSLogs/${cdk.Aws.ACCOUNT_ID}/*`)],
+        conditions: {
+          StringEquals: {
+            ...sourceAccount,
+            "s3:x-amz-acl": "bucket-owner-full-control",
+          },
+        },
+      })
+    );
+    bucket.addToResourcePolicy(
+      new iam.PolicyStatement({
+        principals: [new iam.ServicePrincipal("delivery.logs.amazonaws.com")],
+        actions: ["s3:GetBucketAcl"],
+        resources: [bucket.bucketArn],
+        conditions: { StringEquals: sourceAccount },
+      })
+    );
+    // KMSキーで暗号化する場合は、ログの配信にキーの使用を許可
+    props.encryptionKey?.addToResourcePolicy(
+      new iam.PolicyStatement({
+        principals: [new iam.ServicePrincipal("delivery.logs.amazonaws.com")],
+        actions: ["kms:GenerateDataKey*"],
+        resources: ["*"],
+        conditions: { StringEquals: sourceAccount },
+      })
+    );
+
+    return { arn: bucket.bucketArn, resource: bucket };
+  }
+}
+
+// ログの保存先のARNと、LoggingConfigurationより先に作成するリソース
+interface LogDestination {
+  readonly arn: string;
+  readonly resource: Construct;
+}
+
+// CloudWatchのメトリクスとサンプリングしたリクエストを有効化
+function visibilityConfig(
+  metricName: string
+): wafv2.CfnWebACL.VisibilityConfigProperty {
+  return {
+    cloudWatchMetricsEnabled: true,
+    metricName,
+    sampledRequestsEnabled: true,
+  };
+}
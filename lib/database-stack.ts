@@ -0,0 +1,154 @@
+import * as cdk from "aws-cdk-lib";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as rds from "aws-cdk-lib/aws-rds";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
+import { Construct } from "constructs";
+import { DatabaseConfig, EnvironmentConfig } from "./config/environment-config";
+
+/**
+ * DatabaseStackのプロパティ
+ */
+interface DatabaseStackProps extends cdk.StackProps {
+  config: EnvironmentConfig;
+  // TypeScript: config.database は省略可能な型のため、存在を確認した値を別に受け取る
+  database: DatabaseConfig;
+  vpc: ec2.Vpc;
+}
+
+/**
+ * データベーススタック
+ *
+ * このスタックでは、アプリケーションが使用するPostgreSQLデータベースを作成します：
+ * - RDS for PostgreSQL のインスタンス、または Aurora PostgreSQL Serverless v2 のクラスター
+ * - DBサブネットグループ: NetworkStackの分離サブネット（インターネットへの経路なし）
+ * - セキュリティグループ: 接続の許可はFargateServiceStackでサービスのセキュリティグループから追加する
+ * - Secrets Managerのシークレット: 生成した認証情報（username / password など）
+ */
+export class DatabaseStack extends cdk.Stack {
+  public readonly securityGroup: ec2.SecurityGroup;
+  // 接続先（ライターのエンドポイント）
+  public readonly endpoint: rds.Endpoint;
+  public readonly secret: secretsmanager.ISecret;
+  public readonly databaseName: string;
+
+  constructor(scope: Construct, id: string, props: DatabaseStackProps) {
+    super(scope, id, props);
+
+    const { config, database } = props;
+    this.databaseName = database.databaseName;
+
+    /**
+     * セキュリティグループの作成
+     *
+     * インバウンドはFargateServiceStackでサービスのセキュリティグループからのみ許可する
+     * データベースから外部への通信は不要
+     */
+    this.securityGroup = new ec2.SecurityGroup(
+      this,
+      "LabInfraDatabaseSecurityGroup",
+      {
+        securityGroupName: "lab-infra-db-sg",
+        vpc: props.vpc,
+        description: "Lab Infra データベース用のセキュリティグループ",
+        allowAllOutbound: false,
+      }
+    );
+
+    /**
+     * 認証情報のシークレットの作成
+     *
+     * パスワードはSecrets Managerが生成する（テンプレートには含まれない）
+     * データベースの作成後に、接続先（host、port、dbnameなど）が追加される
+     */
+    this.secret = new rds.DatabaseSecret(this, "LabInfraDatabaseSecret", {
+      secretName: "lab-infra/database",
+      username: "labinfra",
+    });
+    this.secret.applyRemovalPolicy(config.removalPolicy);
+
+    // インスタンス・クラスターで共通の設定
+    const common = {
+      vpc: props.vpc,
+      // 分離サブネットに配置（インターネットからは到達できない）
+      vpcSubnets: { subnetType: ec2.SubnetType.PRIVATE_ISOLATED },
+      securityGroups: [this.securityGroup],
+      credentials: rds.Credentials.fromSecret(this.secret),
+      storageEncrypted: true,
+      deletionProtection: database.deletionProtection,
+      // スタック削除時の扱い（dev/stgは削除、prodは保持）
+      removalPolicy: config.removalPolicy,
+    };
+
+    const { engine } = database;
+    if (engine.type === "rdsPostgres") {
+      /**
+       * RDS for PostgreSQL のインスタンス
+       */
+      const instance = new rds.DatabaseInstance(this, "LabInfraDatabase", {
+        ...common,
+        instanceIdentifier: "lab-infra-db",
+        engine: rds.DatabaseInstanceEngine.postgres({
+          version: rds.PostgresEngineVersion.VER_15_3,
+        }),
+        instanceType: new ec2.InstanceType(engine.instanceType),
+        allocatedStorage: engine.allocatedStorageGiB,
+        multiAz: engine.multiAz,
+        databaseName: database.databaseName,
+        // 自動バックアップ（0日の場合は無効）
+        backupRetention: cdk.Duration.days(database.backupRetentionDays),
+        preferredBackupWindow: database.preferredBackupWindow,
+      });
+
+      this.endpoint = instance.instanceEndpoint;
+    } else {
+      /**
+       * Aurora PostgreSQL Serverless v2 のクラスター
+       */
+      const cluster = new rds.DatabaseCluster(this, "LabInfraDatabase", {
+        ...common,
+        clusterIdentifier: "lab-infra-db",
+        engine: rds.DatabaseClusterEngine.auroraPostgres({
+          version: rds.AuroraPostgresEngineVersion.VER_15_2,
+        }),
+        writer: rds.ClusterInstance.serverlessV2("Writer"),
+        // TypeScript: Array.from で指定した数の要素を持つ配列を作成
+        // 読み取り用のインスタンスはライターと同じ容量で動作させ、フェイルオーバー先にする
+        readers: Array.from({ length: engine.readers }, (_, index) =>
+          rds.ClusterInstance.serverlessV2(`Reader${index + 1}`, {
+            scaleWithWriter: true,
+          })
+        ),
+        serverlessV2MinCapacity: engine.minCapacity,
+        serverlessV2MaxCapacity: engine.maxCapacity,
+        defaultDatabaseName: database.databaseName,
+        backup: {
+          retention: cdk.Duration.days(database.backupRetentionDays),
+          preferredWindow: database.preferredBackupWindow,
+        },
+      });
+
+      this.endpoint = cluster.clusterEndpoint;
+    }
+
+    /**
+     * CloudFormation出力
+     */
+    new cdk.CfnOutput(this, "DatabaseEndpoint", {
+      value: this.endpoint.hostname,
+      description: "データベースのエンドポイント",
+      exportName: "LabInfra-DatabaseEndpoint",
+    });
+
+    new cdk.CfnOutput(this, "DatabasePort", {
+      value: cdk.Token.asString(this.endpoint.port),
+      description: "データベースのポート番号",
+      exportName: "LabInfra-DatabasePort",
+    });
+
+    new cdk.CfnOutput(this, "DatabaseSecretArn", {
+      value: this.secret.secretArn,
+      description: "データベースの認証情報のシークレットのARN",
+      exportName: "LabInfra-DatabaseSecretArn",
+    });
+  }
+}
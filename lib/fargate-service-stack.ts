@@ -1,11 +1,32 @@
 // TypeScript: 複数のモジュールを一度にインポート
 // 各行で異なるAWSサービスのライブラリを読み込み
 import * as cdk from "aws-cdk-lib";
+import * as acm from "aws-cdk-lib/aws-certificatemanager";
 import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as ecr from "aws-cdk-lib/aws-ecr";
 import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
 import * as iam from "aws-cdk-lib/aws-iam";
 import * as logs from "aws-cdk-lib/aws-logs";
+import * as route53 from "aws-cdk-lib/aws-route53";
+import * as route53targets from "aws-cdk-lib/aws-route53-targets";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
+import * as servicediscovery from "aws-cdk-lib/aws-servicediscovery";
 import { Construct } from "constructs";
+import { suppressPolicyRule } from "./aspects/policy-checker";
+import { EnvironmentConfig } from "./config/environment-config";
+import { BlueGreenDeployment } from "./constructs/blue-green-deployment";
+import { ContainerService } from "./constructs/container-service";
+import { DeploymentFailureLog } from "./constructs/deployment-failure-log";
+import { EncryptionKey } from "./constructs/encryption-key";
+import { ExecCommandAudit } from "./constructs/exec-command-audit";
+import { ServiceAutoScaling } from "./constructs/service-auto-scaling";
+import { ServiceMonitoring } from "./constructs/service-monitoring";
+import { ServiceSchedule } from "./constructs/service-schedule";
+import { SpotInterruptionLog } from "./constructs/spot-interruption-log";
+import { WebAcl } from "./constructs/web-acl";
+import { DatabaseStack } from "./database-stack";
+import { serviceSubnetType } from "./network-stack";
 
 /**
  * FargateServiceStackのプロパティ
@@ -16,7 +37,9 @@ import { Construct } from "constructs";
 // 「extends」で既存のインターフェースを拡張（Java と同じ）
 interface FargateServiceStackProps extends cdk.StackProps {
   env?: cdk.Environment;
+  config: EnvironmentConfig; // 環境ごとのサイジングや保持期間
   vpc: ec2.Vpc; // プロパティの型を明示的に指定（必須プロパティ）
+  database?: DatabaseStack; // 環境設定に database がある場合のみ
 }
 
 /**
@@ -28,14 +51,38 @@ interface FargateServiceStackProps extends cdk.StackProps {
  * - タスク定義: コンテナの設定（CPU、メモリ、イメージなど）
  * - Fargateサービス: 指定された数のタスクを継続的に実行
  * - セキュリティグループ: ネットワークアクセス制御
+ *
+ * タスク定義からセキュリティグループまではサービスごとに ContainerService で作成する
+ * （メインのサービス + 環境設定の additionalServices）
  */
 export class FargateServiceStack extends cdk.Stack {
   public readonly cluster: ecs.Cluster;
   public readonly service: ecs.FargateService;
+  // TypeScript: 「?」付きのプロパティ = ALBを作成しない環境ではundefined
+  public readonly loadBalancer?: elbv2.ApplicationLoadBalancer;
 
   constructor(scope: Construct, id: string, props: FargateServiceStackProps) {
     super(scope, id, props);
 
+    // TypeScript: 分割代入（destructuring）でpropsからconfigを取り出す
+    const { config } = props;
+
+    /**
+     * カスタマー管理のKMSキー（オプション）
+     *
+     * このスタックのS3バケット、ロググループ、ECS Execのセッションの暗号化に使用
+     * 未指定の場合はAWS管理のキーで暗号化する
+     */
+    const encryptionKey = config.encryption
+      ? new EncryptionKey(this, "LabInfraServiceKey", {
+          alias: "alias/lab-infra-service",
+          description: "Lab Infra サービスのバケット・ログ・ECS Execの暗号化",
+          removalPolicy: config.removalPolicy,
+          pendingWindowDays: config.encryption.pendingWindowDays,
+          allowCloudWatchLogs: true,
+        })
+      : undefined;
+
     /**
      * CloudWatch Logs グループの作成
      *
@@ -46,13 +93,29 @@ export class FargateServiceStack extends cdk.Stack {
     // 型推論により logGroup の型は自動的に logs.LogGroup になる
     const logGroup = new logs.LogGroup(this, "LabInfraLogGroup", {
       logGroupName: "/aws/ecs/lab-infra",
+      // undefined の場合はCloudWatch Logsの既定の暗号化
+      encryptionKey,
       // ログの保持期間（日数）
-      // 学習目的のため短期間に設定（コスト削減）
-      retention: logs.RetentionDays.ONE_WEEK, // enum値
-      // スタック削除時にロググループも削除
-      removalPolicy: cdk.RemovalPolicy.DESTROY, // enum値
+      // devは学習目的のため短期間に設定（コスト削減）
+      retention: config.logRetention, // enum値
+      // スタック削除時の扱い（dev/stgは削除、prodは保持）
+      removalPolicy: config.removalPolicy, // enum値
     });
 
+    /**
+     * ECS Execのセッションの暗号化と記録（オプション）
+     *
+     * 実行中のコンテナでコマンドを実行する（aws ecs execute-command）場合のみ作成
+     */
+    const execCommandAudit = config.execCommand
+      ? new ExecCommandAudit(this, "LabInfraExecCommandAudit", {
+          config: config.execCommand,
+          logRetention: config.logRetention,
+          removalPolicy: config.removalPolicy,
+          encryptionKey,
+        })
+      : undefined;
+
     /**
      * ECSクラスターの作成
      *
@@ -66,8 +129,25 @@ export class FargateServiceStack extends cdk.Stack {
 
       // Container Insightsの有効化（オプション）
       // コンテナレベルのメトリクスとログを収集（追加料金が発生する可能性）
-      // 学習目的のため無効化
-      containerInsights: false,
+      // 監視を行う環境のみ有効化（タスク数のメトリクスに使用）
+      containerInsights: config.monitoring !== undefined,
+
+      // キャパシティプロバイダー（FARGATE / FARGATE_SPOT）を有効化
+      // サービスごとの配分は環境設定の capacity で指定する（未指定のサービスはオンデマンド）
+      enableFargateCapacityProviders: true,
+
+      // サービスディスカバリーの名前空間（オプション）
+      // VPC内でのみ名前解決できるプライベートDNSの名前空間（例: api.lab.local）
+      // Service Connectのデフォルトの名前空間としても使用する
+      defaultCloudMapNamespace: config.serviceDiscovery && {
+        name: config.serviceDiscovery.namespace,
+        type: servicediscovery.NamespaceType.DNS_PRIVATE,
+        vpc: props.vpc,
+        useForServiceConnect: true,
+      },
+
+      // ECS Execのセッションの暗号化とログの保存先（オプション）
+      executeCommandConfiguration: execCommandAudit?.configuration,
     });
 
     /**
@@ -95,191 +175,633 @@ export class FargateServiceStack extends cdk.Stack {
     );
 
     /**
-     * タスクロールの作成（オプション）
+     * シークレットの作成（オプション）
      *
-     * コンテナ内のアプリケーションが他のAWSサービスにアクセスする際に使用
-     * 現在は基本的な権限のみ設定
+     * 値は作成時にランダムに生成し、コンテナには環境変数として注入する
+     * （タスク定義には値を含めない）
      */
-    const taskRole = new iam.Role(this, "LabInfraTaskRole", {
-      roleName: "LabInfraTaskRole",
-      assumedBy: new iam.ServicePrincipal("ecs-tasks.amazonaws.com"),
-      description: "ECS Fargate タスク内のアプリケーション用のIAMロール",
+    // TypeScript: Record<キーの型, 値の型> = キーが文字列のMap
+    const managedSecrets: Record<string, secretsmanager.ISecret> = {};
+    (config.secrets ?? []).forEach((secretConfig, index) => {
+      managedSecrets[secretConfig.secretName] = new secretsmanager.Secret(
+        this,
+        `LabInfraSecret${index}`,
+        {
+          secretName: secretConfig.secretName,
+          description: secretConfig.description,
+          generateSecretString: {
+            passwordLength: secretConfig.passwordLength ?? 32,
+            excludePunctuation: secretConfig.excludePunctuation,
+            // JSONの場合は固定値のテンプレートに生成した値を追加する
+            secretStringTemplate:
+              secretConfig.json && JSON.stringify(secretConfig.json.template),
+            generateStringKey: secretConfig.json?.generateKey,
+          },
+          // スタック削除時の扱い（dev/stgは削除、prodは保持）
+          removalPolicy: config.removalPolicy,
+        }
+      );
     });
 
+    // 全てのサービスで共通の設定（クラスター、タスク実行ロール、ログ、ネットワーク）
+    const serviceNetwork = {
+      cluster: this.cluster,
+      vpc: props.vpc,
+      executionRole: taskExecutionRole,
+      logGroup,
+      environment: {
+        ENVIRONMENT: config.displayName.toLowerCase(), // 例: "development"
+      },
+      vpcSubnets: {
+        // publicSubnetモードではパブリックサブネットに配置
+        // それ以外はVPCエンドポイントまたはNATを経由するプライベートサブネットに配置
+        subnetType: serviceSubnetType(config.network.egress),
+      },
+      // パブリックサブネットでインターネットアクセスを行う場合のみ必要
+      assignPublicIp: config.network.egress === "publicSubnet",
+      managedSecrets,
+      enableExecuteCommand: execCommandAudit !== undefined,
+    };
+
+    // TypeScript: 判別可能なユニオン型はstrategyの値で絞り込める
+    const blueGreen =
+      config.service.deployment?.strategy === "blueGreen"
+        ? config.service.deployment
+        : undefined;
+    const rolling =
+      config.service.deployment?.strategy === "rolling"
+        ? config.service.deployment
+        : undefined;
+
     /**
-     * Fargateタスク定義の作成
+     * パイプラインでビルドしたイメージ（オプション）
      *
-     * タスク定義は、コンテナの実行に必要な設定を定義します：
-     * - 使用するCPUとメモリ
-     * - コンテナイメージ
-     * - ネットワーク設定
-     * - ログ設定など
+     * パイプラインのsynthではImageBuildでプッシュしたイメージのタグが渡されるため、
+     * CloudFormationのタスク定義も同じイメージになり、スタックの更新でイメージが戻らない
+     * タグがない場合（パイプラインの初回実行前など）は service.containers の image を使用する
      */
-    const taskDefinition = new ecs.FargateTaskDefinition(
-      this,
-      "LabInfraTaskDefinition",
-      {
-        family: "lab-infra-task",
-
-        // CPU設定（vCPU単位）
-        // 256 = 0.25 vCPU（最小値）
-        // 他の選択肢: 512 (0.5), 1024 (1.0), 2048 (2.0), 4096 (4.0)
-        cpu: 256,
-
-        // メモリ設定（MB単位）
-        // CPUとメモリの組み合わせには制約があります
-        // CPU 256の場合: 512MB, 1024MB, 2048MBが選択可能
-        memoryLimitMiB: 512,
-
-        // IAMロールの設定
-        executionRole: taskExecutionRole, // タスク実行用（ECSサービスが使用）
-        taskRole: taskRole, // アプリケーション用（コンテナ内から使用）
-      }
-    );
+    const { imageBuild } = config.pipeline;
+    const builtImages: Record<string, ecs.ContainerImage> = {};
+    if (imageBuild?.imageTag) {
+      // リポジトリはPipelineStackで作成されるため、名前から参照する
+      // （プルの権限はCDKがタスク実行ロールに付与する）
+      builtImages[imageBuild.containerName] =
+        ecs.ContainerImage.fromEcrRepository(
+          ecr.Repository.fromRepositoryName(
+            this,
+            "LabInfraAppRepository",
+            imageBuild.repositoryName
+          ),
+          imageBuild.imageTag
+        );
+    } else if (imageBuild) {
+      cdk.Annotations.of(this).addWarning(
+        `LAB_INFRA_IMAGE_TAG が未指定のため、${imageBuild.containerName} は service.containers の image でデプロイされます。` +
+          "パイプラインでビルドしたイメージで実行中のサービスに手動でデプロイする場合は、デプロイ済みのイメージのタグを指定してください。"
+      );
+    }
 
     /**
-     * コンテナ定義の追加
+     * メインのFargateサービスの作成
      *
-     * タスク定義にコンテナの詳細設定を追加します
+     * タスク定義（コンテナの設定）とサービスを環境設定の service から作成する
+     * ALBのデフォルトのターゲットになり、パイプラインのリリースや監視の対象になる
      */
-    // TypeScript: メソッドの戻り値を変数に代入
-    // addContainer メソッドは ecs.ContainerDefinition 型を返す
-    const container = taskDefinition.addContainer("LabInfraContainer", {
-      containerName: "lab-infra-container",
-
-      // 使用するDockerイメージ
-      // amazon/amazon-ecs-sample は、AWSが提供する学習用のサンプルイメージ
-      // シンプルなWebサーバーが含まれており、ポート80でHTTPリクエストに応答
-      image: ecs.ContainerImage.fromRegistry("amazon/amazon-ecs-sample"),
-
-      // メモリ制限（MB単位）
-      // タスク定義のメモリ制限内で設定
-      memoryLimitMiB: 512, // number型
-
-      // 必須コンテナかどうか
-      // trueの場合、このコンテナが停止するとタスク全体が停止
-      essential: true, // boolean型（Java と同じ）
-
-      // ログ設定
-      logging: ecs.LogDrivers.awsLogs({
-        streamPrefix: "lab-infra",
-        logGroup: logGroup, // 上で定義した変数を参照
-      }),
-
-      // TypeScript: オブジェクトリテラルで環境変数を定義
-      // key-value ペアの形式（Java の Map<String, String> に相当）
-      environment: {
-        APP_NAME: "LabInfra",
-        ENVIRONMENT: "development",
-      },
+    // コンストラクトのIDを "Default" にすると論理IDの計算から除かれるため、
+    // 配下のリソース（LabInfraService など）はスタック直下に作成した場合と同じ論理IDになる
+    // （名前付きのリソースが置き換えにならないよう、既存の論理IDを維持している）
+    const mainService = new ContainerService(this, "Default", {
+      ...serviceNetwork,
+      spec: config.service,
+      images: builtImages,
+      taskRoleName: "LabInfraTaskRole",
+      securityGroupName: "lab-infra-fargate-sg",
+      logStreamPrefix: "lab-infra",
+      // Blue/Greenデプロイの場合はCodeDeployがタスクセットの切り替えを行う
+      deploymentController: blueGreen
+        ? { type: ecs.DeploymentControllerType.CODE_DEPLOY }
+        : undefined,
+      circuitBreaker: rolling?.circuitBreaker,
     });
+    this.service = mainService.service;
+    const securityGroup = mainService.securityGroup;
+    const { ingress } = config.service;
 
-    // TypeScript: 上で定義したcontainer変数のメソッドを呼び出し
-    // void型のメソッド（戻り値なし、Java のvoidメソッドと同じ）
-    // コンテナのポートマッピング設定
-    // コンテナ内のポート80を外部に公開
-    container.addPortMappings({
-      containerPort: 80, // number型
-      protocol: ecs.Protocol.TCP, // enum型
-      name: "http", // string型
-    });
+    // スモークテストの失敗時にデプロイ前のタスク定義に戻せるように、
+    // スタックの更新で置き換えたタスク定義を登録解除しない（INACTIVEのタスク定義にはサービスを更新できない）
+    if (config.pipeline.smokeTest?.rollbackOnFailure) {
+      mainService.taskDefinition.applyRemovalPolicy(cdk.RemovalPolicy.RETAIN);
+    }
 
     /**
-     * セキュリティグループの作成
+     * データベースへの接続（オプション）
      *
-     * Fargateサービスのネットワークアクセスを制御
-     * ファイアウォールのような役割を果たす
+     * DatabaseStackのデータベースへの接続をメインのサービスからのみ許可し、
+     * 接続情報をコンテナの環境変数に注入する（ユーザー名とパスワードはシークレットから）
      */
-    const securityGroup = new ec2.SecurityGroup(this, "LabInfraSecurityGroup", {
-      securityGroupName: "lab-infra-fargate-sg",
-      vpc: props.vpc,
-      description: "Lab Infra Fargate サービス用のセキュリティグループ",
+    const { database } = props;
+    if (database && config.database) {
+      // 最後の引数（remoteRule）をtrueにすると、ルールは送信元（このスタック）に作成される
+      // （DatabaseStackからこのスタックへの参照がなく、スタック間の循環参照にならない）
+      database.securityGroup.addIngressRule(
+        securityGroup,
+        ec2.Port.tcp(database.endpoint.port),
+        "PostgreSQL from Fargate service",
+        true
+      );
+
+      const container = mainService.containers[config.database.containerName];
+      container.addEnvironment("DB_HOST", database.endpoint.hostname);
+      container.addEnvironment(
+        "DB_PORT",
+        cdk.Token.asString(database.endpoint.port)
+      );
+      container.addEnvironment("DB_NAME", database.databaseName);
+      container.addSecret(
+        "DB_USERNAME",
+        ecs.Secret.fromSecretsManager(database.secret, "username")
+      );
+      container.addSecret(
+        "DB_PASSWORD",
+        ecs.Secret.fromSecretsManager(database.secret, "password")
+      );
+    }
 
-      // アウトバウンド（送信）トラフィックをすべて許可
-      // インターネットへのアクセスが必要な場合に設定
-      allowAllOutbound: true,
+    /**
+     * 追加のサービスの作成（オプション）
+     *
+     * 共有クラスターで実行する他のサービス（ALBへの登録は下のリスナールールで行う）
+     */
+    const additionalServices = (config.additionalServices ?? []).map((spec) => {
+      // "lab-infra-api" → "Api"（IAMロールやコンストラクトのIDに使用）
+      const suffix = toPascalCase(spec.serviceName.replace(/^lab-infra-/, ""));
+      return {
+        spec,
+        containerService: new ContainerService(
+          this,
+          `LabInfra${suffix}Service`,
+          {
+            ...serviceNetwork,
+            spec,
+            taskRoleName: `LabInfra${suffix}TaskRole`,
+            securityGroupName: `${spec.serviceName}-sg`,
+            logStreamPrefix: spec.serviceName,
+            circuitBreaker: spec.deployment?.circuitBreaker,
+          }
+        ),
+      };
     });
 
-    // TypeScript: メソッドの引数に静的メソッドの結果を渡す
-    // ec2.Peer.anyIpv4() = 静的メソッド呼び出し（Java の static メソッドと同じ）
-    // インバウンド（受信）ルールの追加
-    // ポート80（HTTP）への外部からのアクセスを許可
-    securityGroup.addIngressRule(
-      ec2.Peer.anyIpv4(), // 送信元: 任意のIPアドレス（0.0.0.0/0）
-      ec2.Port.tcp(80), // ポート: TCP 80番
-      "HTTP traffic from anywhere" // ルールの説明
-    );
-
-    // HTTPS用のポート443も必要に応じて追加可能
-    // securityGroup.addIngressRule(
-    //   ec2.Peer.anyIpv4(),
-    //   ec2.Port.tcp(443),
-    //   'HTTPS traffic from anywhere'
-    // );
-
     /**
-     * Fargateサービスの作成
+     * サービス間の通信の許可
      *
-     * 指定されたタスク定義を使用して、継続的にコンテナを実行するサービス
-     * 高可用性とスケーラビリティを提供
+     * 名前空間に登録したサービスへは、allowedCallers のサービスからの通信のみ許可する
      */
-    this.service = new ecs.FargateService(this, "LabInfraService", {
-      serviceName: "lab-infra-service",
-      cluster: this.cluster, // 実行するクラスター
-      taskDefinition: taskDefinition, // 使用するタスク定義
-
-      // 希望するタスク数
-      // 学習目的のため1つに設定（コスト削減）
-      // 本格運用では2つ以上を推奨（高可用性のため）
-      desiredCount: 1,
+    const allServices = [
+      { spec: config.service, containerService: mainService },
+      ...additionalServices,
+    ];
+    for (const callee of allServices) {
+      const { discovery } = callee.spec;
+      const port = callee.containerService.discoveryPort;
+      if (!discovery || port === undefined) {
+        continue;
+      }
+      (discovery.allowedCallers ?? []).forEach((callerName) => {
+        // 呼び出し元のサービスは環境設定の読み込み時に確認済み
+        const caller = allServices.find(
+          (candidate) => candidate.spec.serviceName === callerName
+        );
+        if (caller) {
+          callee.containerService.securityGroup.connections.allowFrom(
+            caller.containerService.securityGroup,
+            ec2.Port.tcp(port),
+            `${callerName} to ${callee.spec.serviceName}`
+          );
+        }
+      });
+    }
 
-      // ネットワーク設定
-      vpcSubnets: {
-        // パブリックサブネットに配置
-        // プライベートサブネットを使用する場合はNATゲートウェイが必要
-        subnetType: ec2.SubnetType.PUBLIC,
-      },
+    /**
+     * Fargate Spotの中断の記録（オプション）
+     *
+     * Spotを使用するサービスがある場合のみ作成
+     */
+    const spotInterruptionLog = allServices.some(
+      ({ spec }) => (spec.capacity?.spotWeight ?? 0) > 0
+    )
+      ? new SpotInterruptionLog(this, "LabInfraSpotInterruptionLog", {
+          cluster: this.cluster,
+          logRetention: config.logRetention,
+          removalPolicy: config.removalPolicy,
+          encryptionKey,
+        })
+      : undefined;
 
-      // セキュリティグループの設定
-      securityGroups: [securityGroup],
+    /**
+     * デプロイの失敗の記録（オプション）
+     *
+     * サーキットブレーカーやデプロイのアラームでデプロイを失敗させるサービスがある場合のみ作成
+     * 監視を行う環境では、アラームと同じSNSトピックにも通知する
+     */
+    const guardedServices = [
+      ...(rolling?.circuitBreaker || rolling?.deploymentAlarms
+        ? [this.service]
+        : []),
+      ...additionalServices
+        .filter(({ spec }) => spec.deployment?.circuitBreaker)
+        .map(({ containerService }) => containerService.service),
+    ];
+    const deploymentFailureLog =
+      guardedServices.length > 0
+        ? new DeploymentFailureLog(this, "LabInfraDeploymentFailureLog", {
+            services: guardedServices,
+            logRetention: config.logRetention,
+            removalPolicy: config.removalPolicy,
+            encryptionKey,
+          })
+        : undefined;
 
-      // パブリックIPの自動割り当て
-      // パブリックサブネットでインターネットアクセスを行う場合に必要
-      assignPublicIp: true,
+    /**
+     * Application Load Balancerの作成（オプション）
+     *
+     * ALBを使用すると、タスクの再デプロイでパブリックIPが変わっても
+     * 固定のDNS名でサービスにアクセスできる
+     * 環境設定に loadBalancer がない場合は作成しない
+     */
+    // TypeScript: let で再代入可能な変数を宣言（ALBを作成した場合のみ値が入る）
+    let targetGroup: elbv2.ApplicationTargetGroup | undefined;
+    // サービスへのリクエストを受け付けるリスナー（カスタムドメインがある場合はHTTPS）
+    let serviceListener: elbv2.ApplicationListener | undefined;
+    let healthCheck: elbv2.HealthCheck | undefined;
+
+    if (config.loadBalancer) {
+      // ALB用のセキュリティグループ
+      // インターネットからのHTTPアクセス（カスタムドメインがある場合はHTTPSも）を受け付ける
+      const loadBalancerSecurityGroup = new ec2.SecurityGroup(
+        this,
+        "LabInfraLoadBalancerSecurityGroup",
+        {
+          securityGroupName: "lab-infra-alb-sg",
+          vpc: props.vpc,
+          description: "Lab Infra ALB 用のセキュリティグループ",
+          allowAllOutbound: true,
+        }
+      );
+      loadBalancerSecurityGroup.addIngressRule(
+        ec2.Peer.anyIpv4(),
+        ec2.Port.tcp(80),
+        "HTTP traffic from anywhere"
+      );
+      suppressPolicyRule(
+        loadBalancerSecurityGroup,
+        "OpenIngress",
+        "ALBはインターネットに公開するサービスの入口のため"
+      );
+
+      // インターネット向けALBをパブリックサブネットに配置
+      this.loadBalancer = new elbv2.ApplicationLoadBalancer(
+        this,
+        "LabInfraLoadBalancer",
+        {
+          loadBalancerName: "lab-infra-alb",
+          vpc: props.vpc,
+          internetFacing: true,
+          vpcSubnets: { subnetType: ec2.SubnetType.PUBLIC },
+          securityGroup: loadBalancerSecurityGroup,
+        }
+      );
+
+      // ヘルスチェック設定
+      // 異常と判定されたタスクにはトラフィックが送られず、ECSにより置き換えられる
+      healthCheck = {
+        path: config.loadBalancer.healthCheckPath,
+        interval: cdk.Duration.seconds(
+          config.loadBalancer.healthCheckIntervalSeconds
+        ),
+        healthyHttpCodes: config.loadBalancer.healthyHttpCodes,
+      };
+
+      // ターゲットグループ
+      // Fargate（awsvpcネットワークモード）のタスクはIPアドレスで登録される
+      targetGroup = new elbv2.ApplicationTargetGroup(
+        this,
+        "LabInfraTargetGroup",
+        {
+          targetGroupName: "lab-infra-tg",
+          vpc: props.vpc,
+          port: 80,
+          protocol: elbv2.ApplicationProtocol.HTTP,
+          targetType: elbv2.TargetType.IP,
+
+          healthCheck,
+
+          // 登録解除の待機時間（デフォルト300秒）
+          // 学習用のため短くしてデプロイ時間を短縮
+          deregistrationDelay: cdk.Duration.seconds(30),
+        }
+      );
+
+      const { customDomain } = config.loadBalancer;
+      if (customDomain) {
+        /**
+         * カスタムドメインとHTTPS
+         *
+         * ACMの証明書をホストゾーンのDNSレコードで検証し、HTTPSリスナーに設定
+         * HTTPリスナーはHTTPSへのリダイレクト（301）のみを行う
+         */
+        // TypeScript: 条件演算子で型の異なる2つのクラスを route53.IHostedZone として扱う
+        const hostedZone =
+          customDomain.hostedZone === "lookup"
+            ? route53.HostedZone.fromLookup(this, "LabInfraHostedZone", {
+                domainName: customDomain.hostedZoneName,
+              })
+            : new route53.PublicHostedZone(this, "LabInfraHostedZone", {
+                zoneName: customDomain.hostedZoneName,
+              });
+
+        if (hostedZone instanceof route53.PublicHostedZone) {
+          hostedZone.applyRemovalPolicy(config.removalPolicy);
+
+          // 親ドメインのDNSに登録するネームサーバー
+          // 登録するまで証明書の検証が完了せず、スタックの作成が待機し続ける
+          new cdk.CfnOutput(this, "HostedZoneNameServers", {
+            value: cdk.Fn.join(",", hostedZone.hostedZoneNameServers ?? []),
+            description:
+              "作成したホストゾーンのネームサーバー（親ドメインにNSレコードとして登録）",
+          });
+        }
+
+        const certificate = new acm.Certificate(this, "LabInfraCertificate", {
+          domainName: customDomain.domainName,
+          validation: acm.CertificateValidation.fromDns(hostedZone),
+        });
+
+        loadBalancerSecurityGroup.addIngressRule(
+          ec2.Peer.anyIpv4(),
+          ec2.Port.tcp(443),
+          "HTTPS traffic from anywhere"
+        );
+
+        // HTTPリスナー（ポート80）はHTTPSへリダイレクト
+        this.loadBalancer.addListener("LabInfraHttpListener", {
+          port: 80,
+          protocol: elbv2.ApplicationProtocol.HTTP,
+          defaultAction: elbv2.ListenerAction.redirect({
+            protocol: "HTTPS",
+            port: "443",
+            permanent: true,
+          }),
+        });
+
+        // HTTPSリスナー（ポート443）
+        // ALBでTLSを終端し、タスクへはHTTPで転送する
+        serviceListener = this.loadBalancer.addListener(
+          "LabInfraHttpsListener",
+          {
+            port: 443,
+            protocol: elbv2.ApplicationProtocol.HTTPS,
+            certificates: [certificate],
+            defaultTargetGroups: [targetGroup],
+          }
+        );
+
+        // ドメイン名 → ALB のエイリアスレコード
+        new route53.ARecord(this, "LabInfraAliasRecord", {
+          zone: hostedZone,
+          recordName: customDomain.domainName,
+          target: route53.RecordTarget.fromAlias(
+            new route53targets.LoadBalancerTarget(this.loadBalancer)
+          ),
+        });
+      } else {
+        // HTTPリスナー（ポート80）
+        serviceListener = this.loadBalancer.addListener(
+          "LabInfraHttpListener",
+          {
+            port: 80,
+            protocol: elbv2.ApplicationProtocol.HTTP,
+            defaultTargetGroups: [targetGroup],
+          }
+        );
+      }
 
-      // プラットフォームバージョン
-      // 'LATEST'を指定すると最新バージョンを使用
-      platformVersion: ecs.FargatePlatformVersion.LATEST,
+      // サービスのセキュリティグループはALBからのトラフィックのみ許可
+      // TypeScript: connectionsプロパティ = セキュリティグループ間の許可を簡潔に書くためのヘルパー
+      securityGroup.connections.allowFrom(
+        loadBalancerSecurityGroup,
+        ec2.Port.tcp(ingress.containerPort),
+        "HTTP traffic from ALB"
+      );
+
+      // 追加のサービスは、リスナールールのパスに一致するリクエストのみ振り分ける
+      // （一致しないリクエストはメインのサービスへ）
+      for (const { spec, containerService } of additionalServices) {
+        if (!spec.listenerRule || !spec.ingress) {
+          continue;
+        }
+        const id = containerService.node.id;
+        const additionalTargetGroup = new elbv2.ApplicationTargetGroup(
+          this,
+          `${id}TargetGroup`,
+          {
+            targetGroupName: `${spec.serviceName}-tg`,
+            vpc: props.vpc,
+            port: spec.ingress.containerPort,
+            protocol: elbv2.ApplicationProtocol.HTTP,
+            targetType: elbv2.TargetType.IP,
+            healthCheck: {
+              ...healthCheck,
+              path: spec.listenerRule.healthCheckPath,
+            },
+            deregistrationDelay: cdk.Duration.seconds(30),
+          }
+        );
+        additionalTargetGroup.addTarget(
+          containerService.service.loadBalancerTarget(spec.ingress)
+        );
+        serviceListener.addTargetGroups(`${id}ListenerRule`, {
+          targetGroups: [additionalTargetGroup],
+          priority: spec.listenerRule.priority,
+          conditions: [
+            elbv2.ListenerCondition.pathPatterns(
+              spec.listenerRule.pathPatterns
+            ),
+          ],
+        });
+        containerService.securityGroup.connections.allowFrom(
+          loadBalancerSecurityGroup,
+          ec2.Port.tcp(spec.ingress.containerPort),
+          "HTTP traffic from ALB"
+        );
+      }
 
-      // サービスの更新設定
-      // ローリングアップデート時の設定
-      maxHealthyPercent: 200, // 更新中に実行可能なタスクの最大割合
-      minHealthyPercent: 50, // 更新中に実行必須なタスクの最小割合
+      /**
+       * WAF（オプション）
+       *
+       * ALBへのリクエストをウェブACLのルールで検査し、不正なリクエストをブロック
+       */
+      if (config.loadBalancer.waf) {
+        const webAcl = new WebAcl(this, "LabInfraWebAcl", {
+          config: config.loadBalancer.waf,
+          loadBalancer: this.loadBalancer,
+          logRetention: config.logRetention,
+          removalPolicy: config.removalPolicy,
+          encryptionKey,
+        });
+
+        new cdk.CfnOutput(this, "WebAclArn", {
+          value: webAcl.webAcl.attrArn,
+          description: "ALBに関連付けたウェブACLのARN",
+          exportName: "LabInfra-WebAclArn",
+        });
+      }
+    } else {
+      // TypeScript: メソッドの引数に静的メソッドの結果を渡す
+      // ec2.Peer.anyIpv4() = 静的メソッド呼び出し（Java の static メソッドと同じ）
+      // インバウンド（受信）ルールの追加
+      // ALBを使用しない場合は、メインのサービスのポート（HTTP）への外部からのアクセスを許可
+      securityGroup.addIngressRule(
+        ec2.Peer.anyIpv4(), // 送信元: 任意のIPアドレス（0.0.0.0/0）
+        ec2.Port.tcp(ingress.containerPort), // ポート: 例 TCP 80番
+        "HTTP traffic from anywhere" // ルールの説明
+      );
+      suppressPolicyRule(
+        securityGroup,
+        "OpenIngress",
+        "ALBを作成しない環境（dev）では、コスト削減のためタスクのパブリックIPで直接公開する"
+      );
+    }
+
+    // ALBを作成した場合は、サービスのタスクをターゲットグループに登録
+    if (targetGroup) {
+      targetGroup.addTarget(this.service.loadBalancerTarget(ingress));
+    }
 
-      // ヘルスチェック猶予期間（秒）
-      // サービス開始後、ヘルスチェックを開始するまでの待機時間
-      healthCheckGracePeriod: cdk.Duration.seconds(60),
-    });
+    /**
+     * Blue/Greenデプロイ（オプション）
+     *
+     * CodeDeployのアプリケーションとデプロイグループを作成
+     * パイプラインのReleaseステージからこのデプロイグループにデプロイする
+     * （ALBの存在は設定の検証で確認済み）
+     */
+    // サービスのタスクが登録されるターゲットグループ（監視で使用）
+    const serviceTargetGroups = targetGroup ? [targetGroup] : [];
+
+    if (
+      blueGreen &&
+      this.loadBalancer &&
+      serviceListener &&
+      targetGroup &&
+      healthCheck
+    ) {
+      const blueGreenDeployment = new BlueGreenDeployment(
+        this,
+        "LabInfraBlueGreenDeployment",
+        {
+          service: this.service,
+          config: blueGreen,
+          vpc: props.vpc,
+          loadBalancer: this.loadBalancer,
+          productionListener: serviceListener,
+          blueTargetGroup: targetGroup,
+          healthCheck,
+          // PipelineStackから名前で参照する
+          applicationName: "lab-infra-service",
+          deploymentGroupName: "lab-infra-service-dg",
+        }
+      );
+
+      serviceTargetGroups.push(blueGreenDeployment.greenTargetGroup);
+
+      new cdk.CfnOutput(this, "DeploymentGroupName", {
+        value: blueGreenDeployment.deploymentGroup.deploymentGroupName,
+        description: "CodeDeployのデプロイグループ名",
+        exportName: "LabInfra-DeploymentGroupName",
+      });
+    }
 
     /**
      * Auto Scaling設定（オプション）
      *
      * 負荷に応じてタスク数を自動調整
-     * 学習目的のため現在はコメントアウト
+     * 環境設定の service.autoScaling で有効化するポリシーを選択（未指定の場合は無効）
+     * スケジュールによる停止・再開もスケーラブルターゲットを使うため、どちらかが有効なら作成する
      */
-    /*
-    const scaling = this.service.autoScaleTaskCount({
-      minCapacity: 1,  // 最小タスク数
-      maxCapacity: 10, // 最大タスク数
-    });
+    const { autoScaling, schedule } = config.service;
+    if (autoScaling || schedule) {
+      const scaling = new ServiceAutoScaling(
+        this,
+        "LabInfraServiceAutoScaling",
+        {
+          service: this.service,
+          config: autoScaling,
+          desiredCount: config.service.desiredCount,
+          targetGroup,
+        }
+      );
+
+      /**
+       * スケジュールによる停止・再開（オプション）
+       *
+       * 夜間・休日はタスク数を0にして費用を削減
+       */
+      if (schedule) {
+        new ServiceSchedule(this, "LabInfraServiceSchedule", {
+          service: this.service,
+          scalableTarget: scaling.scalableTarget,
+          config: schedule,
+          awakeMinCapacity: scaling.minCapacity,
+          awakeMaxCapacity: scaling.maxCapacity,
+          logRetention: config.logRetention,
+        });
+      }
+    }
 
-    // CPU使用率に基づくスケーリング
-    scaling.scaleOnCpuUtilization('CpuScaling', {
-      targetUtilizationPercent: 70, // CPU使用率70%でスケールアウト
-      scaleInCooldown: cdk.Duration.seconds(300),  // スケールイン間隔
-      scaleOutCooldown: cdk.Duration.seconds(300), // スケールアウト間隔
-    });
-    */
+    /**
+     * 監視（オプション）
+     *
+     * ダッシュボードとアラームを作成し、アラームをSNSトピックで通知
+     */
+    if (config.monitoring) {
+      const monitoring = new ServiceMonitoring(
+        this,
+        "LabInfraServiceMonitoring",
+        {
+          service: this.service,
+          logGroup,
+          config: config.monitoring,
+          logRetention: config.logRetention,
+          loadBalancer: this.loadBalancer,
+          targetGroups: serviceTargetGroups,
+          spotInterruptions: spotInterruptionLog?.metric,
+          deploymentFailures: deploymentFailureLog?.metric,
+        }
+      );
+      deploymentFailureLog?.notify(monitoring.alarmTopic);
+
+      // デプロイのアラーム（オプション）
+      // デプロイ中にアラーム状態になった場合はデプロイを失敗させる（rollback の場合は直前のデプロイに戻す）
+      if (rolling?.deploymentAlarms) {
+        this.service.enableDeploymentAlarms(monitoring.deploymentAlarmNames, {
+          behavior: rolling.deploymentAlarms.rollback
+            ? ecs.AlarmBehavior.ROLLBACK_ON_ALARM
+            : ecs.AlarmBehavior.FAIL_ON_ALARM,
+        });
+      }
+
+      new cdk.CfnOutput(this, "AlarmTopicArn", {
+        value: monitoring.alarmTopic.topicArn,
+        description: "アラーム通知先のSNSトピックのARN",
+        exportName: "LabInfra-AlarmTopicArn",
+      });
+
+      new cdk.CfnOutput(this, "DashboardName", {
+        value: monitoring.dashboard.dashboardName,
+        description: "CloudWatchダッシュボード名",
+        exportName: "LabInfra-DashboardName",
+      });
+    }
 
     /**
      * CloudFormation出力
@@ -310,8 +832,44 @@ export class FargateServiceStack extends cdk.Stack {
       exportName: "LabInfra-ServiceArn",
     });
 
+    if (this.loadBalancer) {
+      new cdk.CfnOutput(this, "LoadBalancerDnsName", {
+        value: this.loadBalancer.loadBalancerDnsName,
+        description: "ALBのDNS名（http://[DNS名] でサービスにアクセス）",
+        exportName: "LabInfra-LoadBalancerDnsName",
+      });
+
+      // カスタムドメインがある場合は https://[ドメイン名]、ない場合は http://[ALBのDNS名]
+      // パイプラインのスモークテストもこのURLにリクエストする
+      const customDomain = config.loadBalancer?.customDomain;
+      new cdk.CfnOutput(this, "ServiceUrl", {
+        value: customDomain
+          ? `https://${customDomain.domainName}`
+          : `http://${this.loadBalancer.loadBalancerDnsName}`,
+        description: "サービスのURL",
+        exportName: "LabInfra-ServiceUrl",
+      });
+    }
+
+    if (encryptionKey) {
+      new cdk.CfnOutput(this, "ServiceKeyArn", {
+        value: encryptionKey.keyArn,
+        description: "バケット・ログ・ECS Execの暗号化キーのARN",
+        exportName: "LabInfra-ServiceKeyArn",
+      });
+    }
+
+    if (execCommandAudit) {
+      new cdk.CfnOutput(this, "ExecCommandKeyArn", {
+        value: execCommandAudit.key.keyArn,
+        description:
+          "ECS Execのセッションの暗号化キーのARN（execute-commandを実行するユーザーに kms:GenerateDataKey が必要）",
+        exportName: "LabInfra-ExecCommandKeyArn",
+      });
+    }
+
     new cdk.CfnOutput(this, "TaskDefinitionArn", {
-      value: taskDefinition.taskDefinitionArn,
+      value: mainService.taskDefinition.taskDefinitionArn,
       description: "タスク定義のARN",
       exportName: "LabInfra-TaskDefinitionArn",
     });
@@ -323,3 +881,11 @@ export class FargateServiceStack extends cdk.Stack {
     });
   }
 }
+
+// "api-v2" → "ApiV2"
+function toPascalCase(value: string): string {
+  return value
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+}
@@ -4,6 +4,19 @@
 import * as cdk from "aws-cdk-lib";
 import * as ec2 from "aws-cdk-lib/aws-ec2";
 import { Construct } from "constructs";
+import {
+  EgressMode,
+  EnvironmentConfig,
+  usesNat,
+} from "./config/environment-config";
+
+/**
+ * NetworkStackのプロパティ
+ * 環境設定からCIDRやAZ数を受け取る
+ */
+interface NetworkStackProps extends cdk.StackProps {
+  config: EnvironmentConfig;
+}
 
 /**
  * ネットワークスタック
@@ -11,8 +24,9 @@ import { Construct } from "constructs";
  * このスタックでは、アプリケーションの基盤となるネットワークリソースを作成します：
  * - VPC (Virtual Private Cloud): プライベートなクラウドネットワーク環境
  * - パブリックサブネット: インターネットからアクセス可能なサブネット
- * - プライベートサブネット: 内部通信専用のサブネット（将来の拡張用）
+ * - プライベートサブネット: 内部通信専用のサブネット（データベースなど）
  * - インターネットゲートウェイ: VPCとインターネット間の通信を可能にする
+ * - VPCエンドポイント / NAT: プライベートなタスクがAWSサービスと通信するための経路（設定による）
  */
 // TypeScript: 「export」でクラスを他のファイルから使用可能にする（Javaのpublicクラスと同様）
 // 「extends」で継承（Javaと同じ概念）
@@ -25,11 +39,12 @@ export class NetworkStack extends cdk.Stack {
 
   // TypeScript: コンストラクタ（Javaと同じ概念）
   // 引数の型を明示的に指定（scope: Construct, id: string）
-  // 「props?」の「?」= オプショナル引数（nullableと同様、省略可能）
-  constructor(scope: Construct, id: string, props?: cdk.StackProps) {
+  constructor(scope: Construct, id: string, props: NetworkStackProps) {
     // 親クラスのコンストラクタを呼び出し（Javaのsuper()と同じ）
     super(scope, id, props);
 
+    const { egress } = props.config.network;
+
     /**
      * VPC (Virtual Private Cloud) の作成
      *
@@ -41,14 +56,15 @@ export class NetworkStack extends cdk.Stack {
     // 第3引数は「オブジェクトリテラル」（{ key: value }の形式）
     this.vpc = new ec2.Vpc(this, "LabInfraVpc", {
       // CIDR（Classless Inter-Domain Routing）ブロック
-      // 10.0.0.0/16 は、10.0.0.0 から 10.0.255.255 までの65,536個のIPアドレスを提供
+      // 例: 10.0.0.0/16 は、10.0.0.0 から 10.0.255.255 までの65,536個のIPアドレスを提供
       // /16 はサブネットマスクを表し、最初の16ビットがネットワーク部分を示す
-      cidr: "10.0.0.0/16",
+      // 環境間でVPCピアリングなどを行えるよう、環境ごとに重ならない範囲を設定している
+      ipAddresses: ec2.IpAddresses.cidr(props.config.network.vpcCidr),
 
       // 最大アベイラビリティゾーン数
       // 高可用性のため、複数のAZにリソースを分散配置
-      // 2つのAZを使用することで、1つのAZに障害が発生しても継続稼働可能
-      maxAzs: 2,
+      // 2つ以上のAZを使用することで、1つのAZに障害が発生しても継続稼働可能
+      maxAzs: props.config.network.maxAzs,
 
       // サブネット構成の定義
       // パブリックサブネットとプライベートサブネットを各AZに作成
@@ -65,25 +81,101 @@ export class NetworkStack extends cdk.Stack {
           subnetType: ec2.SubnetType.PUBLIC, // enum型（Javaのenumと同様）
         },
         {
-          // プライベートサブネット: 内部通信専用（将来の拡張用）
-          // データベースやアプリケーションサーバーなど、直接インターネットアクセスが不要なリソース用
+          // プライベートサブネット: 内部通信専用
+          // データベース（DatabaseStack）など、直接インターネットアクセスが不要なリソース用
           // 現在はNATゲートウェイを使用しないため、実質的にはインターネットアクセス不可
           cidrMask: 24,
           name: "PrivateSubnet",
           subnetType: ec2.SubnetType.PRIVATE_ISOLATED, // NATゲートウェイなしのプライベートサブネット
         },
+        // TypeScript: スプレッド構文（...）で条件付きの要素を配列に展開
+        // NATを使用する場合のみ、アプリケーション用のサブネットを追加
+        // 既存のサブネットのCIDRが変わらないよう、末尾に追加している
+        ...(usesNat(egress)
+          ? [
+              {
+                cidrMask: 24,
+                name: "AppSubnet",
+                subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS, // NAT経由で外部通信可能
+              },
+            ]
+          : []),
       ],
 
       // NATゲートウェイの設定
-      // 学習目的とコスト削減のため、NATゲートウェイは作成しない
+      // 学習目的とコスト削減のため、通常はNATゲートウェイを作成しない
       // NATゲートウェイは時間課金（約$45/月）のため、本格運用時のみ使用を検討
-      natGateways: 0,
+      // NATを使用する方式の場合も、コスト削減のため1つだけ作成する
+      natGateways: usesNat(egress) ? 1 : 0,
+
+      // NATインスタンスを使用する場合のプロバイダー
+      // t4g.nanoなどの小さなインスタンスで、NATゲートウェイより安価に構築できる
+      // TypeScript: 三項演算子（条件 ? 値1 : 値2）はJavaと同じ
+      natGatewayProvider:
+        egress === "natInstance"
+          ? ec2.NatProvider.instance({
+              instanceType: new ec2.InstanceType("t3.nano"),
+            })
+          : undefined,
 
       // インターネットゲートウェイの自動作成を有効化（デフォルトでtrue）
       // パブリックサブネットがインターネットと通信するために必要
       // createInternetGateway: true, // デフォルト値のため省略可能
     });
 
+    /**
+     * VPCエンドポイントの作成（vpcEndpointsモードのみ）
+     *
+     * 分離サブネット（インターネットへの経路なし）のタスクが、
+     * NATを経由せずにAWSサービスへアクセスするためのエンドポイント
+     */
+    if (egress === "vpcEndpoints") {
+      const endpointSubnets: ec2.SubnetSelection = {
+        subnetType: ec2.SubnetType.PRIVATE_ISOLATED,
+      };
+
+      // ゲートウェイ型エンドポイント（無料）
+      // ECRのイメージレイヤーはS3に保存されているため、イメージのプルに必要
+      this.vpc.addGatewayEndpoint("S3Endpoint", {
+        service: ec2.GatewayVpcEndpointAwsService.S3,
+        subnets: [endpointSubnets],
+      });
+
+      // インターフェース型エンドポイント（時間課金あり）
+      // TypeScript: Record<string, 型> でエンドポイントIDとサービスの対応表を定義
+      const interfaceEndpoints: Record<
+        string,
+        ec2.InterfaceVpcEndpointAwsService
+      > = {
+        EcrApiEndpoint: ec2.InterfaceVpcEndpointAwsService.ECR, // イメージ情報の取得、認証
+        EcrDockerEndpoint: ec2.InterfaceVpcEndpointAwsService.ECR_DOCKER, // イメージのプル
+        LogsEndpoint: ec2.InterfaceVpcEndpointAwsService.CLOUDWATCH_LOGS, // ログの送信
+        SecretsManagerEndpoint:
+          ec2.InterfaceVpcEndpointAwsService.SECRETS_MANAGER, // シークレットの取得
+        SsmEndpoint: ec2.InterfaceVpcEndpointAwsService.SSM, // パラメータの取得
+      };
+
+      // ECS Exec のセッション（Session Manager）と、セッションの暗号化
+      if (props.config.execCommand) {
+        interfaceEndpoints.SsmMessagesEndpoint =
+          ec2.InterfaceVpcEndpointAwsService.SSM_MESSAGES;
+        interfaceEndpoints.KmsEndpoint = ec2.InterfaceVpcEndpointAwsService.KMS;
+      }
+
+      // TypeScript: Object.entries() でオブジェクトを [キー, 値] の配列に変換してループ
+      for (const [endpointId, service] of Object.entries(interfaceEndpoints)) {
+        this.vpc.addInterfaceEndpoint(endpointId, {
+          service,
+          subnets: endpointSubnets,
+          // プライベートDNSを有効化すると、通常のサービスエンドポイント名で
+          // VPCエンドポイントに接続される（アプリケーション側の変更が不要）
+          privateDnsEnabled: true,
+          // VPC内（CIDR全体）からのHTTPS通信を許可するセキュリティグループが自動作成される
+          open: true,
+        });
+      }
+    }
+
     /**
      * VPCフローログの設定（オプション）
      *
@@ -141,5 +233,36 @@ export class NetworkStack extends cdk.Stack {
         exportName: `LabInfra-PrivateSubnet${index + 1}Id`,
       });
     });
+
+    // アプリケーション用サブネットIDの出力（NATを使用する場合のみ存在）
+    this.vpc.privateSubnets.forEach((subnet, index) => {
+      new cdk.CfnOutput(this, `AppSubnet${index + 1}Id`, {
+        value: subnet.subnetId,
+        description: `アプリケーション用サブネット${index + 1}のID (AZ: ${
+          subnet.availabilityZone
+        })`,
+        exportName: `LabInfra-AppSubnet${index + 1}Id`,
+      });
+    });
+  }
+}
+
+/**
+ * Fargateタスクを配置するサブネットの種類を返す
+ *
+ * - publicSubnet: パブリックサブネット（パブリックIPが必要）
+ * - vpcEndpoints: 分離サブネット
+ * - natInstance / natGateway: NAT経由で通信できるプライベートサブネット
+ */
+export function serviceSubnetType(egress: EgressMode): ec2.SubnetType {
+  // TypeScript: switch文（Javaと同じ構文）
+  switch (egress) {
+    case "publicSubnet":
+      return ec2.SubnetType.PUBLIC;
+    case "vpcEndpoints":
+      return ec2.SubnetType.PRIVATE_ISOLATED;
+    case "natInstance":
+    case "natGateway":
+      return ec2.SubnetType.PRIVATE_WITH_EGRESS;
   }
 }
@@ -2,67 +2,192 @@
 // codepipeline_actions = ハイフンで区切ったモジュール名（TypeScriptでは一般的）
 import * as cdk from "aws-cdk-lib";
 import * as codebuild from "aws-cdk-lib/aws-codebuild";
+import * as codecommit from "aws-cdk-lib/aws-codecommit";
+import * as codedeploy from "aws-cdk-lib/aws-codedeploy";
 import * as codepipeline from "aws-cdk-lib/aws-codepipeline";
 import * as codepipeline_actions from "aws-cdk-lib/aws-codepipeline-actions";
+import * as ecr from "aws-cdk-lib/aws-ecr";
 import * as iam from "aws-cdk-lib/aws-iam";
 import * as s3 from "aws-cdk-lib/aws-s3";
+import * as sns from "aws-cdk-lib/aws-sns";
+import * as subscriptions from "aws-cdk-lib/aws-sns-subscriptions";
 import { Construct } from "constructs";
+import {
+  DEPLOYMENT_ROLE_MANAGED_POLICIES,
+  DEPLOYMENT_ROLE_SERVICES,
+  markManualDeployment,
+} from "./aspects/deployment-role-coverage";
+import { EncryptionKey } from "./constructs/encryption-key";
+import {
+  PermissionsBoundaryPolicy,
+  permissionsBoundaryArn,
+} from "./constructs/permissions-boundary";
+import { PipelineNotifications } from "./constructs/pipeline-notifications";
+import { KEEP_AWAKE_PARAMETER_NAME } from "./constructs/service-schedule";
+import { SmokeTestProject } from "./constructs/smoke-test-project";
+import { EnvironmentConfig, SourceConfig } from "./config/environment-config";
+
+/**
+ * PipelineStackのプロパティ
+ */
+interface PipelineStackProps extends cdk.StackProps {
+  config: EnvironmentConfig;
+  // パイプラインでデプロイするスタック
+  // スタック間の依存関係（addDependency）からデプロイの順番を決める
+  stacks: cdk.Stack[];
+}
 
 /**
  * CI/CDパイプラインスタック
  *
  * このスタックでは、CDKアプリケーションを自動デプロイするための
  * CI/CDパイプラインを作成します：
- * - S3バケット: ソースコードとアーティファクトの保存
- * - CodeBuild: CDKプロジェクトのビルド（cdk synth）
- * - CodePipeline: ビルドからデプロイまでの自動化
+ * - S3バケット: ソースコード（設定による）とアーティファクトの保存
+ * - CodeBuild: CDKプロジェクトのビルド（cdk synth）、テスト、アセットの公開
+ * - CodePipeline: ビルドからデプロイまでの自動化（パイプライン自身の更新も含む）
+ * - ECRリポジトリ: アプリケーションのコンテナイメージの保存（設定による）
+ * - SNSトピック: デプロイの承認依頼と、実行結果の通知（設定による）
  *
- * 学習目的のため、GitHubなどの外部リポジトリ連携は行わず、
- * 手動でS3にソースコードをアップロードする方式を採用
+ * ソースは環境設定で切り替える（pipeline.source）：
+ * - S3にZIPファイルを手動でアップロードする方式（外部リポジトリを使わない場合）
+ * - CodeCommit / GitHub / GitLab のブランチへのプッシュで実行する方式
  */
 export class PipelineStack extends cdk.Stack {
   // TypeScript: 複数のpublic readonlyプロパティを定義
   // 各プロパティの型を明示的に指定
   public readonly pipeline: codepipeline.Pipeline;
-  public readonly sourceBucket: s3.Bucket;
+  // TypeScript: ソースがS3以外の環境ではundefined
+  public readonly sourceBucket?: s3.Bucket;
+  // TypeScript: イメージのビルドを行わない環境ではundefined
+  public readonly repository?: ecr.Repository;
+  // 手動承認を行わない環境ではundefined
+  public readonly approvalTopic?: sns.Topic;
+  // 実行結果を通知しない環境ではundefined
+  public readonly notificationTopic?: sns.Topic;
 
-  // TypeScript: オプショナル引数を使用（props?）
-  // このスタックは他のスタックに依存しないため、カスタムprops不要
-  constructor(scope: Construct, id: string, props?: cdk.StackProps) {
+  // デプロイ対象のスタックはテンプレートのファイル名や依存関係を参照するだけで、
+  // スタック間の参照（クロススタック参照）は作らない
+  constructor(scope: Construct, id: string, props: PipelineStackProps) {
     super(scope, id, props);
 
+    const { config } = props;
+
     /**
-     * ソースコード用S3バケットの作成
+     * IAMロールの権限の境界
      *
-     * CDKプロジェクトのソースコードをZIPファイルでアップロードするためのバケット
-     * 学習目的のため、手動アップロードを想定した設定
+     * このスタックと、パイプラインでデプロイするスタックの全てのロールに設定する
+     * （他のスタックでは bin/lab-infra.ts で applyPermissionsBoundary を使用）
+     * 実行ロールで境界を変更できないように、このスタックの手動のデプロイでのみ変更する
      */
-    // TypeScript: this.プロパティ への代入
-    // テンプレートリテラルで動的なバケット名を生成
-    this.sourceBucket = new s3.Bucket(this, "LabInfraSourceBucket", {
-      bucketName: `lab-infra-source-${cdk.Aws.ACCOUNT_ID}-${cdk.Aws.REGION}`,
-      // cdk.Aws.ACCOUNT_ID = 静的プロパティでAWSアカウントIDを取得
-
-      // TypeScript: boolean型のプロパティ
-      // バージョニングの有効化
-      // ソースコードの履歴管理とロールバック機能を提供
-      versioned: true,
+    const permissionsBoundary = new PermissionsBoundaryPolicy(
+      this,
+      "LabInfraPermissionsBoundary",
+      {
+        servicePrefixes: [
+          // TypeScript: Set で重複を除く（"ec2:CreateVpc" → "ec2"）
+          ...new Set(
+            Object.values(DEPLOYMENT_ROLE_SERVICES)
+              .flat()
+              .map((action) => action.split(":")[0])
+          ),
+          ...RUNTIME_SERVICE_PREFIXES,
+        ],
+      }
+    );
+    markManualDeployment(
+      permissionsBoundary,
+      "実行ロールで変更できると、ロールの権限の上限を外せるため"
+    );
+    iam.PermissionsBoundary.of(this).apply(permissionsBoundary);
 
-      // TypeScript: enum型のプロパティ
-      // 暗号化設定
-      // S3管理のキー（SSE-S3）を使用してデータを暗号化
-      encryption: s3.BucketEncryption.S3_MANAGED,
+    // TypeScript: 比較演算子の結果（boolean）を定数に代入
+    // autoDeleteObjectsはRemovalPolicy.DESTROYの場合のみ指定可能
+    const autoDeleteObjects =
+      config.removalPolicy === cdk.RemovalPolicy.DESTROY;
 
-      // パブリックアクセスのブロック
-      // セキュリティのため、すべてのパブリックアクセスを禁止
-      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+    /**
+     * カスタマー管理のKMSキー（オプション）
+     *
+     * ソース・アーティファクトのバケットの暗号化に使用
+     * アーティファクトのバケットのキーは、パイプラインのCodeBuildプロジェクトのビルド出力の暗号化にも使用される
+     */
+    const encryptionKey = config.encryption
+      ? new EncryptionKey(this, "LabInfraPipelineKey", {
+          alias: "alias/lab-infra-pipeline",
+          description:
+            "Lab Infra パイプラインのソースとアーティファクトの暗号化",
+          removalPolicy: config.removalPolicy,
+          pendingWindowDays: config.encryption.pendingWindowDays,
+        })
+      : undefined;
+    // TypeScript: 2つのバケットで共通の暗号化設定をオブジェクトにまとめ、スプレッド構文で展開
+    const bucketEncryption: Pick<
+      s3.BucketProps,
+      "encryption" | "encryptionKey" | "bucketKeyEnabled"
+    > = encryptionKey
+      ? {
+          encryption: s3.BucketEncryption.KMS,
+          encryptionKey,
+          // S3バケットキーでKMSへのリクエスト（料金）を削減
+          bucketKeyEnabled: true,
+        }
+      : { encryption: s3.BucketEncryption.S3_MANAGED };
 
-      // スタック削除時の動作
-      // 学習目的のため、スタック削除時にバケットも削除
-      // 本格運用では RETAIN を推奨
-      removalPolicy: cdk.RemovalPolicy.DESTROY,
-      autoDeleteObjects: true, // バケット内のオブジェクトも自動削除
-    });
+    /**
+     * パイプラインのソース
+     */
+    const { source } = config.pipeline;
+    const sourceOutput = new codepipeline.Artifact("SourceOutput");
+    let sourceAction: codepipeline.IAction;
+
+    if (source.provider === "s3") {
+      /**
+       * ソースコード用S3バケットの作成
+       *
+       * CDKプロジェクトのソースコードをZIPファイルでアップロードするためのバケット
+       * 外部リポジトリを使わない場合に、手動でアップロードする
+       */
+      // TypeScript: this.プロパティ への代入
+      // テンプレートリテラルで動的なバケット名を生成
+      this.sourceBucket = new s3.Bucket(this, "LabInfraSourceBucket", {
+        bucketName: `lab-infra-source-${cdk.Aws.ACCOUNT_ID}-${cdk.Aws.REGION}`,
+        // cdk.Aws.ACCOUNT_ID = 静的プロパティでAWSアカウントIDを取得
+
+        // TypeScript: boolean型のプロパティ
+        // バージョニングの有効化
+        // ソースコードの履歴管理とロールバック機能を提供
+        versioned: true,
+
+        // TypeScript: enum型のプロパティ
+        // 暗号化設定
+        // S3管理のキー（SSE-S3）、または encryption を設定した場合はカスタマー管理のKMSキー
+        ...bucketEncryption,
+
+        // パブリックアクセスのブロック
+        // セキュリティのため、すべてのパブリックアクセスを禁止
+        blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+
+        // スタック削除時の動作
+        // dev/stgではスタック削除時にバケットも削除
+        // prodでは RETAIN（バケットを残す）
+        removalPolicy: config.removalPolicy,
+        autoDeleteObjects, // バケット内のオブジェクトも自動削除（DESTROYの場合のみ）
+      });
+
+      sourceAction = new codepipeline_actions.S3SourceAction({
+        actionName: "S3Source",
+        bucket: this.sourceBucket, // 上で作成したバケットを参照
+        bucketKey: source.bucketKey, // アップロードするZIPファイル名
+        output: sourceOutput,
+
+        // S3オブジェクトの変更を検知してパイプラインを自動実行
+        // （EVENTSにはCloudTrailの証跡が必要なため、ポーリングを使用）
+        trigger: codepipeline_actions.S3Trigger.POLL, // enum型
+      });
+    } else {
+      // Gitリポジトリのブランチへのプッシュで実行
+      sourceAction = this.createRepositorySourceAction(source, sourceOutput);
+    }
 
     /**
      * アーティファクト用S3バケットの作成
@@ -73,10 +198,10 @@ export class PipelineStack extends cdk.Stack {
     const artifactBucket = new s3.Bucket(this, "LabInfraArtifactBucket", {
       bucketName: `lab-infra-artifacts-${cdk.Aws.ACCOUNT_ID}-${cdk.Aws.REGION}`,
       versioned: true,
-      encryption: s3.BucketEncryption.S3_MANAGED,
+      ...bucketEncryption,
       blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
-      removalPolicy: cdk.RemovalPolicy.DESTROY,
-      autoDeleteObjects: true,
+      removalPolicy: config.removalPolicy,
+      autoDeleteObjects,
 
       // TypeScript: 配列リテラルでオブジェクトの配列を定義
       // ライフサイクルルールの設定
@@ -125,17 +250,26 @@ export class PipelineStack extends cdk.Stack {
         effect: iam.Effect.ALLOW,
         actions: ["s3:GetObject", "s3:GetObjectVersion", "s3:PutObject"],
         resources: [
-          this.sourceBucket.bucketArn + "/*",
+          // TypeScript: 条件付きで配列に要素を追加するスプレッド構文
+          ...(this.sourceBucket ? [this.sourceBucket.bucketArn + "/*"] : []),
           artifactBucket.bucketArn + "/*",
         ],
       })
     );
+    // KMSキーで暗号化したオブジェクトの読み書きには、キーの使用権限も必要
+    encryptionKey?.grantEncryptDecrypt(codeBuildRole);
 
-    // CDKデプロイに必要な権限（管理者権限）
-    // 注意: 学習目的のため広範囲な権限を付与
-    // 本格運用では最小権限の原則に従って必要な権限のみを付与
-    codeBuildRole.addManagedPolicy(
-      iam.ManagedPolicy.fromAwsManagedPolicyName("AdministratorAccess")
+    // cdk synth に必要な権限
+    // デプロイはパイプラインのCloudFormationアクションが行うため、synthの権限のみを付与する
+    // コンテキストの参照（fromLookupなど）は、cdk bootstrap で作成されるlookupロールを引き受けて行う
+    codeBuildRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ["sts:AssumeRole"],
+        resources: [
+          `arn:${cdk.Aws.PARTITION}:iam::${cdk.Aws.ACCOUNT_ID}:role/cdk-*-lookup-role-${cdk.Aws.ACCOUNT_ID}-${cdk.Aws.REGION}`,
+        ],
+      })
     );
 
     /**
@@ -164,6 +298,21 @@ export class PipelineStack extends cdk.Stack {
       // IAMロールの設定
       role: codeBuildRole,
 
+      // synth時の環境変数
+      // パイプラインは自身の定義も更新するため、手動でsynthした時と同じ値を渡す必要がある
+      environmentVariables: {
+        STAGE: { value: config.stage },
+        LAB_INFRA_APPROVER_EMAILS: {
+          value: config.pipeline.approval?.approverEmails.join(",") ?? "",
+        },
+        LAB_INFRA_PIPELINE_NOTIFICATION_EMAILS: {
+          value: config.pipeline.notifications?.emails.join(",") ?? "",
+        },
+        LAB_INFRA_ALARM_EMAILS: {
+          value: config.monitoring?.alarmEmails.join(",") ?? "",
+        },
+      },
+
       // タイムアウト設定
       // CDKのsynthは通常数分で完了するため、短めに設定
       timeout: cdk.Duration.minutes(15),
@@ -209,7 +358,7 @@ export class PipelineStack extends cdk.Stack {
             commands: [
               'echo "=== Build phase ==="',
               'echo "Running CDK synth..."',
-              "cdk synth --all", // 全スタックのCloudFormationテンプレート生成
+              "cdk synth --all -c stage=$STAGE", // 全スタックのCloudFormationテンプレート生成
               'echo "CDK synth completed successfully"',
               "ls -la cdk.out/", // 生成されたファイルの確認
             ],
@@ -243,6 +392,481 @@ export class PipelineStack extends cdk.Stack {
       }),
     });
 
+    /**
+     * テスト用のCodeBuildプロジェクト
+     *
+     * Jestのテストを実行し、結果（JUnit形式）をCodeBuildのテストレポートとして公開する
+     * レポートはCodeBuildコンソールの「レポート」から確認できる
+     */
+    const testProject = new codebuild.Project(this, "LabInfraTestProject", {
+      projectName: "lab-infra-test",
+      description: "Lab Infra CDK プロジェクトのテスト",
+
+      environment: {
+        buildImage: codebuild.LinuxBuildImage.AMAZON_LINUX_2_5,
+        computeType: codebuild.ComputeType.SMALL,
+      },
+
+      timeout: cdk.Duration.minutes(15),
+
+      buildSpec: codebuild.BuildSpec.fromObject({
+        version: "0.2",
+        // jest-junit の出力先
+        env: {
+          variables: {
+            JEST_JUNIT_OUTPUT_DIR: "reports",
+          },
+        },
+        phases: {
+          install: {
+            "runtime-versions": {
+              nodejs: "18",
+            },
+            commands: ["npm ci"],
+          },
+          build: {
+            commands: ['echo "=== Running tests ==="', "npm run test:ci"],
+          },
+        },
+        // テストレポート（レポートグループ名は lab-infra-test-unit-tests になる）
+        reports: {
+          "unit-tests": {
+            files: ["junit.xml"],
+            "base-directory": "reports",
+            "file-format": "JUNITXML",
+          },
+        },
+      }),
+    });
+
+    /**
+     * 差分確認用のCodeBuildプロジェクト
+     *
+     * synthしたテンプレートとデプロイ済みのスタックの差分（cdk diff）を
+     * テキストファイルとしてアーティファクトに保存する
+     * 承認者は変更セットと合わせて確認できる
+     */
+    const diffProject = new codebuild.Project(this, "LabInfraDiffProject", {
+      projectName: "lab-infra-diff",
+      description: "Lab Infra デプロイ済みスタックとの差分の出力",
+
+      environment: {
+        buildImage: codebuild.LinuxBuildImage.AMAZON_LINUX_2_5,
+        computeType: codebuild.ComputeType.SMALL,
+      },
+
+      timeout: cdk.Duration.minutes(15),
+
+      buildSpec: codebuild.BuildSpec.fromObject({
+        version: "0.2",
+        // pipefail を使用するため bash で実行
+        env: { shell: "bash" },
+        phases: {
+          install: {
+            "runtime-versions": {
+              nodejs: "18",
+            },
+            commands: ["npm install -g aws-cdk@2.87.0"],
+          },
+          build: {
+            commands: [
+              'echo "=== Comparing with the deployed stacks ==="',
+              // 入力はsynth済みのcdk.out（クラウドアセンブリ）のため、--app にカレントディレクトリを指定
+              // cdk diff は差分を標準エラーに出力する
+              // パイプの終了コードは tee のものになるため、pipefail で cdk diff の失敗をビルドの失敗にする
+              "set -o pipefail && cdk diff --app . 2>&1 | tee cdk-diff.txt",
+            ],
+          },
+        },
+        artifacts: {
+          files: ["cdk-diff.txt"],
+        },
+      }),
+    });
+
+    // デプロイ済みのテンプレートの読み込み
+    // cdk bootstrap で作成されるlookupロール（読み取り専用）を引き受けて行う
+    diffProject.addToRolePolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ["sts:AssumeRole"],
+        resources: [
+          `arn:${cdk.Aws.PARTITION}:iam::${cdk.Aws.ACCOUNT_ID}:role/cdk-*-lookup-role-${cdk.Aws.ACCOUNT_ID}-${cdk.Aws.REGION}`,
+        ],
+      })
+    );
+
+    /**
+     * アセット公開用のCodeBuildプロジェクト
+     *
+     * Lambda関数のコードやDockerイメージなど、テンプレート以外のファイル（アセット）を
+     * cdk bootstrap で作成されたS3バケット・ECRリポジトリにアップロードする
+     * cdk.out の *.assets.json に従って cdk-assets が公開する
+     */
+    const assetPublishProject = new codebuild.Project(
+      this,
+      "LabInfraAssetPublishProject",
+      {
+        projectName: "lab-infra-asset-publish",
+        description: "Lab Infra スタックのアセットの公開",
+
+        environment: {
+          buildImage: codebuild.LinuxBuildImage.AMAZON_LINUX_2_5,
+          computeType: codebuild.ComputeType.SMALL,
+          // Dockerイメージのアセットをビルドするため特権モードが必要
+          privileged: true,
+        },
+
+        timeout: cdk.Duration.minutes(30),
+
+        buildSpec: codebuild.BuildSpec.fromObject({
+          version: "0.2",
+          phases: {
+            install: {
+              "runtime-versions": {
+                nodejs: "18",
+              },
+              commands: ["npm install -g cdk-assets@2"],
+            },
+            build: {
+              commands: [
+                'echo "=== Publishing assets ==="',
+                'for manifest in *.assets.json; do cdk-assets --path "$manifest" --verbose publish; done',
+              ],
+            },
+          },
+        }),
+      }
+    );
+
+    // アップロードは cdk bootstrap で作成された公開用ロールを引き受けて行う
+    assetPublishProject.addToRolePolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ["sts:AssumeRole"],
+        resources: [
+          `arn:${cdk.Aws.PARTITION}:iam::${cdk.Aws.ACCOUNT_ID}:role/cdk-*-file-publishing-role-${cdk.Aws.ACCOUNT_ID}-${cdk.Aws.REGION}`,
+          `arn:${cdk.Aws.PARTITION}:iam::${cdk.Aws.ACCOUNT_ID}:role/cdk-*-image-publishing-role-${cdk.Aws.ACCOUNT_ID}-${cdk.Aws.REGION}`,
+        ],
+      })
+    );
+
+    /**
+     * アプリケーションのコンテナイメージのビルド（オプション）
+     *
+     * ソースZIP内のDockerfileからイメージをビルドしてECRにプッシュし、
+     * Fargateサービスを新しいイメージに更新する
+     */
+    const { imageBuild } = config.pipeline;
+    let imageBuildProject: codebuild.Project | undefined;
+
+    // Blue/Greenデプロイの場合はECSデプロイアクションの代わりにCodeDeployを使う
+    const blueGreen = config.service.deployment?.strategy === "blueGreen";
+
+    if (imageBuild) {
+      // ECRリポジトリ
+      this.repository = new ecr.Repository(this, "LabInfraAppRepository", {
+        repositoryName: imageBuild.repositoryName,
+
+        // タグの上書きを禁止（イミュータブル）
+        // 同じタグが別のイメージを指すことがなくなり、デプロイ内容を追跡しやすい
+        imageTagMutability: ecr.TagMutability.IMMUTABLE,
+
+        // プッシュ時に脆弱性スキャンを実行
+        imageScanOnPush: true,
+
+        removalPolicy: config.removalPolicy,
+        autoDeleteImages: autoDeleteObjects, // DESTROYの場合のみイメージも自動削除
+
+        // ライフサイクルルール
+        // タグなしイメージと古いイメージを自動削除してストレージコストを削減
+        lifecycleRules: [
+          {
+            description: "タグなしイメージを1日後に削除",
+            tagStatus: ecr.TagStatus.UNTAGGED,
+            maxImageAge: cdk.Duration.days(1),
+          },
+          {
+            description: `最新${imageBuild.maxImageCount}個を残して削除`,
+            tagStatus: ecr.TagStatus.ANY,
+            maxImageCount: imageBuild.maxImageCount,
+          },
+        ],
+      });
+
+      // イメージビルド用のCodeBuildプロジェクト
+      imageBuildProject = new codebuild.Project(
+        this,
+        "LabInfraImageBuildProject",
+        {
+          projectName: "lab-infra-image-build",
+          description: "Lab Infra アプリケーションのコンテナイメージのビルド",
+
+          environment: {
+            buildImage: codebuild.LinuxBuildImage.AMAZON_LINUX_2_5,
+            computeType: codebuild.ComputeType.SMALL,
+            // Dockerビルドを行うため特権モードが必要
+            privileged: true,
+          },
+
+          // TypeScript: オブジェクトリテラルで環境変数を定義
+          // ビルド中に $REPOSITORY_URI のように参照できる
+          environmentVariables: {
+            REPOSITORY_URI: { value: this.repository.repositoryUri },
+            DOCKERFILE_DIRECTORY: { value: imageBuild.dockerfileDirectory },
+            // メインのサービス（環境設定の service）のうち、イメージを更新するコンテナ
+            CONTAINER_NAME: { value: imageBuild.containerName },
+            // Blue/Greenデプロイ用のファイルの生成で使用
+            TASK_DEFINITION_FAMILY: { value: config.service.family },
+            INGRESS_CONTAINER_NAME: {
+              value: config.service.ingress.containerName,
+            },
+            INGRESS_CONTAINER_PORT: {
+              value: String(config.service.ingress.containerPort),
+            },
+          },
+
+          timeout: cdk.Duration.minutes(20),
+
+          buildSpec: codebuild.BuildSpec.fromObject({
+            version: "0.2",
+            // イメージのタグをパイプラインの変数として CDKSynth アクションに渡す
+            env: { "exported-variables": ["IMAGE_TAG"] },
+            phases: {
+              pre_build: {
+                commands: [
+                  'echo "=== Logging in to Amazon ECR ==="',
+                  "aws ecr get-login-password --region $AWS_DEFAULT_REGION | docker login --username AWS --password-stdin ${REPOSITORY_URI%%/*}",
+                  // ビルド番号とソースのバージョン（コミットIDやS3オブジェクトのバージョン）をイメージタグにする
+                  // ・ビルド番号: リポジトリはタグの上書きを禁止しているため、同じソースの再ビルド
+                  //   （セルフミューテーション後の再実行や「変更をリリースする」）でもタグが重複しないようにする
+                  // ・S3オブジェクトのバージョンIDはタグに使えない文字（+ など）を含むため置き換え、
+                  //   CodePipelineから実行した場合に未設定のこともあるため省略できるようにする
+                  "SOURCE_VERSION=$(printf '%s' \"$CODEBUILD_RESOLVED_SOURCE_VERSION\" | tr -c 'A-Za-z0-9_.-' '-' | cut -c 1-40)",
+                  'IMAGE_TAG="${CODEBUILD_BUILD_NUMBER}${SOURCE_VERSION:+-$SOURCE_VERSION}"',
+                  'echo "Image tag: $IMAGE_TAG"',
+                ],
+              },
+              build: {
+                commands: [
+                  'echo "=== Building the Docker image ==="',
+                  "docker build -t $REPOSITORY_URI:$IMAGE_TAG $DOCKERFILE_DIRECTORY",
+                ],
+              },
+              post_build: {
+                commands: [
+                  'echo "=== Pushing the Docker image ==="',
+                  "docker push $REPOSITORY_URI:$IMAGE_TAG",
+                  // Blue/Greenデプロイ用のファイル（CodeDeployデプロイアクションが読み込む）
+                  ...(blueGreen ? BLUE_GREEN_ARTIFACT_COMMANDS : []),
+                ],
+              },
+            },
+            // TypeScript: スプレッド構文で、Blue/Greenデプロイの場合のみ artifacts を追加
+            ...(blueGreen
+              ? {
+                  artifacts: {
+                    files: ["imageDetail.json", "taskdef.json", "appspec.yaml"],
+                  },
+                }
+              : {}),
+          }),
+        }
+      );
+
+      // リポジトリへのプッシュ・プル権限を付与（このリポジトリのみ）
+      this.repository.grantPullPush(imageBuildProject);
+
+      // taskdef.json の生成で現在のタスク定義を読み込む
+      // DescribeTaskDefinitionはリソースレベルの権限指定に対応していない
+      if (blueGreen) {
+        imageBuildProject.addToRolePolicy(
+          new iam.PolicyStatement({
+            actions: ["ecs:DescribeTaskDefinition"],
+            resources: ["*"],
+          })
+        );
+      }
+    }
+
+    /**
+     * CloudFormation実行ロールの作成
+     *
+     * パイプラインからのスタックのデプロイは、このロールの権限で行われる
+     * 各スタックが作成するリソースの管理に必要なアクション（DEPLOYMENT_ROLE_SERVICES）のみを許可し、
+     * IAMはこのプロジェクトのロールとインスタンスプロファイル（LabInfra*）に限定する
+     * （DEPLOYMENT_ROLE_IAM_TYPES）
+     * 作成・変更できるロールは権限の境界（LabInfraPermissionsBoundary）を設定したもののみで、
+     * アタッチできる管理ポリシーも DEPLOYMENT_ROLE_MANAGED_POLICIES に限定する
+     * 管理できないリソースがスタックに追加された場合は、synth時に警告が出る
+     * （DeploymentRoleCoverageChecker）
+     */
+    const deploymentRole = new iam.Role(
+      this,
+      "LabInfraCloudFormationExecutionRole",
+      {
+        roleName: "LabInfraCloudFormationExecutionRole",
+        assumedBy: new iam.ServicePrincipal("cloudformation.amazonaws.com"),
+        description:
+          "パイプラインからのスタックデプロイ用のCloudFormation実行ロール",
+      }
+    );
+    markManualDeployment(
+      deploymentRole,
+      "実行ロールで自身の権限を変更できないようにしているため"
+    );
+
+    // TypeScript: flat() で各サービスのアクションの配列を1つの配列にする
+    // IAMは含まれない（下でリソースタイプごとに許可する）
+    deploymentRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: Object.values(DEPLOYMENT_ROLE_SERVICES).flat(),
+        resources: ["*"],
+      })
+    );
+
+    // Lambda関数のコード（アセット）の読み込み（cdk bootstrap のバケットのみ）
+    deploymentRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ["s3:GetObject"],
+        resources: [
+          `arn:${cdk.Aws.PARTITION}:s3:::cdk-*-assets-${cdk.Aws.ACCOUNT_ID}-${cdk.Aws.REGION}/*`,
+        ],
+      })
+    );
+
+    // KMSキーを指定したリソース（ECRリポジトリ、データベース、シークレットなど）の作成では、
+    // 作成するサービスが呼び出し元の権限でキーのグラントの作成やデータキーの生成を行う
+    // AWSのサービス経由の場合のみ許可する
+    deploymentRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ["kms:CreateGrant", "kms:RetireGrant", "kms:ListGrants"],
+        resources: ["*"],
+        conditions: { Bool: { "kms:GrantIsForAWSResource": "true" } },
+      })
+    );
+    deploymentRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ["kms:Encrypt", "kms:Decrypt", "kms:GenerateDataKey*"],
+        resources: ["*"],
+        conditions: {
+          StringLike: { "kms:ViaService": `*.${cdk.Aws.REGION}.amazonaws.com` },
+        },
+      })
+    );
+
+    // IAMロールの作成・更新はこのプロジェクトのロールのみ
+    // 名前を指定したロール（LabInfraTaskRoleなど）と、
+    // CloudFormationが生成する名前（LabInfraFargateServiceStack-...）の両方が LabInfra で始まる
+    const projectRoleArn = `arn:${cdk.Aws.PARTITION}:iam::${cdk.Aws.ACCOUNT_ID}:role/LabInfra*`;
+    const boundaryCondition = {
+      StringEquals: { "iam:PermissionsBoundary": permissionsBoundaryArn() },
+    };
+    deploymentRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: [
+          "iam:GetRole",
+          "iam:GetRolePolicy",
+          "iam:ListRolePolicies",
+          "iam:ListAttachedRolePolicies",
+          "iam:DeleteRole",
+          "iam:UpdateRole",
+          "iam:UpdateAssumeRolePolicy",
+          "iam:TagRole",
+          "iam:UntagRole",
+          "iam:DeleteRolePolicy",
+          "iam:DetachRolePolicy",
+          "iam:PassRole",
+        ],
+        resources: [projectRoleArn],
+      })
+    );
+    // 権限を広げる操作は、権限の境界を設定したロールのみ
+    deploymentRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: [
+          "iam:CreateRole",
+          "iam:PutRolePolicy",
+          "iam:PutRolePermissionsBoundary",
+        ],
+        resources: [projectRoleArn],
+        conditions: boundaryCondition,
+      })
+    );
+    // アタッチできる管理ポリシーは DEPLOYMENT_ROLE_MANAGED_POLICIES のみ
+    deploymentRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ["iam:AttachRolePolicy"],
+        resources: [projectRoleArn],
+        conditions: {
+          ...boundaryCondition,
+          ArnEquals: {
+            "iam:PolicyARN": DEPLOYMENT_ROLE_MANAGED_POLICIES.map(
+              (name) => `arn:${cdk.Aws.PARTITION}:iam::aws:policy/${name}`
+            ),
+          },
+        },
+      })
+    );
+    // 実行ロール自身（LabInfra* に一致する）の権限は変更できないようにする
+    // 実行ロールの変更は、このスタックを手動でデプロイして反映する
+    deploymentRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.DENY,
+        actions: [
+          "iam:DeleteRole",
+          "iam:UpdateRole",
+          "iam:UpdateAssumeRolePolicy",
+          "iam:PutRolePolicy",
+          "iam:DeleteRolePolicy",
+          "iam:AttachRolePolicy",
+          "iam:DetachRolePolicy",
+          "iam:PutRolePermissionsBoundary",
+          "iam:DeleteRolePermissionsBoundary",
+        ],
+        resources: [
+          `arn:${cdk.Aws.PARTITION}:iam::${cdk.Aws.ACCOUNT_ID}:role/LabInfraCloudFormationExecutionRole`,
+        ],
+      })
+    );
+
+    // NATインスタンスのインスタンスプロファイル（CloudFormationが生成する名前は LabInfraNetworkStack-...）
+    deploymentRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: [
+          "iam:GetInstanceProfile",
+          "iam:CreateInstanceProfile",
+          "iam:DeleteInstanceProfile",
+          "iam:AddRoleToInstanceProfile",
+          "iam:RemoveRoleFromInstanceProfile",
+          "iam:TagInstanceProfile",
+          "iam:UntagInstanceProfile",
+        ],
+        resources: [
+          `arn:${cdk.Aws.PARTITION}:iam::${cdk.Aws.ACCOUNT_ID}:instance-profile/LabInfra*`,
+        ],
+      })
+    );
+
+    // ECS、ELB、Application Auto Scaling、RDSが初回利用時に作成するサービスリンクロール
+    deploymentRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ["iam:CreateServiceLinkedRole"],
+        resources: [
+          `arn:${cdk.Aws.PARTITION}:iam::${cdk.Aws.ACCOUNT_ID}:role/aws-service-role/*`,
+        ],
+      })
+    );
+
     /**
      * CodePipeline用のIAMロール作成
      */
@@ -263,22 +887,18 @@ export class PipelineStack extends cdk.Stack {
           "s3:GetBucketVersioning",
         ],
         resources: [
-          this.sourceBucket.bucketArn,
-          this.sourceBucket.bucketArn + "/*",
+          ...(this.sourceBucket
+            ? [this.sourceBucket.bucketArn, this.sourceBucket.bucketArn + "/*"]
+            : []),
           artifactBucket.bucketArn,
           artifactBucket.bucketArn + "/*",
         ],
       })
     );
+    encryptionKey?.grantEncryptDecrypt(pipelineRole);
 
-    // CodeBuildプロジェクトの実行権限
-    pipelineRole.addToPolicy(
-      new iam.PolicyStatement({
-        effect: iam.Effect.ALLOW,
-        actions: ["codebuild:BatchGetBuilds", "codebuild:StartBuild"],
-        resources: [buildProject.projectArn],
-      })
-    );
+    // CodeBuildプロジェクトの実行権限（codebuild:StartBuild など）は、
+    // CDKがアクションごとに作成するロールにプロジェクトごとに付与する
 
     // CloudFormationスタックのデプロイ権限
     pipelineRole.addToPolicy(
@@ -296,9 +916,20 @@ export class PipelineStack extends cdk.Stack {
           "cloudformation:ExecuteChangeSet",
           "cloudformation:GetTemplate",
           "cloudformation:ValidateTemplate",
-          "iam:PassRole",
         ],
-        resources: ["*"], // CloudFormationは様々なリソースにアクセスするため
+        // このプロジェクトのスタックのみ
+        resources: [
+          `arn:${cdk.Aws.PARTITION}:cloudformation:${cdk.Aws.REGION}:${cdk.Aws.ACCOUNT_ID}:stack/LabInfra*/*`,
+        ],
+      })
+    );
+
+    // CloudFormationに渡せるロールは実行ロールのみ
+    pipelineRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ["iam:PassRole"],
+        resources: [deploymentRole.roleArn],
       })
     );
 
@@ -324,77 +955,228 @@ export class PipelineStack extends cdk.Stack {
 
     // TypeScript: constで定数を定義、型は推論される
     // アーティファクト定義
-    const sourceOutput = new codepipeline.Artifact("SourceOutput");
     const buildOutput = new codepipeline.Artifact("BuildOutput");
+    const imageBuildOutput = new codepipeline.Artifact("ImageBuildOutput");
+    const diffOutput = new codepipeline.Artifact("DiffOutput");
 
     // TypeScript: this.pipelineプロパティのメソッドを呼び出し
     // オブジェクトリテラルで設定を渡す
     // 1. ソースステージ
-    // S3バケットからソースコードを取得
+    // 設定に応じてS3バケットまたはGitリポジトリからソースコードを取得
     this.pipeline.addStage({
       stageName: "Source", // string型
-      actions: [
-        // アクションオブジェクトの配列
-        new codepipeline_actions.S3SourceAction({
-          actionName: "S3Source",
-          bucket: this.sourceBucket, // 上で作成したバケットを参照
-          bucketKey: "source.zip", // アップロードするZIPファイル名
-          output: sourceOutput, // 上で定義したアーティファクトを参照
-
-          // S3オブジェクトの変更を検知してパイプラインを自動実行
-          // 手動実行の場合はfalseに設定可能
-          trigger: codepipeline_actions.S3Trigger.POLL, // enum型
-        }),
-      ],
+      actions: [sourceAction], // アクションオブジェクトの配列
     });
 
     // 2. ビルドステージ
-    // CDK synthを実行してCloudFormationテンプレートを生成
+    // コンテナイメージをビルドしてから、CDK synthを実行してCloudFormationテンプレートを生成
+    // synthにはビルドしたイメージのタグを渡し、タスク定義のイメージをそのタグにする
+    // （Deployステージのスタックの更新で、サービスが新しいイメージに更新される）
+    const imageBuildAction =
+      imageBuildProject &&
+      new codepipeline_actions.CodeBuildAction({
+        actionName: "ImageBuild",
+        project: imageBuildProject,
+        input: sourceOutput,
+        outputs: blueGreen ? [imageBuildOutput] : undefined,
+        runOrder: 1,
+      });
     this.pipeline.addStage({
       stageName: "Build",
       actions: [
+        // TypeScript: 条件付きで配列に要素を追加するスプレッド構文
+        ...(imageBuildAction ? [imageBuildAction] : []),
         new codepipeline_actions.CodeBuildAction({
           actionName: "CDKSynth",
           project: buildProject,
           input: sourceOutput,
           outputs: [buildOutput],
+          environmentVariables: imageBuildAction && {
+            LAB_INFRA_IMAGE_TAG: {
+              value: imageBuildAction.variable("IMAGE_TAG"),
+            },
+          },
+          runOrder: imageBuildAction ? 2 : 1,
         }),
       ],
     });
 
-    // 3. デプロイステージ
-    // 生成されたCloudFormationテンプレートを使用してスタックをデプロイ
+    /**
+     * 承認依頼の通知先（手動承認を行う環境のみ）
+     */
+    const { approval } = config.pipeline;
+    if (approval) {
+      this.approvalTopic = new sns.Topic(this, "LabInfraApprovalTopic", {
+        topicName: "lab-infra-deploy-approval",
+        displayName: "Lab Infra デプロイ承認依頼",
+      });
+      approval.approverEmails.forEach((email) => {
+        this.approvalTopic?.addSubscription(
+          new subscriptions.EmailSubscription(email)
+        );
+      });
+    }
+
+    // 3. テストステージ
+    // テストの実行と、デプロイ済みスタックとの差分の出力（並列実行）
+    // テストが失敗した場合は以降のステージに進まない
     this.pipeline.addStage({
-      stageName: "Deploy",
+      stageName: "Test",
       actions: [
-        // NetworkStackのデプロイ
-        new codepipeline_actions.CloudFormationCreateUpdateStackAction({
-          actionName: "DeployNetworkStack",
-          stackName: "LabInfraNetworkStack",
-          templatePath: buildOutput.atPath(
-            "LabInfraNetworkStack.template.json"
-          ),
-          adminPermissions: true, // 管理者権限でデプロイ（学習目的）
+        new codepipeline_actions.CodeBuildAction({
+          actionName: "UnitTest",
+          project: testProject,
+          input: sourceOutput,
+        }),
+        new codepipeline_actions.CodeBuildAction({
+          actionName: "Diff",
+          project: diffProject,
+          input: buildOutput,
+          outputs: [diffOutput],
+        }),
+      ],
+    });
 
-          // デプロイ順序の制御（他のアクションと並列実行）
-          runOrder: 1,
+    // 4. アセットステージ
+    // 各スタック（パイプライン自身を含む）のアセットを公開する
+    // テンプレートが参照するアセットは、スタックの更新より前に公開されている必要がある
+    this.pipeline.addStage({
+      stageName: "Assets",
+      actions: [
+        new codepipeline_actions.CodeBuildAction({
+          actionName: "PublishAssets",
+          project: assetPublishProject,
+          input: buildOutput,
         }),
+      ],
+    });
 
-        // FargateServiceStackのデプロイ（NetworkStack完了後）
+    // 5. パイプライン自身の更新（セルフミューテーション）
+    // パイプラインの定義が変わっていればこのスタックを更新する
+    // 更新されると restartExecutionOnUpdate により新しい定義で最初から実行し直される
+    // 変更がない場合はそのまま次のステージに進む
+    this.pipeline.addStage({
+      stageName: "UpdatePipeline",
+      actions: [
         new codepipeline_actions.CloudFormationCreateUpdateStackAction({
-          actionName: "DeployFargateServiceStack",
-          stackName: "LabInfraFargateServiceStack",
-          templatePath: buildOutput.atPath(
-            "LabInfraFargateServiceStack.template.json"
-          ),
-          adminPermissions: true,
-
-          // NetworkStackの完了を待ってから実行
-          runOrder: 2,
+          actionName: "SelfMutate",
+          stackName: this.stackName,
+          templatePath: buildOutput.atPath(this.templateFile),
+          adminPermissions: false,
+          deploymentRole,
+          cfnCapabilities: DEPLOY_CAPABILITIES,
         }),
       ],
     });
 
+    // スモークテスト（設定による）のプロジェクト
+    // ロールバックする場合は、デプロイ前のタスク定義をDeployステージの最初に記録する
+    const { smokeTest } = config.pipeline;
+    const smokeTestProject =
+      smokeTest &&
+      new SmokeTestProject(this, "LabInfraSmokeTest", {
+        config: smokeTest,
+        serviceStackName: "LabInfraFargateServiceStack",
+        // ロールバック時のトラフィックの切り替え先
+        containerName: config.service.ingress.containerName,
+        containerPort: config.service.ingress.containerPort,
+        codeDeploy: blueGreen
+          ? {
+              applicationName: "lab-infra-service",
+              deploymentGroupName: "lab-infra-service-dg",
+            }
+          : undefined,
+        // 夜間・休日に停止するサービスは、起こしてからテストする
+        keepAwakeParameterName: config.service.schedule
+          ? KEEP_AWAKE_PARAMETER_NAME
+          : undefined,
+      });
+    const recordAction =
+      smokeTestProject?.recordProject &&
+      new codepipeline_actions.CodeBuildAction({
+        actionName: "RecordTaskDefinition",
+        project: smokeTestProject.recordProject,
+        input: sourceOutput,
+        runOrder: 1,
+      });
+
+    // 6. デプロイステージ
+    // スタックごとに「変更セットの作成 → 承認（設定による） → 変更セットの実行」を順に行う
+    // 依存関係のないスタックは同じ順番（ウェーブ）で並列にデプロイし、
+    // ウェーブ内の全てのスタックの実行が完了してから次のウェーブに進む
+    const deployActions: codepipeline.IAction[] = recordAction
+      ? [recordAction]
+      : [];
+    let runOrder = recordAction ? 2 : 1;
+    deployWaves(props.stacks).forEach((wave) => {
+      const waveActions = wave.flatMap((stack) =>
+        this.createStackDeployActions(
+          stack,
+          buildOutput,
+          deploymentRole,
+          runOrder
+        )
+      );
+      deployActions.push(...waveActions);
+      // TypeScript: スプレッド構文で配列を可変長引数として渡す
+      runOrder =
+        Math.max(
+          ...waveActions.map((action) => action.actionProperties.runOrder ?? 1)
+        ) + 1;
+    });
+
+    this.pipeline.addStage({
+      stageName: "Deploy",
+      actions: deployActions,
+    });
+
+    // 7. リリースステージ（Blue/Greenデプロイでイメージをビルドする場合のみ）
+    // CodeDeployのサービスはCloudFormationからタスク定義を切り替えられないため、
+    // CodeDeployで新しいイメージのタスクセットに切り替える
+    // ローリングアップデートの場合は、Deployステージのスタックの更新で新しいイメージになる
+    if (imageBuildProject && blueGreen) {
+      this.pipeline.addStage({
+        stageName: "Release",
+        actions: [this.createBlueGreenDeployAction(imageBuildOutput)],
+      });
+    }
+
+    // 8. スモークテストステージ（設定による）
+    // デプロイしたサービスにアクセスして正常に応答するかを確認する
+    if (smokeTestProject) {
+      this.pipeline.addStage({
+        stageName: "SmokeTest",
+        actions: [
+          new codepipeline_actions.CodeBuildAction({
+            actionName: "SmokeTest",
+            project: smokeTestProject.project,
+            input: sourceOutput,
+            environmentVariables: recordAction && {
+              PREVIOUS_TASK_DEFINITION: {
+                value: recordAction.variable("PREVIOUS_TASK_DEFINITION"),
+              },
+            },
+          }),
+        ],
+      });
+    }
+
+    /**
+     * 実行の開始・成功・失敗と承認待ちの通知（設定による）
+     */
+    const { notifications } = config.pipeline;
+    if (notifications) {
+      this.notificationTopic = new PipelineNotifications(
+        this,
+        "LabInfraPipelineNotifications",
+        {
+          pipeline: this.pipeline,
+          config: notifications,
+          logRetention: config.logRetention,
+        }
+      ).topic;
+    }
+
     /**
      * CloudFormation出力
      */
@@ -410,11 +1192,46 @@ export class PipelineStack extends cdk.Stack {
       exportName: "LabInfra-PipelineArn",
     });
 
-    new cdk.CfnOutput(this, "SourceBucketName", {
-      value: this.sourceBucket.bucketName,
-      description: "ソースコード用S3バケット名",
-      exportName: "LabInfra-SourceBucketName",
-    });
+    if (this.sourceBucket) {
+      new cdk.CfnOutput(this, "SourceBucketName", {
+        value: this.sourceBucket.bucketName,
+        description: "ソースコード用S3バケット名",
+        exportName: "LabInfra-SourceBucketName",
+      });
+    }
+
+    if (this.repository) {
+      new cdk.CfnOutput(this, "AppRepositoryUri", {
+        value: this.repository.repositoryUri,
+        description: "アプリケーションイメージ用ECRリポジトリのURI",
+        exportName: "LabInfra-AppRepositoryUri",
+      });
+    }
+
+    if (this.approvalTopic) {
+      new cdk.CfnOutput(this, "ApprovalTopicArn", {
+        value: this.approvalTopic.topicArn,
+        description: "デプロイ承認依頼の通知先SNSトピックのARN",
+        exportName: "LabInfra-ApprovalTopicArn",
+      });
+    }
+
+    if (this.notificationTopic) {
+      new cdk.CfnOutput(this, "NotificationTopicArn", {
+        value: this.notificationTopic.topicArn,
+        description: "パイプラインの実行結果の通知先SNSトピックのARN",
+        exportName: "LabInfra-PipelineNotificationTopicArn",
+      });
+    }
+
+    if (encryptionKey) {
+      new cdk.CfnOutput(this, "PipelineKeyArn", {
+        value: encryptionKey.keyArn,
+        description:
+          "ソース・アーティファクトの暗号化キーのARN（ソースをアップロードするユーザーに kms:GenerateDataKey が必要）",
+        exportName: "LabInfra-PipelineKeyArn",
+      });
+    }
 
     new cdk.CfnOutput(this, "BuildProjectName", {
       value: buildProject.projectName,
@@ -425,7 +1242,7 @@ export class PipelineStack extends cdk.Stack {
     /**
      * 使用方法の説明をコメントとして記載
      *
-     * パイプラインの手動実行方法:
+     * パイプラインの手動実行方法（ソースがS3の場合）:
      *
      * 1. ソースコードの準備:
      *    - CDKプロジェクト全体をZIPファイルに圧縮
@@ -439,6 +1256,208 @@ export class PipelineStack extends cdk.Stack {
      *
      * 4. 実行状況の確認:
      *    aws codepipeline get-pipeline-state --name lab-infra-pipeline
+     *    （pipeline.notifications を設定した環境では、結果がメールやチャットにも通知される）
      */
   }
+
+  /**
+   * Gitリポジトリからソースを取得するアクション
+   *
+   * ブランチへのプッシュでパイプラインが自動実行される
+   * - CodeCommit: リポジトリの変更イベントをEventBridgeルールで検知
+   * - CodeStar Connections: 接続先（GitHubなど）のWebhookで検知
+   */
+  // TypeScript: Exclude<T, U> = ユニオン型 T から U に当てはまる型を除いた型
+  // ここでは provider が "s3" 以外のソース設定だけを受け取る
+  private createRepositorySourceAction(
+    source: Exclude<SourceConfig, { provider: "s3" }>,
+    output: codepipeline.Artifact
+  ): codepipeline.IAction {
+    if (source.provider === "codeCommit") {
+      return new codepipeline_actions.CodeCommitSourceAction({
+        actionName: "CodeCommitSource",
+        repository: codecommit.Repository.fromRepositoryName(
+          this,
+          "LabInfraSourceRepository",
+          source.repositoryName
+        ),
+        branch: source.branch,
+        output,
+        trigger: codepipeline_actions.CodeCommitTrigger.EVENTS,
+      });
+    }
+
+    return new codepipeline_actions.CodeStarConnectionsSourceAction({
+      actionName: "RepositorySource",
+      connectionArn: source.connectionArn,
+      owner: source.owner,
+      repo: source.repository,
+      branch: source.branch,
+      output,
+      triggerOnPush: true,
+    });
+  }
+
+  /**
+   * 1つのスタックをデプロイするアクション
+   *
+   * 変更セットを作成し、承認トピックがある場合は承認を待ってから実行する
+   * スタックの変更はdeploymentRoleの権限で行われる
+   * runOrderはfirstRunOrderから連番で割り当て、アクションが順番に実行されるようにする
+   */
+  private createStackDeployActions(
+    stack: cdk.Stack,
+    templateInput: codepipeline.Artifact,
+    deploymentRole: iam.IRole,
+    firstRunOrder: number
+  ): codepipeline.IAction[] {
+    const { stackName } = stack;
+    const changeSetName = "lab-infra-pipeline-changeset";
+    let runOrder = firstRunOrder;
+
+    const actions: codepipeline.IAction[] = [
+      new codepipeline_actions.CloudFormationCreateReplaceChangeSetAction({
+        actionName: `CreateChangeSet-${stackName}`,
+        stackName,
+        changeSetName,
+        templatePath: templateInput.atPath(stack.templateFile),
+        // 管理者権限ではなく、サービスを限定した実行ロールでデプロイする
+        adminPermissions: false,
+        deploymentRole,
+        cfnCapabilities: DEPLOY_CAPABILITIES,
+        runOrder: runOrder++,
+      }),
+    ];
+
+    if (this.approvalTopic) {
+      const region = cdk.Aws.REGION;
+      actions.push(
+        new codepipeline_actions.ManualApprovalAction({
+          actionName: `Approve-${stackName}`,
+          notificationTopic: this.approvalTopic,
+          // 承認画面と通知メールに表示される、スタック名で絞り込んだスタック一覧へのリンク
+          // （変更セットの画面はスタックと変更セットのARNが必要なため、一覧からスタックの「変更セット」タブを開く）
+          externalEntityLink: `https://${region}.console.aws.amazon.com/cloudformation/home?region=${region}#/stacks?filteringText=${stackName}&filteringStatus=active&viewNested=true`,
+          additionalInformation:
+            `${stackName} の変更セット ${changeSetName} を確認してください（スタックの「変更セット」タブ）。` +
+            `CLI: aws cloudformation describe-change-set --stack-name ${stackName} --change-set-name ${changeSetName}`,
+          runOrder: runOrder++,
+        })
+      );
+    }
+
+    actions.push(
+      new codepipeline_actions.CloudFormationExecuteChangeSetAction({
+        actionName: `ExecuteChangeSet-${stackName}`,
+        stackName,
+        changeSetName,
+        runOrder: runOrder++,
+      })
+    );
+
+    return actions;
+  }
+
+  /**
+   * CodeDeployによるBlue/Greenデプロイアクション
+   *
+   * taskdef.json の <IMAGE1_NAME> を imageDetail.json のイメージに置き換えて
+   * タスク定義を登録し、appspec.yaml に従ってトラフィックを切り替える
+   * CloudFormationのタスク定義も同じイメージ（ビルドしたタグ）のため、スタックの更新でイメージが戻ることはない
+   */
+  private createBlueGreenDeployAction(
+    input: codepipeline.Artifact
+  ): codepipeline.IAction {
+    // デプロイグループはFargateServiceStackで作成されるため、名前から参照する
+    const deploymentGroup =
+      codedeploy.EcsDeploymentGroup.fromEcsDeploymentGroupAttributes(
+        this,
+        "LabInfraDeploymentGroup",
+        {
+          application: codedeploy.EcsApplication.fromEcsApplicationName(
+            this,
+            "LabInfraDeployApplication",
+            "lab-infra-service"
+          ),
+          deploymentGroupName: "lab-infra-service-dg",
+        }
+      );
+
+    return new codepipeline_actions.CodeDeployEcsDeployAction({
+      actionName: "BlueGreenDeploy",
+      deploymentGroup,
+      taskDefinitionTemplateInput: input,
+      appSpecTemplateInput: input,
+      containerImageInputs: [
+        {
+          input,
+          // taskdef.json 内のプレースホルダー
+          taskDefinitionPlaceholder: "IMAGE1_NAME",
+        },
+      ],
+    });
+  }
 }
+
+// スタックのデプロイで許可する機能
+// 名前を指定したIAMロール（LabInfraTaskRoleなど）を作成するため NAMED_IAM が必要
+const DEPLOY_CAPABILITIES = [
+  cdk.CfnCapabilities.NAMED_IAM,
+  cdk.CfnCapabilities.AUTO_EXPAND,
+];
+
+// 権限の境界で許可する、実行時に使用するサービス（デプロイで作成するサービス以外）
+// - cloudformation:        ビルド・スモークテストでのスタックの参照、パイプラインからのデプロイ
+// - ssmmessages/ec2messages: ECS Exec、NATインスタンスのSession Manager
+// - codestar-connections:  GitHubなどのソースの取得
+// - codecommit:            CodeCommitのソースの取得
+// - xray:                  アプリケーションのトレース
+const RUNTIME_SERVICE_PREFIXES = [
+  "cloudformation",
+  "ssmmessages",
+  "ec2messages",
+  "codestar-connections",
+  "codecommit",
+  "xray",
+];
+
+/**
+ * スタックを依存関係に従ってウェーブ（並列にデプロイできるグループ）に分ける
+ *
+ * 例: Fargate → Network の依存関係がある場合 [[Network], [Fargate]]
+ * 対象外のスタックへの依存は無視する（パイプラインではデプロイしないため）
+ */
+function deployWaves(stacks: cdk.Stack[]): cdk.Stack[][] {
+  const waves: cdk.Stack[][] = [];
+  let remaining = stacks;
+
+  while (remaining.length > 0) {
+    // まだデプロイしていないスタックに依存していないものが、次のウェーブになる
+    const wave = remaining.filter((stack) =>
+      stack.dependencies.every((dependency) => !remaining.includes(dependency))
+    );
+    if (wave.length === 0) {
+      throw new Error(
+        "スタックの依存関係が循環しています: " +
+          remaining.map((stack) => stack.stackName).join(", ")
+      );
+    }
+    waves.push(wave);
+    remaining = remaining.filter((stack) => !wave.includes(stack));
+  }
+
+  return waves;
+}
+
+// Blue/Greenデプロイ用のファイルを生成するコマンド
+// - imageDetail.json: プッシュしたイメージのURI
+// - taskdef.json:     現在のタスク定義のイメージをプレースホルダーに置き換えたもの
+// - appspec.yaml:     トラフィックを切り替えるコンテナとポート（ALBのターゲットのコンテナ）
+const BLUE_GREEN_ARTIFACT_COMMANDS = [
+  'printf \'{"ImageURI":"%s"}\' $REPOSITORY_URI:$IMAGE_TAG > imageDetail.json',
+  "aws ecs describe-task-definition --task-definition $TASK_DEFINITION_FAMILY --query taskDefinition --output json" +
+    ' | jq --arg name "$CONTAINER_NAME" \'(.containerDefinitions[] | select(.name == $name) | .image) = "<IMAGE1_NAME>"' +
+    " | del(.taskDefinitionArn, .revision, .status, .requiresAttributes, .compatibilities, .registeredAt, .registeredBy)' > taskdef.json",
+  'printf "version: 0.0\\nResources:\\n  - TargetService:\\n      Type: AWS::ECS::Service\\n      Properties:\\n        TaskDefinition: <TASK_DEFINITION>\\n        LoadBalancerInfo:\\n          ContainerName: %s\\n          ContainerPort: %s\\n" $INGRESS_CONTAINER_NAME $INGRESS_CONTAINER_PORT > appspec.yaml',
+  "cat appspec.yaml",
+];
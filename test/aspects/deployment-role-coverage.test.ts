@@ -0,0 +1,90 @@
+import * as cdk from "aws-cdk-lib";
+import { Annotations, Match } from "aws-cdk-lib/assertions";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as sqs from "aws-cdk-lib/aws-sqs";
+import {
+  DeploymentRoleCoverageChecker,
+  markManualDeployment,
+} from "../../lib/aspects/deployment-role-coverage";
+
+// チェッカーを追加したスタックを作成し、add でリソースを追加する
+function check(add: (stack: cdk.Stack) => void): Annotations {
+  const app = new cdk.App();
+  const stack = new cdk.Stack(app, "TestStack");
+  add(stack);
+  cdk.Aspects.of(stack).add(new DeploymentRoleCoverageChecker());
+  return Annotations.fromStack(stack);
+}
+
+describe("DeploymentRoleCoverageChecker", () => {
+  test("実行ロールで管理できるリソースは警告しない", () => {
+    const annotations = check((stack) => {
+      new iam.Role(stack, "Role", {
+        assumedBy: new iam.ServicePrincipal("ecs-tasks.amazonaws.com"),
+      }).addToPolicy(
+        new iam.PolicyStatement({ actions: ["s3:GetObject"], resources: ["*"] })
+      );
+      new iam.CfnInstanceProfile(stack, "InstanceProfile", { roles: [] });
+    });
+    annotations.hasNoWarning("*", Match.anyValue());
+  });
+
+  test("実行ロールで管理できないサービスのリソースは警告する", () => {
+    const annotations = check((stack) => {
+      new sqs.Queue(stack, "Queue");
+    });
+    annotations.hasWarning(
+      "/TestStack/Queue/Resource",
+      Match.stringLikeRegexp(
+        "AWS::SQS::Queue はパイプラインのCloudFormation実行ロールで管理できません.*DEPLOYMENT_ROLE_SERVICES"
+      )
+    );
+  });
+
+  test("リソースタイプを許可していないIAMのリソースは警告する", () => {
+    const annotations = check((stack) => {
+      new iam.User(stack, "User");
+    });
+    annotations.hasWarning(
+      "/TestStack/User/Resource",
+      Match.stringLikeRegexp(
+        "AWS::IAM::User はパイプラインのCloudFormation実行ロールで管理できません.*DEPLOYMENT_ROLE_IAM_TYPES"
+      )
+    );
+  });
+  test("DEPLOYMENT_ROLE_MANAGED_POLICIES にない管理ポリシーは警告する", () => {
+    const annotations = check((stack) => {
+      new iam.Role(stack, "Role", {
+        assumedBy: new iam.ServicePrincipal("ecs-tasks.amazonaws.com"),
+        managedPolicies: [
+          iam.ManagedPolicy.fromAwsManagedPolicyName(
+            "service-role/AmazonECSTaskExecutionRolePolicy"
+          ),
+          iam.ManagedPolicy.fromAwsManagedPolicyName("AdministratorAccess"),
+        ],
+      });
+    });
+    annotations.hasWarning(
+      "/TestStack/Role/Resource",
+      Match.stringLikeRegexp(
+        "AdministratorAccess.*DEPLOYMENT_ROLE_MANAGED_POLICIES"
+      )
+    );
+    annotations.hasNoWarning(
+      "/TestStack/Role/Resource",
+      Match.stringLikeRegexp("AmazonECSTaskExecutionRolePolicy")
+    );
+  });
+
+  test("手動でデプロイするリソースは警告せず、情報として表示する", () => {
+    const annotations = check((stack) => {
+      const queue = new sqs.Queue(stack, "Queue");
+      markManualDeployment(queue, "テスト");
+    });
+    annotations.hasNoWarning("*", Match.anyValue());
+    annotations.hasInfo(
+      "/TestStack/Queue/Resource",
+      Match.stringLikeRegexp("手動でデプロイしてください（テスト）")
+    );
+  });
+});
@@ -0,0 +1,233 @@
+import * as cdk from "aws-cdk-lib";
+import { Annotations, Match } from "aws-cdk-lib/assertions";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as s3 from "aws-cdk-lib/aws-s3";
+import { StageName } from "../../lib/config/environment-config";
+import {
+  PolicyChecker,
+  suppressPolicyRule,
+} from "../../lib/aspects/policy-checker";
+
+// チェッカーを追加したスタックを作成し、add でリソースを追加する
+function check(stage: StageName, add: (stack: cdk.Stack) => void): Annotations {
+  const app = new cdk.App();
+  const stack = new cdk.Stack(app, "TestStack");
+  add(stack);
+  cdk.Aspects.of(stack).add(new PolicyChecker(stage));
+  return Annotations.fromStack(stack);
+}
+
+// インターネット全体からのHTTPを許可するセキュリティグループ
+function addOpenSecurityGroup(stack: cdk.Stack): ec2.SecurityGroup {
+  const vpc = new ec2.Vpc(stack, "Vpc", { natGateways: 0 });
+  const securityGroup = new ec2.SecurityGroup(stack, "SecurityGroup", { vpc });
+  securityGroup.addIngressRule(ec2.Peer.anyIpv4(), ec2.Port.tcp(80));
+  return securityGroup;
+}
+
+// 全てのリソースにワイルドカードのアクションを許可するロール
+function addWildcardRole(stack: cdk.Stack): iam.Role {
+  const role = new iam.Role(stack, "Role", {
+    assumedBy: new iam.ServicePrincipal("ecs-tasks.amazonaws.com"),
+  });
+  role.addToPolicy(
+    new iam.PolicyStatement({ actions: ["s3:*"], resources: ["*"] })
+  );
+  return role;
+}
+
+describe("PolicyChecker", () => {
+  describe("OpenIngress", () => {
+    test("インターネット全体からのインバウンド通信はprodでエラー", () => {
+      const annotations = check("prod", addOpenSecurityGroup);
+      annotations.hasError(
+        "/TestStack/SecurityGroup/Resource",
+        Match.stringLikeRegexp("^\\[OpenIngress\\]")
+      );
+    });
+
+    test("prod以外では警告", () => {
+      const annotations = check("stg", addOpenSecurityGroup);
+      annotations.hasWarning(
+        "/TestStack/SecurityGroup/Resource",
+        Match.stringLikeRegexp("^\\[OpenIngress\\]")
+      );
+      annotations.hasNoError("*", Match.anyValue());
+    });
+
+    test("VPC内からのインバウンド通信は許可する", () => {
+      const annotations = check("prod", (stack) => {
+        const vpc = new ec2.Vpc(stack, "Vpc", { natGateways: 0 });
+        new ec2.SecurityGroup(stack, "SecurityGroup", {
+          vpc,
+        }).addIngressRule(ec2.Peer.ipv4(vpc.vpcCidrBlock), ec2.Port.tcp(80));
+      });
+      annotations.hasNoError("*", Match.anyValue());
+      annotations.hasNoWarning("*", Match.anyValue());
+    });
+  });
+
+  describe("UnencryptedBucket", () => {
+    test("暗号化の設定がないバケットは全ステージでエラー", () => {
+      (["dev", "stg", "prod"] as const).forEach((stage) => {
+        const annotations = check(stage, (stack) => {
+          new s3.CfnBucket(stack, "Bucket");
+        });
+        annotations.hasError(
+          "/TestStack/Bucket",
+          Match.stringLikeRegexp("^\\[UnencryptedBucket\\]")
+        );
+      });
+    });
+
+    test("暗号化したバケットはエラーにしない", () => {
+      const annotations = check("prod", (stack) => {
+        new s3.Bucket(stack, "Bucket", {
+          encryption: s3.BucketEncryption.S3_MANAGED,
+          removalPolicy: cdk.RemovalPolicy.RETAIN,
+        });
+      });
+      annotations.hasNoError("*", Match.anyValue());
+    });
+  });
+
+  describe("DestroyInProd", () => {
+    const addDestroyedLogGroup = (stack: cdk.Stack) => {
+      new logs.LogGroup(stack, "LogGroup", {
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+      });
+    };
+
+    test("prodで削除されるステートフルなリソースはエラー", () => {
+      const annotations = check("prod", addDestroyedLogGroup);
+      annotations.hasError(
+        "/TestStack/LogGroup/Resource",
+        Match.stringLikeRegexp(
+          "^\\[DestroyInProd\\] AWS::Logs::LogGroup がスタックの削除時に削除されます"
+        )
+      );
+    });
+
+    test("prod以外ではチェックしない", () => {
+      const annotations = check("dev", addDestroyedLogGroup);
+      annotations.hasNoError("*", Match.anyValue());
+      annotations.hasNoWarning("*", Match.anyValue());
+    });
+  });
+
+  describe("WildcardIam", () => {
+    test("ワイルドカードのアクションと全てのリソースの組み合わせはstg/prodでエラー", () => {
+      (["stg", "prod"] as const).forEach((stage) => {
+        const annotations = check(stage, addWildcardRole);
+        annotations.hasError(
+          "/TestStack/Role/DefaultPolicy/Resource",
+          Match.stringLikeRegexp(
+            "^\\[WildcardIam\\] 全てのリソースに対してワイルドカードのアクションを許可しています: s3:\\*"
+          )
+        );
+      });
+    });
+
+    test("devでは警告", () => {
+      const annotations = check("dev", addWildcardRole);
+      annotations.hasWarning(
+        "/TestStack/Role/DefaultPolicy/Resource",
+        Match.stringLikeRegexp("^\\[WildcardIam\\]")
+      );
+      annotations.hasNoError("*", Match.anyValue());
+    });
+
+    test("ロールのインラインポリシーもチェックする", () => {
+      const annotations = check("prod", (stack) => {
+        new iam.Role(stack, "Role", {
+          assumedBy: new iam.ServicePrincipal("ecs-tasks.amazonaws.com"),
+          inlinePolicies: {
+            Admin: new iam.PolicyDocument({
+              statements: [
+                new iam.PolicyStatement({ actions: ["*"], resources: ["*"] }),
+              ],
+            }),
+          },
+        });
+      });
+      annotations.hasError(
+        "/TestStack/Role/Resource",
+        Match.stringLikeRegexp("^\\[WildcardIam\\]")
+      );
+    });
+
+    test("リソースを限定したステートメントと拒否のステートメントは許可する", () => {
+      const annotations = check("prod", (stack) => {
+        const role = new iam.Role(stack, "Role", {
+          assumedBy: new iam.ServicePrincipal("ecs-tasks.amazonaws.com"),
+        });
+        role.addToPolicy(
+          new iam.PolicyStatement({
+            actions: ["s3:*"],
+            resources: ["arn:aws:s3:::lab-infra-bucket/*"],
+          })
+        );
+        role.addToPolicy(
+          new iam.PolicyStatement({
+            effect: iam.Effect.DENY,
+            actions: ["iam:*"],
+            resources: ["*"],
+          })
+        );
+      });
+      annotations.hasNoError("*", Match.anyValue());
+    });
+  });
+
+  describe("suppressPolicyRule", () => {
+    test("抑制したルールは理由付きの情報にする", () => {
+      const annotations = check("prod", (stack) => {
+        suppressPolicyRule(
+          addOpenSecurityGroup(stack),
+          "OpenIngress",
+          "ALBはインターネットに公開するため"
+        );
+      });
+      annotations.hasNoError("*", Match.anyValue());
+      annotations.hasInfo(
+        "/TestStack/SecurityGroup/Resource",
+        "[OpenIngress] インターネット全体からのインバウンド通信を許可しています（抑制済み: ALBはインターネットに公開するため）"
+      );
+    });
+
+    test("親コンストラクトの抑制も配下のリソースに適用する", () => {
+      const annotations = check("prod", (stack) => {
+        suppressPolicyRule(stack, "WildcardIam", "テスト用のスタックのため");
+        addWildcardRole(stack);
+      });
+      annotations.hasNoError("*", Match.anyValue());
+      annotations.hasInfo(
+        "/TestStack/Role/DefaultPolicy/Resource",
+        Match.stringLikeRegexp("抑制済み: テスト用のスタックのため")
+      );
+    });
+
+    test("他のルールの抑制は適用しない", () => {
+      const annotations = check("prod", (stack) => {
+        suppressPolicyRule(
+          addOpenSecurityGroup(stack),
+          "WildcardIam",
+          "別のルールの抑制"
+        );
+      });
+      annotations.hasError(
+        "/TestStack/SecurityGroup/Resource",
+        Match.stringLikeRegexp("^\\[OpenIngress\\]")
+      );
+    });
+
+    test("理由が空の場合はエラー", () => {
+      const stack = new cdk.Stack(new cdk.App(), "TestStack");
+      expect(() => suppressPolicyRule(stack, "OpenIngress", " ")).toThrow(
+        "TestStack: OpenIngress の抑制には理由を指定してください"
+      );
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import * as cdk from "aws-cdk-lib";
+import {
+  EnvironmentConfig,
+  loadEnvironmentConfig,
+  validateEnvironmentConfig,
+} from "../../lib/config/environment-config";
+import {
+  STAGE_CONFIGS,
+  applyEnvironmentVariables,
+} from "../../lib/config/stages";
+import { TEST_ENV } from "../stacks";
+
+describe("loadEnvironmentConfig", () => {
+  test("ステージの設定を返す", () => {
+    const app = new cdk.App({ context: { stage: "dev" } });
+    expect(loadEnvironmentConfig(app, {})).toEqual(STAGE_CONFIGS.dev);
+  });
+
+  test("通知先とイメージのタグは env から読み込む", () => {
+    const app = new cdk.App({ context: { stage: "stg" } });
+    const config = loadEnvironmentConfig(app, {
+      LAB_INFRA_APPROVER_EMAILS: "a@example.com, b@example.com",
+      LAB_INFRA_PIPELINE_NOTIFICATION_EMAILS: "dev@example.com",
+      LAB_INFRA_ALARM_EMAILS: "ops@example.com,",
+      LAB_INFRA_IMAGE_TAG: "5-abc123",
+    });
+    expect(config.pipeline.approval?.approverEmails).toEqual([
+      "a@example.com",
+      "b@example.com",
+    ]);
+    expect(config.pipeline.notifications?.emails).toEqual(["dev@example.com"]);
+    expect(config.monitoring?.alarmEmails).toEqual(["ops@example.com"]);
+    expect(config.pipeline.imageBuild?.imageTag).toBe("5-abc123");
+  });
+
+  test("ステージが指定されていない場合はエラー", () => {
+    const app = new cdk.App();
+    expect(() => loadEnvironmentConfig(app)).toThrow(
+      "ステージが指定されていません"
+    );
+  });
+
+  test("不正なステージ名の場合はエラー", () => {
+    const app = new cdk.App({ context: { stage: "production" } });
+    expect(() => loadEnvironmentConfig(app)).toThrow(
+      '不正なステージ名です: "production"'
+    );
+  });
+});
+
+describe("validateEnvironmentConfig", () => {
+  // 通知先などの環境変数を反映したステージの設定
+  const stageConfigs = Object.values(STAGE_CONFIGS).map((config) =>
+    applyEnvironmentVariables(config, TEST_ENV)
+  );
+
+  test.each(stageConfigs)("$stage の設定はエラーにならない", (config) => {
+    expect(() => validateEnvironmentConfig(config)).not.toThrow();
+  });
+
+  // stg の設定を元に、一部を差し替えた設定でチェックする
+  const base = applyEnvironmentVariables(STAGE_CONFIGS.stg, TEST_ENV);
+  const withService = (
+    service: Partial<EnvironmentConfig["service"]>
+  ): EnvironmentConfig => ({
+    ...base,
+    service: { ...base.service, ...service },
+  });
+
+  test("問題をすべてまとめて1つのエラーにする", () => {
+    const config = withService({ cpu: 300, desiredCount: -1 });
+    expect(() => validateEnvironmentConfig(config)).toThrow(
+      /\[stg\] 環境設定が不正です:\n {2}- service\.cpu .*\n {2}- service\.desiredCount /
+    );
+  });
+
+  test("CPUとメモリの組み合わせ", () => {
+    expect(() =>
+      validateEnvironmentConfig(withService({ cpu: 256, memoryLimitMiB: 4096 }))
+    ).toThrow(
+      "service.memoryLimitMiB (4096) は cpu 256 と組み合わせられません"
+    );
+  });
+
+  test("VPCのCIDR", () => {
+    const config = {
+      ...base,
+      network: { ...base.network, vpcCidr: "10.0.0.0/8" },
+    };
+    expect(() => validateEnvironmentConfig(config)).toThrow(
+      "network.vpcCidr のプレフィックス長は /16〜/22 で指定してください"
+    );
+  });
+
+  test("natInstance はアカウントが必須", () => {
+    const config: EnvironmentConfig = {
+      ...base,
+      account: undefined,
+      network: { ...base.network, egress: "natInstance" },
+    };
+    expect(() => validateEnvironmentConfig(config)).toThrow(
+      "network.egress が natInstance の場合は account を指定してください"
+    );
+  });
+
+  describe("vpcEndpoints のイメージ", () => {
+    const vpcEndpoints = (imageTag?: string): EnvironmentConfig => ({
+      ...base,
+      network: { ...base.network, egress: "vpcEndpoints" },
+      pipeline: {
+        ...base.pipeline,
+        imageBuild: base.pipeline.imageBuild && {
+          ...base.pipeline.imageBuild,
+          imageTag,
+        },
+      },
+    });
+
+    test("ECR以外のイメージはエラー", () => {
+      expect(() => validateEnvironmentConfig(vpcEndpoints())).toThrow(
+        'network.egress が vpcEndpoints の場合、service.containers[0].image はECRのイメージを指定してください: "amazon/amazon-ecs-sample"'
+      );
+    });
+
+    test("パイプラインでビルドしたイメージ（imageTag 指定時）は許可する", () => {
+      expect(() =>
+        validateEnvironmentConfig(vpcEndpoints("5-abc123"))
+      ).not.toThrow();
+    });
+
+    test("ECRのイメージは許可する", () => {
+      const config: EnvironmentConfig = {
+        ...vpcEndpoints(),
+        service: {
+          ...base.service,
+          containers: base.service.containers.map((container) => ({
+            ...container,
+            image:
+              "123456789012.dkr.ecr.ap-northeast-1.amazonaws.com/lab-infra-app:v1",
+          })),
+        },
+      };
+      expect(() => validateEnvironmentConfig(config)).not.toThrow();
+    });
+  });
+
+  test("イメージのタグ（LAB_INFRA_IMAGE_TAG）", () => {
+    const config: EnvironmentConfig = {
+      ...base,
+      pipeline: {
+        ...base.pipeline,
+        imageBuild: base.pipeline.imageBuild && {
+          ...base.pipeline.imageBuild,
+          imageTag: "1+abc",
+        },
+      },
+    };
+    expect(() => validateEnvironmentConfig(config)).toThrow(
+      'pipeline.imageBuild.imageTag（LAB_INFRA_IMAGE_TAG）がイメージのタグとして不正です: "1+abc"'
+    );
+  });
+
+  test("承認する場合は承認者が必須", () => {
+    const config: EnvironmentConfig = {
+      ...base,
+      pipeline: { ...base.pipeline, approval: { approverEmails: [] } },
+    };
+    expect(() => validateEnvironmentConfig(config)).toThrow(
+      "pipeline.approval を設定する場合は approverEmails（LAB_INFRA_APPROVER_EMAILS）を指定してください"
+    );
+  });
+
+  test("Blue/Green デプロイはイメージのビルドが必須", () => {
+    const prod = applyEnvironmentVariables(STAGE_CONFIGS.prod, TEST_ENV);
+    const config: EnvironmentConfig = {
+      ...prod,
+      pipeline: { ...prod.pipeline, imageBuild: undefined },
+    };
+    expect(() => validateEnvironmentConfig(config)).toThrow(
+      "service.deployment が blueGreen の場合は pipeline.imageBuild を設定してください"
+    );
+  });
+});
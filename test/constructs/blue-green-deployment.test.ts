@@ -0,0 +1,92 @@
+import { Match } from "aws-cdk-lib/assertions";
+import { createStacks, pipelineStages } from "../stacks";
+
+describe("Blue/Greenデプロイ（prod）", () => {
+  let stacks: ReturnType<typeof createStacks>;
+
+  beforeAll(() => {
+    stacks = createStacks("prod");
+  });
+
+  test("CodeDeployでタスクセットを切り替える", () => {
+    stacks.service.hasResourceProperties("AWS::ECS::Service", {
+      ServiceName: "lab-infra-service",
+      DeploymentController: { Type: "CODE_DEPLOY" },
+    });
+    expect(pipelineStages(stacks.pipeline).Release).toEqual([
+      "BlueGreenDeploy",
+    ]);
+  });
+
+  test("本番とテストのリスナーで2つのターゲットグループを切り替える", () => {
+    stacks.service.hasResourceProperties(
+      "AWS::ElasticLoadBalancingV2::TargetGroup",
+      { Name: "lab-infra-tg-green" }
+    );
+    stacks.service.hasResourceProperties(
+      "AWS::ElasticLoadBalancingV2::Listener",
+      { Port: 8080 }
+    );
+    stacks.service.hasResourceProperties("AWS::CodeDeploy::DeploymentGroup", {
+      ApplicationName: { Ref: Match.anyValue() },
+      DeploymentGroupName: "lab-infra-service-dg",
+      BlueGreenDeploymentConfiguration: {
+        DeploymentReadyOption: Match.anyValue(),
+        TerminateBlueInstancesOnDeploymentSuccess: {
+          Action: "TERMINATE",
+          TerminationWaitTimeInMinutes: 15,
+        },
+      },
+      LoadBalancerInfo: {
+        TargetGroupPairInfoList: [
+          Match.objectLike({
+            TargetGroups: [Match.anyValue(), Match.anyValue()],
+            TestTrafficRoute: Match.anyValue(),
+          }),
+        ],
+      },
+    });
+  });
+
+  test("カナリアでトラフィックを切り替える", () => {
+    stacks.service.hasResourceProperties("AWS::CodeDeploy::DeploymentConfig", {
+      ComputePlatform: "ECS",
+      TrafficRoutingConfig: {
+        Type: "TimeBasedCanary",
+        TimeBasedCanary: { CanaryPercentage: 10, CanaryInterval: 5 },
+      },
+    });
+  });
+
+  test("失敗・停止・アラームで自動的にロールバックする", () => {
+    stacks.service.hasResourceProperties("AWS::CodeDeploy::DeploymentGroup", {
+      AutoRollbackConfiguration: {
+        Enabled: true,
+        Events: Match.arrayWith([
+          "DEPLOYMENT_FAILURE",
+          "DEPLOYMENT_STOP_ON_REQUEST",
+          "DEPLOYMENT_STOP_ON_ALARM",
+        ]),
+      },
+    });
+    const [group] = Object.values(
+      stacks.service.findResources("AWS::CodeDeploy::DeploymentGroup")
+    );
+    // 2つのターゲットグループごとに5xxと異常なタスクのアラーム
+    expect(group.Properties.AlarmConfiguration).toEqual({
+      Enabled: true,
+      Alarms: [
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+      ],
+    });
+  });
+});
+
+test("rolling の環境ではECSのデプロイコントローラーを使用する", () => {
+  const { service, pipeline } = createStacks("stg");
+  service.resourceCountIs("AWS::CodeDeploy::DeploymentGroup", 0);
+  expect(pipelineStages(pipeline).Release).toBeUndefined();
+});
@@ -0,0 +1,107 @@
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { StageName } from "../../lib/config/environment-config";
+import { createStacks } from "../stacks";
+
+// エイリアスからKMSキーのARNの参照を求める
+function keyArn(template: Template, aliasName: string) {
+  const [alias] = Object.values(
+    template.findResources("AWS::KMS::Alias", {
+      Properties: { AliasName: aliasName },
+    })
+  );
+  return {
+    "Fn::GetAtt": [alias.Properties.TargetKeyId["Fn::GetAtt"][0], "Arn"],
+  };
+}
+
+// バケットの暗号化の設定
+function bucketEncryption(template: Template, bucketNamePrefix: string) {
+  const [bucket] = Object.values(
+    template.findResources("AWS::S3::Bucket", {
+      Properties: {
+        BucketName: {
+          "Fn::Join": ["", Match.arrayWith([bucketNamePrefix])],
+        },
+      },
+    })
+  );
+  return bucket.Properties.BucketEncryption
+    .ServerSideEncryptionConfiguration[0];
+}
+
+describe.each<StageName>(["dev", "stg", "prod"])("%s の暗号化", (stage) => {
+  let stacks: ReturnType<typeof createStacks>;
+
+  beforeAll(() => {
+    stacks = createStacks(stage);
+  });
+
+  test("encryption を設定した場合はソース・アーティファクトのバケットをKMSキーで暗号化する", () => {
+    const { encryption } = stacks.config;
+    const buckets = ["lab-infra-source-", "lab-infra-artifacts-"].map(
+      (prefix) => bucketEncryption(stacks.pipeline, prefix)
+    );
+    if (!encryption) {
+      stacks.pipeline.resourceCountIs("AWS::KMS::Key", 0);
+      buckets.forEach((bucket) => {
+        expect(bucket.ServerSideEncryptionByDefault).toEqual({
+          SSEAlgorithm: "AES256",
+        });
+      });
+      return;
+    }
+    const key = keyArn(stacks.pipeline, "alias/lab-infra-pipeline");
+    stacks.pipeline.hasResourceProperties("AWS::KMS::Key", {
+      EnableKeyRotation: true,
+      PendingWindowInDays: encryption.pendingWindowDays,
+    });
+    buckets.forEach((bucket) => {
+      expect(bucket).toEqual({
+        ServerSideEncryptionByDefault: {
+          SSEAlgorithm: "aws:kms",
+          KMSMasterKeyID: key,
+        },
+        BucketKeyEnabled: true,
+      });
+    });
+  });
+
+  test("encryption を設定した場合はパイプラインのアーティファクトをKMSキーで暗号化する", () => {
+    if (!stacks.config.encryption) {
+      stacks.pipeline.hasResourceProperties("AWS::CodePipeline::Pipeline", {
+        ArtifactStore: { Type: "S3", EncryptionKey: Match.absent() },
+      });
+      return;
+    }
+    const key = keyArn(stacks.pipeline, "alias/lab-infra-pipeline");
+    stacks.pipeline.hasResourceProperties("AWS::CodePipeline::Pipeline", {
+      ArtifactStore: Match.objectLike({
+        EncryptionKey: { Id: key, Type: "KMS" },
+      }),
+    });
+    stacks.pipeline.hasResourceProperties("AWS::CodeBuild::Project", {
+      Name: "lab-infra-build",
+      EncryptionKey: key,
+    });
+  });
+
+  test("encryption を設定した場合はサービスのロググループをKMSキーで暗号化する", () => {
+    const { encryption } = stacks.config;
+    if (!encryption) {
+      stacks.service.hasResourceProperties("AWS::Logs::LogGroup", {
+        LogGroupName: "/aws/ecs/lab-infra",
+        KmsKeyId: Match.absent(),
+      });
+      return;
+    }
+    const key = keyArn(stacks.service, "alias/lab-infra-service");
+    stacks.service.hasResourceProperties("AWS::KMS::Key", {
+      EnableKeyRotation: true,
+      PendingWindowInDays: encryption.pendingWindowDays,
+    });
+    stacks.service.hasResourceProperties("AWS::Logs::LogGroup", {
+      LogGroupName: "/aws/ecs/lab-infra",
+      KmsKeyId: key,
+    });
+  });
+});
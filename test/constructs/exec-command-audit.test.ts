@@ -0,0 +1,134 @@
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { StageName } from "../../lib/config/environment-config";
+import { createStacks } from "../stacks";
+
+// タスクロールのポリシーのステートメント
+function taskRoleStatements(template: Template) {
+  const policies = template.findResources("AWS::IAM::Policy", {
+    Properties: {
+      Roles: [{ Ref: Match.stringLikeRegexp("^LabInfraTaskRole") }],
+    },
+  });
+  return Object.values(policies).flatMap(
+    (policy) => policy.Properties.PolicyDocument.Statement
+  );
+}
+
+describe.each<StageName>(["dev", "stg", "prod"])("%s の ECS Exec", (stage) => {
+  let stacks: ReturnType<typeof createStacks>;
+
+  beforeAll(() => {
+    stacks = createStacks(stage);
+  });
+
+  // 共通のキー（encryption の設定がある場合）またはECS Exec専用のキー
+  const keyAlias = () =>
+    stacks.config.encryption
+      ? "alias/lab-infra-service"
+      : "alias/lab-infra-exec-command";
+
+  const keyLogicalId = () => {
+    const [alias] = Object.values(
+      stacks.service.findResources("AWS::KMS::Alias", {
+        Properties: { AliasName: keyAlias() },
+      })
+    );
+    return alias.Properties.TargetKeyId["Fn::GetAtt"][0] as string;
+  };
+
+  test("設定がある場合のみサービスでECS Execを有効にする", () => {
+    stacks.service.hasResourceProperties("AWS::ECS::Service", {
+      ServiceName: "lab-infra-service",
+      EnableExecuteCommand: stacks.config.execCommand !== undefined,
+    });
+    if (!stacks.config.execCommand) {
+      stacks.service.hasResourceProperties("AWS::ECS::Cluster", {
+        Configuration: Match.absent(),
+      });
+    }
+  });
+
+  test("セッションをKMSキーで暗号化し、設定の保存先に記録する", () => {
+    const { execCommand } = stacks.config;
+    if (!execCommand) {
+      return;
+    }
+    const s3 = execCommand.logDestinations.includes("s3");
+    stacks.service.hasResourceProperties("AWS::ECS::Cluster", {
+      Configuration: {
+        ExecuteCommandConfiguration: {
+          KmsKeyId: { "Fn::GetAtt": [keyLogicalId(), "Arn"] },
+          Logging: "OVERRIDE",
+          LogConfiguration: {
+            CloudWatchLogGroupName: {
+              Ref: Match.stringLikeRegexp("LabInfraExecCommandAuditLogGroup"),
+            },
+            CloudWatchEncryptionEnabled: true,
+            S3BucketName: s3
+              ? {
+                  Ref: Match.stringLikeRegexp(
+                    "LabInfraExecCommandAuditLogBucket"
+                  ),
+                }
+              : Match.absent(),
+            S3EncryptionEnabled: s3,
+            S3KeyPrefix: s3 ? "exec-command" : Match.absent(),
+          },
+        },
+      },
+    });
+    stacks.service.hasResourceProperties("AWS::Logs::LogGroup", {
+      LogGroupName: "/aws/ecs/lab-infra-exec-command",
+      KmsKeyId: { "Fn::GetAtt": [keyLogicalId(), "Arn"] },
+    });
+  });
+
+  test("タスクロールにセッションのチャネルとKMSキーの使用を許可する", () => {
+    if (!stacks.config.execCommand) {
+      return;
+    }
+    const statements = taskRoleStatements(stacks.service);
+    const actions = statements.flatMap((statement) =>
+      ([] as string[]).concat(statement.Action)
+    );
+    expect(actions).toEqual(
+      expect.arrayContaining([
+        "ssmmessages:CreateControlChannel",
+        "ssmmessages:CreateDataChannel",
+        "ssmmessages:OpenControlChannel",
+        "ssmmessages:OpenDataChannel",
+      ])
+    );
+    expect(statements).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          Action: ["kms:Decrypt", "kms:GenerateDataKey"],
+          Resource: { "Fn::GetAtt": [keyLogicalId(), "Arn"] },
+        }),
+      ])
+    );
+  });
+
+  test("CloudWatch Logsにキーの使用を許可する", () => {
+    if (!stacks.config.execCommand) {
+      return;
+    }
+    stacks.service.hasResourceProperties("AWS::KMS::Key", {
+      EnableKeyRotation: true,
+      KeyPolicy: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Principal: {
+              Service: Match.stringLikeRegexp("^logs\\..*\\.amazonaws\\.com$"),
+            },
+            Condition: {
+              ArnLike: {
+                "kms:EncryptionContext:aws:logs:arn": Match.anyValue(),
+              },
+            },
+          }),
+        ]),
+      },
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { StageName } from "../../lib/config/environment-config";
+import { createStacks } from "../stacks";
+
+// 実行ロールのポリシーのステートメント
+// ポリシーのサイズの上限を超えた分は管理ポリシー（OverflowPolicy）に分割される
+function deploymentRoleStatements(pipeline: Template) {
+  const props = {
+    Properties: {
+      Roles: [
+        { Ref: Match.stringLikeRegexp("^LabInfraCloudFormationExecutionRole") },
+      ],
+    },
+  };
+  const policies = [
+    ...Object.values(pipeline.findResources("AWS::IAM::Policy", props)),
+    ...Object.values(pipeline.findResources("AWS::IAM::ManagedPolicy", props)),
+  ];
+  expect(policies.length).toBeGreaterThan(0);
+  return policies.flatMap(
+    (policy) => policy.Properties.PolicyDocument.Statement
+  );
+}
+
+// ステートメントの Action を配列にする
+function actionsOf(statement: { Action: string | string[] }): string[] {
+  return ([] as string[]).concat(statement.Action);
+}
+
+describe.each<StageName>(["dev", "stg", "prod"])("%s", (stage) => {
+  let stacks: ReturnType<typeof createStacks>;
+
+  beforeAll(() => {
+    stacks = createStacks(stage);
+  });
+
+  test("全てのスタックのIAMロールに権限の境界を設定する", () => {
+    const templates = [
+      stacks.network,
+      stacks.database,
+      stacks.service,
+      stacks.pipeline,
+    ].filter((template): template is Template => template !== undefined);
+    templates.forEach((template) => {
+      Object.values(template.findResources("AWS::IAM::Role")).forEach(
+        (role) => {
+          expect(role.Properties.PermissionsBoundary).toBeDefined();
+        }
+      );
+    });
+  });
+
+  test("実行ロールにサービス単位のワイルドカードを許可しない", () => {
+    const wildcards = deploymentRoleStatements(stacks.pipeline)
+      .filter((statement) => statement.Effect === "Allow")
+      .flatMap(actionsOf)
+      .filter((action) => action === "*" || action.endsWith(":*"));
+    expect(wildcards).toEqual([]);
+  });
+
+  test("ロールの作成は権限の境界を条件にする", () => {
+    const statement = deploymentRoleStatements(stacks.pipeline).find(
+      (statement) =>
+        statement.Effect === "Allow" &&
+        actionsOf(statement).includes("iam:CreateRole")
+    );
+    expect(statement.Condition.StringEquals).toHaveProperty(
+      "iam:PermissionsBoundary"
+    );
+  });
+
+  test("アタッチできる管理ポリシーを限定する", () => {
+    const statement = deploymentRoleStatements(stacks.pipeline).find(
+      (statement) =>
+        statement.Effect === "Allow" &&
+        actionsOf(statement).includes("iam:AttachRolePolicy")
+    );
+    expect(statement.Condition.StringEquals).toHaveProperty(
+      "iam:PermissionsBoundary"
+    );
+    expect(statement.Condition.ArnEquals["iam:PolicyARN"]).toHaveLength(3);
+  });
+
+  test("実行ロール自身のIAMの変更を拒否する", () => {
+    const statement = deploymentRoleStatements(stacks.pipeline).find(
+      (statement) => statement.Effect === "Deny"
+    );
+    expect(actionsOf(statement)).toEqual(
+      expect.arrayContaining(["iam:PutRolePolicy", "iam:AttachRolePolicy"])
+    );
+    expect(JSON.stringify(statement.Resource)).toMatch(
+      /role\/LabInfraCloudFormationExecutionRole"/
+    );
+  });
+
+  test("権限の境界は境界のないロールの作成を拒否する", () => {
+    stacks.pipeline.hasResourceProperties("AWS::IAM::ManagedPolicy", {
+      ManagedPolicyName: "LabInfraPermissionsBoundary",
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Sid: "DenyRolesWithoutBoundary",
+            Effect: "Deny",
+            Condition: {
+              StringNotEquals: { "iam:PermissionsBoundary": Match.anyValue() },
+            },
+          }),
+        ]),
+      },
+    });
+  });
+});
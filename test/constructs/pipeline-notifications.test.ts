@@ -0,0 +1,99 @@
+import { Match } from "aws-cdk-lib/assertions";
+import { createStacks } from "../stacks";
+
+// 通知ルールのイベントのID
+const PIPELINE_EVENTS = {
+  started: "codepipeline-pipeline-pipeline-execution-started",
+  succeeded: "codepipeline-pipeline-pipeline-execution-succeeded",
+  failed: "codepipeline-pipeline-pipeline-execution-failed",
+  approvalNeeded: "codepipeline-pipeline-manual-approval-needed",
+};
+
+describe("パイプラインの通知", () => {
+  test("stg は失敗と承認待ちをメールで通知する", () => {
+    const { pipeline } = createStacks("stg");
+    pipeline.hasResourceProperties(
+      "AWS::CodeStarNotifications::NotificationRule",
+      {
+        Name: "lab-infra-pipeline-notifications",
+        DetailType: "FULL",
+        EventTypeIds: [PIPELINE_EVENTS.failed, PIPELINE_EVENTS.approvalNeeded],
+        Resource: Match.anyValue(),
+        Targets: [
+          {
+            TargetType: "SNS",
+            TargetAddress: {
+              Ref: Match.stringLikeRegexp("NotificationsTopic"),
+            },
+          },
+        ],
+      }
+    );
+    pipeline.hasResourceProperties("AWS::SNS::Subscription", {
+      Protocol: "email",
+      Endpoint: "pipeline@example.com",
+      TopicArn: { Ref: Match.stringLikeRegexp("NotificationsTopic") },
+    });
+    pipeline.resourcePropertiesCountIs(
+      "AWS::SNS::Subscription",
+      { Protocol: "lambda" },
+      0
+    );
+  });
+
+  test("prod は全てのイベントをメールとチャットに通知する", () => {
+    const { pipeline } = createStacks("prod");
+    pipeline.hasResourceProperties(
+      "AWS::CodeStarNotifications::NotificationRule",
+      {
+        Name: "lab-infra-pipeline-notifications",
+        EventTypeIds: [
+          PIPELINE_EVENTS.started,
+          PIPELINE_EVENTS.succeeded,
+          PIPELINE_EVENTS.failed,
+          PIPELINE_EVENTS.approvalNeeded,
+        ],
+      }
+    );
+    pipeline.hasResourceProperties("AWS::SNS::Subscription", {
+      Protocol: "email",
+      Endpoint: "pipeline@example.com",
+    });
+    pipeline.hasResourceProperties("AWS::SNS::Subscription", {
+      Protocol: "lambda",
+      TopicArn: { Ref: Match.stringLikeRegexp("NotificationsTopic") },
+    });
+  });
+
+  test("チャットのWebhookのURLはSecrets Managerから読み込む", () => {
+    const { pipeline } = createStacks("prod");
+    pipeline.hasResourceProperties("AWS::Lambda::Function", {
+      Environment: {
+        Variables: {
+          SECRET_ID: "lab-infra/pipeline-chat-webhook",
+          CHAT_FORMAT: "slack",
+        },
+      },
+    });
+    pipeline.hasResourceProperties("AWS::IAM::Policy", {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: Match.arrayWith(["secretsmanager:GetSecretValue"]),
+            Resource: {
+              "Fn::Join": [
+                "",
+                Match.arrayWith([
+                  Match.stringLikeRegexp(
+                    ":secret:lab-infra/pipeline-chat-webhook-\\?\\?\\?\\?\\?\\?$"
+                  ),
+                ]),
+              ],
+            },
+          }),
+        ]),
+      },
+      Roles: [{ Ref: Match.stringLikeRegexp("ChatFunction") }],
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { Match } from "aws-cdk-lib/assertions";
+import { StageName } from "../../lib/config/environment-config";
+import { createStacks } from "../stacks";
+
+describe.each<StageName>(["stg", "prod"])("%s の監視", (stage) => {
+  let stacks: ReturnType<typeof createStacks>;
+
+  beforeAll(() => {
+    stacks = createStacks(stage);
+  });
+
+  // アラームの状態変化をアラームのトピックに通知する
+  const notifiesTopic = {
+    AlarmActions: [{ Ref: Match.stringLikeRegexp("AlarmTopic") }],
+    OKActions: [{ Ref: Match.stringLikeRegexp("AlarmTopic") }],
+  };
+
+  test("ダッシュボードにサービスとALBのメトリクスを表示する", () => {
+    const dashboards = stacks.service.findResources(
+      "AWS::CloudWatch::Dashboard",
+      { Properties: { DashboardName: "lab-infra-service" } }
+    );
+    expect(Object.keys(dashboards)).toHaveLength(1);
+    const body = JSON.stringify(dashboards);
+    [
+      "CPUUtilization",
+      "MemoryUtilization",
+      "RunningTaskCount",
+      "ApplicationLogErrors",
+      "HTTPCode_Target_5XX_Count",
+      "TargetResponseTime",
+    ].forEach((metricName) => {
+      expect(body).toContain(metricName);
+    });
+  });
+
+  test("実行中のタスクが必要数より少ない場合（0の場合を含む）のアラーム", () => {
+    stacks.service.hasResourceProperties("AWS::CloudWatch::Alarm", {
+      AlarmName: "lab-infra-running-tasks-below-desired",
+      ComparisonOperator: "GreaterThanOrEqualToThreshold",
+      Threshold: 1,
+      Metrics: Match.arrayWith([
+        Match.objectLike({ Expression: "desired - running" }),
+      ]),
+      ...notifiesTopic,
+    });
+  });
+
+  test("CPU・メモリ使用率のアラームに設定のしきい値を使用する", () => {
+    const monitoring = stacks.config.monitoring!;
+    stacks.service.hasResourceProperties("AWS::CloudWatch::Alarm", {
+      Namespace: "AWS/ECS",
+      MetricName: "CPUUtilization",
+      Threshold: monitoring.cpuAlarmThreshold,
+      ...notifiesTopic,
+    });
+    stacks.service.hasResourceProperties("AWS::CloudWatch::Alarm", {
+      Namespace: "AWS/ECS",
+      MetricName: "MemoryUtilization",
+      Threshold: monitoring.memoryAlarmThreshold,
+      ...notifiesTopic,
+    });
+  });
+
+  test("ALBとタスクの5xxエラーのアラーム", () => {
+    stacks.service.hasResourceProperties("AWS::CloudWatch::Alarm", {
+      AlarmName: "lab-infra-http-5xx",
+      Metrics: Match.arrayWith([
+        Match.objectLike({ Expression: "FILL(elb, 0) + FILL(target, 0)" }),
+        Match.objectLike({
+          Id: "elb",
+          MetricStat: Match.objectLike({
+            Metric: Match.objectLike({ MetricName: "HTTPCode_ELB_5XX_Count" }),
+          }),
+        }),
+        Match.objectLike({
+          Id: "target",
+          MetricStat: Match.objectLike({
+            Metric: Match.objectLike({
+              MetricName: "HTTPCode_Target_5XX_Count",
+            }),
+          }),
+        }),
+      ]),
+      ...notifiesTopic,
+    });
+  });
+
+  test("アラームを通知先のメールアドレスに送る", () => {
+    stacks.service.hasResourceProperties("AWS::SNS::Topic", {
+      TopicName: "lab-infra-alarms",
+    });
+    stacks.service.hasResourceProperties("AWS::SNS::Subscription", {
+      Protocol: "email",
+      Endpoint: "alarm@example.com",
+      TopicArn: { Ref: Match.stringLikeRegexp("AlarmTopic") },
+    });
+  });
+});
+
+test("monitoring を設定しない場合は監視のリソースを作成しない", () => {
+  const { service } = createStacks("dev");
+  service.resourceCountIs("AWS::CloudWatch::Dashboard", 0);
+  service.resourceCountIs("AWS::CloudWatch::Alarm", 0);
+});
+
+describe("アラームのWebhook", () => {
+  test("シークレットのURLにLambda関数から通知する", () => {
+    const { service } = createStacks("prod");
+    service.hasResourceProperties("AWS::Lambda::Function", {
+      Environment: {
+        Variables: { SECRET_ID: "lab-infra/alarm-webhook" },
+      },
+    });
+    service.hasResourceProperties("AWS::SNS::Subscription", {
+      Protocol: "lambda",
+      TopicArn: { Ref: Match.stringLikeRegexp("AlarmTopic") },
+    });
+  });
+
+  test("alarmWebhook を設定しない場合はWebhookに通知しない", () => {
+    const { service } = createStacks("stg");
+    service.resourcePropertiesCountIs(
+      "AWS::SNS::Subscription",
+      { Protocol: "lambda" },
+      0
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { StageName } from "../../lib/config/environment-config";
+import { createStacks } from "../stacks";
+
+describe.each<StageName>(["dev", "stg"])("%s", (stage) => {
+  let stacks: ReturnType<typeof createStacks>;
+  let service: Template;
+
+  beforeAll(() => {
+    stacks = createStacks(stage);
+    service = stacks.service;
+  });
+
+  test("停止・再開のスケジュールアクションにタイムゾーンを設定する", () => {
+    const schedule = stacks.config.service.schedule!;
+    // 自動スケーリングを設定しない場合は desiredCount の固定数で再開する
+    const { autoScaling, desiredCount } = stacks.config.service;
+    service.hasResourceProperties(
+      "AWS::ApplicationAutoScaling::ScalableTarget",
+      {
+        ScheduledActions: [
+          {
+            ScheduledActionName: "Sleep",
+            Schedule: `cron(${schedule.sleepCron})`,
+            Timezone: schedule.timeZone,
+            ScalableTargetAction: { MinCapacity: 0, MaxCapacity: 0 },
+          },
+          {
+            ScheduledActionName: "Wake",
+            Schedule: `cron(${schedule.wakeCron})`,
+            Timezone: schedule.timeZone,
+            ScalableTargetAction: {
+              MinCapacity: autoScaling?.minCapacity ?? desiredCount,
+              MaxCapacity: autoScaling?.maxCapacity ?? desiredCount,
+            },
+          },
+        ],
+      }
+    );
+  });
+
+  test("keep-awakeのパラメータとLambda関数を作成する", () => {
+    service.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: "/lab-infra/keep-awake-until",
+      Value: "none",
+    });
+    service.hasResourceProperties("AWS::Lambda::Function", {
+      Environment: {
+        Variables: Match.objectLike({
+          PARAMETER_NAME: { Ref: Match.anyValue() },
+          RESOURCE_ID: Match.anyValue(),
+        }),
+      },
+    });
+  });
+
+  test("パラメータの変更時と15分ごとにLambda関数を実行する", () => {
+    service.hasResourceProperties("AWS::Events::Rule", {
+      EventPattern: {
+        source: ["aws.ssm"],
+        "detail-type": ["Parameter Store Change"],
+        detail: { name: [{ Ref: Match.anyValue() }] },
+      },
+      Targets: [Match.objectLike({ Arn: Match.anyValue() })],
+    });
+    service.hasResourceProperties("AWS::Events::Rule", {
+      ScheduleExpression: "rate(15 minutes)",
+      Targets: [Match.objectLike({ Arn: Match.anyValue() })],
+    });
+  });
+});
+
+test("スケジュールを設定しない場合は停止しない", () => {
+  const { service } = createStacks("prod");
+  service.resourceCountIs("AWS::SSM::Parameter", 0);
+  service.hasResourceProperties("AWS::ApplicationAutoScaling::ScalableTarget", {
+    ScheduledActions: Match.absent(),
+  });
+});
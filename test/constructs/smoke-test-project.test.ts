@@ -0,0 +1,100 @@
+import { Match } from "aws-cdk-lib/assertions";
+import { createStacks, pipelineStages } from "../stacks";
+
+// スモークテストのプロジェクトの環境変数
+function smokeTestEnvironment(name: string, value: string) {
+  return {
+    Name: "lab-infra-smoke-test",
+    Environment: Match.objectLike({
+      EnvironmentVariables: Match.arrayWith([
+        { Name: name, Type: "PLAINTEXT", Value: value },
+      ]),
+    }),
+  };
+}
+
+describe("スケジュールで停止するサービス", () => {
+  test("keep-awakeのパラメータで起こしてからテストする", () => {
+    const { pipeline } = createStacks("stg");
+    pipeline.hasResourceProperties(
+      "AWS::CodeBuild::Project",
+      smokeTestEnvironment(
+        "KEEP_AWAKE_PARAMETER",
+        "/lab-infra/keep-awake-until"
+      )
+    );
+    pipeline.hasResourceProperties("AWS::IAM::Policy", {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: ["ssm:GetParameter", "ssm:PutParameter"],
+            Resource: {
+              "Fn::Join": [
+                "",
+                Match.arrayWith([
+                  Match.stringLikeRegexp(
+                    ":parameter/lab-infra/keep-awake-until$"
+                  ),
+                ]),
+              ],
+            },
+          }),
+        ]),
+      },
+    });
+  });
+
+  test("スケジュールのないサービスは起こさない", () => {
+    const { pipeline } = createStacks("prod");
+    pipeline.hasResourceProperties(
+      "AWS::CodeBuild::Project",
+      smokeTestEnvironment("KEEP_AWAKE_PARAMETER", "")
+    );
+  });
+});
+
+describe("ロールバック（prod）", () => {
+  let stacks: ReturnType<typeof createStacks>;
+
+  beforeAll(() => {
+    stacks = createStacks("prod");
+  });
+
+  test("ロールバック先のタスク定義をデプロイ前に記録する", () => {
+    expect(pipelineStages(stacks.pipeline).Deploy[0]).toBe(
+      "RecordTaskDefinition"
+    );
+    stacks.pipeline.hasResourceProperties("AWS::CodePipeline::Pipeline", {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: "SmokeTest",
+          Actions: [
+            Match.objectLike({
+              Configuration: Match.objectLike({
+                EnvironmentVariables: Match.stringLikeRegexp(
+                  "RecordTaskDefinition.*PREVIOUS_TASK_DEFINITION"
+                ),
+              }),
+            }),
+          ],
+        }),
+      ]),
+    });
+  });
+
+  test("置き換えたタスク定義を登録解除しない", () => {
+    stacks.service.hasResource("AWS::ECS::TaskDefinition", {
+      DeletionPolicy: "Retain",
+      UpdateReplacePolicy: "Retain",
+    });
+  });
+});
+
+test("ロールバックしない環境ではタスク定義を記録しない", () => {
+  const { pipeline } = createStacks("stg");
+  expect(pipelineStages(pipeline).Deploy).not.toContain("RecordTaskDefinition");
+  pipeline.hasResourceProperties(
+    "AWS::CodeBuild::Project",
+    smokeTestEnvironment("ROLLBACK_ON_FAILURE", "false")
+  );
+});
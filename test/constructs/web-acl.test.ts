@@ -0,0 +1,107 @@
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { createStacks } from "../stacks";
+
+// ウェブACLのルールの名前と優先順位（priority）
+function rulePriorities(template: Template): Record<string, number> {
+  const [webAcl] = Object.values(template.findResources("AWS::WAFv2::WebACL"));
+  return Object.fromEntries(
+    webAcl.Properties.Rules.map((rule: { Name: string; Priority: number }) => [
+      rule.Name,
+      rule.Priority,
+    ])
+  );
+}
+
+describe("WAF", () => {
+  let prod: ReturnType<typeof createStacks>;
+
+  beforeAll(() => {
+    prod = createStacks("prod");
+  });
+
+  test("prod はALBにウェブACLを関連付ける", () => {
+    const { service } = prod;
+    service.hasResourceProperties("AWS::WAFv2::WebACL", {
+      Name: "lab-infra-web-acl",
+      Scope: "REGIONAL",
+      DefaultAction: { Allow: {} },
+    });
+    service.hasResourceProperties("AWS::WAFv2::WebACLAssociation", {
+      ResourceArn: { Ref: Match.stringLikeRegexp("^LabInfraLoadBalancer") },
+      WebACLArn: {
+        "Fn::GetAtt": [Match.stringLikeRegexp("^LabInfraWebAcl"), "Arn"],
+      },
+    });
+  });
+
+  test("レート制限をマネージドルールグループより先に評価する", () => {
+    const { service } = prod;
+    expect(rulePriorities(service)).toEqual({
+      "rate-limit": 0,
+      AWSManagedRulesCommonRuleSet: 1,
+      AWSManagedRulesKnownBadInputsRuleSet: 2,
+      AWSManagedRulesAmazonIpReputationList: 3,
+    });
+    service.hasResourceProperties("AWS::WAFv2::WebACL", {
+      Rules: Match.arrayWith([
+        Match.objectLike({
+          Name: "rate-limit",
+          Action: { Block: {} },
+          Statement: {
+            RateBasedStatement: { Limit: 2000, AggregateKeyType: "IP" },
+          },
+        }),
+        Match.objectLike({
+          Name: "AWSManagedRulesCommonRuleSet",
+          OverrideAction: { None: {} },
+          Statement: {
+            ManagedRuleGroupStatement: {
+              VendorName: "AWS",
+              Name: "AWSManagedRulesCommonRuleSet",
+            },
+          },
+        }),
+      ]),
+    });
+  });
+
+  test("許可リスト・拒否リストは最初に評価する", () => {
+    const { service } = createStacks("prod", (config) => ({
+      ...config,
+      loadBalancer: config.loadBalancer && {
+        ...config.loadBalancer,
+        waf: {
+          ...config.loadBalancer.waf!,
+          allowedIpCidrs: ["203.0.113.0/24"],
+          blockedIpCidrs: ["198.51.100.0/24"],
+        },
+      },
+    }));
+    expect(rulePriorities(service)).toMatchObject({
+      "allowed-ips": 0,
+      "blocked-ips": 1,
+      "rate-limit": 2,
+    });
+    service.hasResourceProperties("AWS::WAFv2::IPSet", {
+      Name: "lab-infra-allowed-ips",
+      Addresses: ["203.0.113.0/24"],
+    });
+  });
+
+  test("リクエストのログをCloudWatch Logsに保存する", () => {
+    const { service } = prod;
+    service.hasResourceProperties("AWS::Logs::LogGroup", {
+      LogGroupName: "aws-waf-logs-lab-infra",
+    });
+    service.hasResourceProperties("AWS::WAFv2::LoggingConfiguration", {
+      ResourceArn: {
+        "Fn::GetAtt": [Match.stringLikeRegexp("^LabInfraWebAcl"), "Arn"],
+      },
+    });
+  });
+
+  test("waf を設定しない場合はウェブACLを作成しない", () => {
+    const { service } = createStacks("stg");
+    service.resourceCountIs("AWS::WAFv2::WebACL", 0);
+  });
+});
@@ -0,0 +1,161 @@
+import { Match } from "aws-cdk-lib/assertions";
+import {
+  DatabaseEngineConfig,
+  StageName,
+} from "../lib/config/environment-config";
+import { createStacks } from "./stacks";
+
+// stg の設定のデータベースのエンジンを差し替えたスタック
+function withEngine(engine: DatabaseEngineConfig) {
+  return createStacks("stg", (config) => ({
+    ...config,
+    database: config.database && { ...config.database, engine },
+  }));
+}
+
+// DatabaseStackの出力をインポートする値
+const importFromDatabase = (pattern: string) => ({
+  "Fn::ImportValue": Match.stringLikeRegexp(
+    `^LabInfraDatabaseStack:.*${pattern}`
+  ),
+});
+
+describe("stg のデータベース（Aurora Serverless v2）", () => {
+  let stacks: ReturnType<typeof createStacks>;
+
+  beforeAll(() => {
+    stacks = createStacks("stg");
+  });
+
+  test("設定の容量でAurora PostgreSQLのクラスターを作成する", () => {
+    const database = stacks.database!;
+    database.hasResourceProperties("AWS::RDS::DBCluster", {
+      DBClusterIdentifier: "lab-infra-db",
+      Engine: "aurora-postgresql",
+      DatabaseName: "labinfra",
+      StorageEncrypted: true,
+      ServerlessV2ScalingConfiguration: { MinCapacity: 0.5, MaxCapacity: 2 },
+      BackupRetentionPeriod: 7,
+    });
+    database.resourcePropertiesCountIs(
+      "AWS::RDS::DBInstance",
+      { DBInstanceClass: "db.serverless", PubliclyAccessible: false },
+      1
+    );
+  });
+
+  test("NetworkStackの分離サブネットに配置する", () => {
+    stacks.database!.hasResourceProperties("AWS::RDS::DBSubnetGroup", {
+      SubnetIds: Match.arrayWith([
+        { "Fn::ImportValue": Match.stringLikeRegexp("PrivateSubnet") },
+      ]),
+    });
+    const subnetIds = Object.values(
+      stacks.database!.findResources("AWS::RDS::DBSubnetGroup")
+    ).flatMap((group) => group.Properties.SubnetIds);
+    expect(JSON.stringify(subnetIds)).not.toMatch(/PublicSubnet|AppSubnet/);
+  });
+
+  test("認証情報は生成したシークレットから参照する", () => {
+    const database = stacks.database!;
+    database.hasResourceProperties("AWS::SecretsManager::Secret", {
+      Name: "lab-infra/database",
+      GenerateSecretString: Match.objectLike({
+        SecretStringTemplate: '{"username":"labinfra"}',
+        GenerateStringKey: "password",
+      }),
+    });
+    database.hasResourceProperties("AWS::RDS::DBCluster", {
+      MasterUserPassword: {
+        "Fn::Join": [
+          "",
+          [
+            "{{resolve:secretsmanager:",
+            { Ref: Match.stringLikeRegexp("^LabInfraDatabaseSecret") },
+            ":SecretString:password::}}",
+          ],
+        ],
+      },
+    });
+  });
+
+  test("メインのサービスのセキュリティグループからのみ接続を許可する", () => {
+    stacks.service.hasResourceProperties("AWS::EC2::SecurityGroupIngress", {
+      IpProtocol: "tcp",
+      GroupId: importFromDatabase("LabInfraDatabaseSecurityGroup"),
+      SourceSecurityGroupId: {
+        "Fn::GetAtt": [
+          Match.stringLikeRegexp("^LabInfraSecurityGroup"),
+          "GroupId",
+        ],
+      },
+      FromPort: importFromDatabase("EndpointPort"),
+      ToPort: importFromDatabase("EndpointPort"),
+    });
+    stacks.database!.hasResourceProperties("AWS::EC2::SecurityGroup", {
+      GroupName: "lab-infra-db-sg",
+      SecurityGroupIngress: Match.absent(),
+    });
+  });
+
+  test("接続情報をコンテナに注入し、ユーザー名とパスワードはシークレットにする", () => {
+    const secret = (key: string) => ({
+      "Fn::Join": [
+        "",
+        [importFromDatabase("LabInfraDatabaseSecret"), `:${key}::`],
+      ],
+    });
+    stacks.service.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      Family: "lab-infra-task",
+      ContainerDefinitions: Match.arrayWith([
+        Match.objectLike({
+          Name: stacks.config.database!.containerName,
+          Environment: Match.arrayWith([
+            { Name: "DB_HOST", Value: importFromDatabase("EndpointAddress") },
+            { Name: "DB_PORT", Value: importFromDatabase("EndpointPort") },
+            { Name: "DB_NAME", Value: "labinfra" },
+          ]),
+          Secrets: Match.arrayWith([
+            { Name: "DB_USERNAME", ValueFrom: secret("username") },
+            { Name: "DB_PASSWORD", ValueFrom: secret("password") },
+          ]),
+        }),
+      ]),
+    });
+  });
+});
+
+describe("RDS for PostgreSQL", () => {
+  test("engine が rdsPostgres の場合はインスタンスを作成する", () => {
+    const { database } = withEngine({
+      type: "rdsPostgres",
+      instanceType: "t4g.small",
+      allocatedStorageGiB: 20,
+      multiAz: true,
+    });
+    database!.resourceCountIs("AWS::RDS::DBCluster", 0);
+    database!.hasResourceProperties("AWS::RDS::DBInstance", {
+      DBInstanceIdentifier: "lab-infra-db",
+      Engine: "postgres",
+      DBInstanceClass: "db.t4g.small",
+      AllocatedStorage: "20",
+      MultiAZ: true,
+      StorageEncrypted: true,
+      DBName: "labinfra",
+      DBSubnetGroupName: {
+        Ref: Match.stringLikeRegexp("^LabInfraDatabaseSubnetGroup"),
+      },
+    });
+  });
+});
+
+describe.each<StageName>(["dev", "prod"])("%s", (stage) => {
+  test("データベースの設定がない場合はスタックも接続情報も作成しない", () => {
+    const stacks = createStacks(stage);
+    expect(stacks.database).toBeUndefined();
+    const taskDefinitions = stacks.service.findResources(
+      "AWS::ECS::TaskDefinition"
+    );
+    expect(JSON.stringify(taskDefinitions)).not.toContain("DB_HOST");
+  });
+});
@@ -0,0 +1,757 @@
+import { Match, Template } from "aws-cdk-lib/assertions";
+import {
+  AdditionalServiceConfig,
+  ServiceDiscoveryMode,
+  StageName,
+} from "../lib/config/environment-config";
+import { createStacks } from "./stacks";
+
+// ログルーターのサイドカーを持つ、ALBのパスで振り分ける追加のサービス
+const API_SERVICE: AdditionalServiceConfig = {
+  serviceName: "lab-infra-api",
+  family: "lab-infra-api-task",
+  cpu: 256,
+  memoryLimitMiB: 512,
+  desiredCount: 1,
+  containers: [
+    {
+      name: "api",
+      image:
+        "123456789012.dkr.ecr.ap-northeast-1.amazonaws.com/lab-infra-api:1.0.0",
+      portMappings: [{ containerPort: 8080, name: "http" }],
+      environment: { LOG_LEVEL: "info" },
+      firelensOptions: { Name: "cloudwatch_logs", log_stream_prefix: "api/" },
+      dependsOn: [{ containerName: "log-router", condition: "start" }],
+    },
+    {
+      name: "log-router",
+      image:
+        "906394416424.dkr.ecr.ap-northeast-1.amazonaws.com/aws-for-fluent-bit:stable",
+      essential: false,
+      memoryReservationMiB: 50,
+      logRouter: "fluentbit",
+    },
+  ],
+  ingress: { containerName: "api", containerPort: 8080 },
+  listenerRule: {
+    pathPatterns: ["/api/*"],
+    priority: 10,
+    healthCheckPath: "/api/health",
+  },
+};
+
+// タスク実行ロールのポリシーのステートメント
+// ポリシーのサイズの上限を超えた分は管理ポリシー（OverflowPolicy）に分割される
+function executionRoleStatements(template: Template) {
+  const props = {
+    Properties: {
+      Roles: [{ Ref: Match.stringLikeRegexp("^LabInfraTaskExecutionRole") }],
+    },
+  };
+  return [
+    ...Object.values(template.findResources("AWS::IAM::Policy", props)),
+    ...Object.values(template.findResources("AWS::IAM::ManagedPolicy", props)),
+  ].flatMap((policy) => policy.Properties.PolicyDocument.Statement);
+}
+
+describe.each<StageName>(["stg", "prod"])("%s", (stage) => {
+  let stacks: ReturnType<typeof createStacks>;
+
+  beforeAll(() => {
+    stacks = createStacks(stage);
+  });
+
+  describe("ALB", () => {
+    test("インターネット向けのALBをパブリックサブネットに作成する", () => {
+      stacks.service.hasResourceProperties(
+        "AWS::ElasticLoadBalancingV2::LoadBalancer",
+        {
+          Name: "lab-infra-alb",
+          Scheme: "internet-facing",
+          Subnets: Match.arrayWith([
+            { "Fn::ImportValue": Match.stringLikeRegexp("PublicSubnet") },
+          ]),
+        }
+      );
+    });
+
+    test("ターゲットグループに設定のヘルスチェックを設定する", () => {
+      const loadBalancer = stacks.config.loadBalancer!;
+      stacks.service.hasResourceProperties(
+        "AWS::ElasticLoadBalancingV2::TargetGroup",
+        {
+          Name: "lab-infra-tg",
+          TargetType: "ip",
+          Port: 80,
+          HealthCheckPath: loadBalancer.healthCheckPath,
+          HealthCheckIntervalSeconds: loadBalancer.healthCheckIntervalSeconds,
+          Matcher: { HttpCode: loadBalancer.healthyHttpCodes },
+        }
+      );
+    });
+
+    test("HTTPリスナーからターゲットグループに転送する", () => {
+      stacks.service.hasResourceProperties(
+        "AWS::ElasticLoadBalancingV2::Listener",
+        {
+          Port: 80,
+          Protocol: "HTTP",
+          DefaultActions: [
+            Match.objectLike({
+              Type: "forward",
+              TargetGroupArn: {
+                Ref: Match.stringLikeRegexp("LabInfraTargetGroup"),
+              },
+            }),
+          ],
+        }
+      );
+    });
+
+    test("サービスへの通信はALBのセキュリティグループからのみ許可する", () => {
+      stacks.service.hasResourceProperties("AWS::EC2::SecurityGroupIngress", {
+        IpProtocol: "tcp",
+        FromPort: stacks.config.service.ingress.containerPort,
+        ToPort: stacks.config.service.ingress.containerPort,
+        SourceSecurityGroupId: {
+          "Fn::GetAtt": [
+            Match.stringLikeRegexp("LabInfraLoadBalancerSecurityGroup"),
+            "GroupId",
+          ],
+        },
+      });
+      stacks.service.hasResourceProperties("AWS::EC2::SecurityGroup", {
+        GroupName: "lab-infra-fargate-sg",
+        SecurityGroupIngress: Match.absent(),
+      });
+    });
+
+    test("サービスのURLを出力する", () => {
+      stacks.service.hasOutput("ServiceUrl", {
+        Value: {
+          "Fn::Join": [
+            "",
+            Match.arrayWith([
+              "http://",
+              {
+                "Fn::GetAtt": [
+                  Match.stringLikeRegexp("LabInfraLoadBalancer"),
+                  "DNSName",
+                ],
+              },
+            ]),
+          ],
+        },
+      });
+    });
+  });
+
+  describe("Auto Scaling", () => {
+    test("タスク数を設定の範囲でスケーリングする", () => {
+      const autoScaling = stacks.config.service.autoScaling!;
+      stacks.service.hasResourceProperties(
+        "AWS::ApplicationAutoScaling::ScalableTarget",
+        {
+          ServiceNamespace: "ecs",
+          ScalableDimension: "ecs:service:DesiredCount",
+          MinCapacity: autoScaling.minCapacity,
+          MaxCapacity: autoScaling.maxCapacity,
+        }
+      );
+    });
+
+    test("CPU使用率のターゲット追跡ポリシーを作成する", () => {
+      const cpu = stacks.config.service.autoScaling!.cpu!;
+      stacks.service.hasResourceProperties(
+        "AWS::ApplicationAutoScaling::ScalingPolicy",
+        {
+          PolicyType: "TargetTrackingScaling",
+          TargetTrackingScalingPolicyConfiguration: {
+            PredefinedMetricSpecification: {
+              PredefinedMetricType: "ECSServiceAverageCPUUtilization",
+            },
+            TargetValue: cpu.targetValue,
+            ScaleInCooldown: cpu.scaleInCooldownSeconds,
+            ScaleOutCooldown: cpu.scaleOutCooldownSeconds,
+          },
+        }
+      );
+    });
+
+    test("設定があるポリシーのみ作成する", () => {
+      const autoScaling = stacks.config.service.autoScaling!;
+      const metricTypes = Object.values(
+        stacks.service.findResources(
+          "AWS::ApplicationAutoScaling::ScalingPolicy",
+          { Properties: { PolicyType: "TargetTrackingScaling" } }
+        )
+      ).map(
+        (policy) =>
+          policy.Properties.TargetTrackingScalingPolicyConfiguration
+            .PredefinedMetricSpecification.PredefinedMetricType
+      );
+      expect(metricTypes.sort()).toEqual(
+        [
+          autoScaling.cpu && "ECSServiceAverageCPUUtilization",
+          autoScaling.memory && "ECSServiceAverageMemoryUtilization",
+          autoScaling.requestCountPerTarget && "ALBRequestCountPerTarget",
+        ]
+          .filter((type) => type !== undefined)
+          .sort()
+      );
+    });
+  });
+});
+
+describe("追加のサービス", () => {
+  let stacks: ReturnType<typeof createStacks>;
+
+  beforeAll(() => {
+    stacks = createStacks("stg", (config) => ({
+      ...config,
+      additionalServices: [API_SERVICE],
+    }));
+  });
+
+  test("共有クラスターに追加のサービスを作成する", () => {
+    stacks.service.resourceCountIs("AWS::ECS::Service", 2);
+    const clusters = Object.values(
+      stacks.service.findResources("AWS::ECS::Service")
+    ).map((service) => service.Properties.Cluster);
+    expect(clusters[1]).toEqual(clusters[0]);
+    stacks.service.hasResourceProperties("AWS::ECS::Service", {
+      ServiceName: "lab-infra-api",
+      TaskDefinition: {
+        Ref: Match.stringLikeRegexp("LabInfraApiService"),
+      },
+    });
+    stacks.service.hasResourceProperties("AWS::IAM::Role", {
+      RoleName: "LabInfraApiTaskRole",
+    });
+    stacks.service.hasResourceProperties("AWS::EC2::SecurityGroup", {
+      GroupName: "lab-infra-api-sg",
+    });
+  });
+
+  test("サイドカーのログルーターを先に起動し、FireLens経由でログを送る", () => {
+    stacks.service.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      Family: "lab-infra-api-task",
+      ContainerDefinitions: [
+        Match.objectLike({
+          Name: "api",
+          PortMappings: [
+            Match.objectLike({ ContainerPort: 8080, Name: "http" }),
+          ],
+          Environment: Match.arrayWith([{ Name: "LOG_LEVEL", Value: "info" }]),
+          DependsOn: [{ ContainerName: "log-router", Condition: "START" }],
+          LogConfiguration: {
+            LogDriver: "awsfirelens",
+            Options: { Name: "cloudwatch_logs", log_stream_prefix: "api/" },
+          },
+        }),
+        Match.objectLike({
+          Name: "log-router",
+          Essential: false,
+          MemoryReservation: 50,
+          FirelensConfiguration: { Type: "fluentbit" },
+        }),
+      ],
+    });
+  });
+
+  test("リスナールールでパスに一致するリクエストを転送する", () => {
+    stacks.service.hasResourceProperties(
+      "AWS::ElasticLoadBalancingV2::ListenerRule",
+      {
+        Priority: 10,
+        Conditions: [
+          { Field: "path-pattern", PathPatternConfig: { Values: ["/api/*"] } },
+        ],
+      }
+    );
+    stacks.service.hasResourceProperties(
+      "AWS::ElasticLoadBalancingV2::TargetGroup",
+      {
+        Port: 8080,
+        TargetType: "ip",
+        HealthCheckPath: "/api/health",
+      }
+    );
+  });
+});
+
+describe("コンテナのシークレット", () => {
+  let stacks: ReturnType<typeof createStacks>;
+
+  beforeAll(() => {
+    stacks = createStacks("stg", (config) => ({
+      ...config,
+      secrets: [
+        {
+          secretName: "lab-infra/api-db",
+          description: "APIサービスのデータベースの認証情報",
+          excludePunctuation: true,
+          json: { template: { username: "api" }, generateKey: "password" },
+        },
+      ],
+      additionalServices: [
+        {
+          ...API_SERVICE,
+          containers: API_SERVICE.containers.map((container) =>
+            container.name === "api"
+              ? {
+                  ...container,
+                  secrets: {
+                    DB_PASSWORD: {
+                      source: "secretsManager",
+                      secretName: "lab-infra/api-db",
+                      jsonKey: "password",
+                    },
+                    EXTERNAL_TOKEN: {
+                      source: "secretsManager",
+                      secretName: "lab-infra/external-token",
+                    },
+                    API_KEY: {
+                      source: "ssmParameter",
+                      parameterName: "/lab-infra/api-key",
+                    },
+                  },
+                }
+              : container
+          ),
+        },
+      ],
+    }));
+  });
+
+  test("作成するシークレットの値はランダムに生成する", () => {
+    stacks.service.hasResourceProperties("AWS::SecretsManager::Secret", {
+      Name: "lab-infra/api-db",
+      GenerateSecretString: {
+        PasswordLength: 32,
+        ExcludePunctuation: true,
+        SecretStringTemplate: '{"username":"api"}',
+        GenerateStringKey: "password",
+      },
+    });
+  });
+
+  test("シークレットとパラメータをコンテナの環境変数として参照する", () => {
+    stacks.service.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      Family: "lab-infra-api-task",
+      ContainerDefinitions: Match.arrayWith([
+        Match.objectLike({
+          Name: "api",
+          Secrets: [
+            {
+              Name: "DB_PASSWORD",
+              ValueFrom: {
+                "Fn::Join": [
+                  "",
+                  [
+                    { Ref: Match.stringLikeRegexp("^LabInfraSecret0") },
+                    ":password::",
+                  ],
+                ],
+              },
+            },
+            {
+              Name: "EXTERNAL_TOKEN",
+              ValueFrom: {
+                "Fn::Join": [
+                  "",
+                  Match.arrayWith([
+                    Match.stringLikeRegexp(":secret:lab-infra/external-token$"),
+                  ]),
+                ],
+              },
+            },
+            {
+              Name: "API_KEY",
+              ValueFrom: {
+                "Fn::Join": [
+                  "",
+                  Match.arrayWith([
+                    Match.stringLikeRegexp(":parameter/lab-infra/api-key$"),
+                  ]),
+                ],
+              },
+            },
+          ],
+        }),
+      ]),
+    });
+  });
+
+  test("タスク実行ロールにシークレットとパラメータの読み取りを許可する", () => {
+    const statements = executionRoleStatements(stacks.service);
+    const allowed = (action: string) =>
+      JSON.stringify(
+        statements.filter((statement) =>
+          ([] as string[]).concat(statement.Action).includes(action)
+        )
+      );
+
+    expect(allowed("secretsmanager:GetSecretValue")).toContain(
+      "LabInfraSecret0"
+    );
+    expect(allowed("secretsmanager:GetSecretValue")).toContain(
+      ":secret:lab-infra/external-token-??????"
+    );
+    expect(allowed("ssm:GetParameters")).toContain(
+      ":parameter/lab-infra/api-key"
+    );
+  });
+});
+
+describe("サービスディスカバリー", () => {
+  // API_SERVICE を名前空間に登録し、メインのサービスから呼び出せるようにした設定
+  const withDiscovery = (mode: ServiceDiscoveryMode) =>
+    createStacks("stg", (config) => ({
+      ...config,
+      service: {
+        ...config.service,
+        discovery: mode === "serviceConnect" ? { mode } : undefined,
+      },
+      additionalServices: [
+        {
+          ...API_SERVICE,
+          discovery: {
+            mode,
+            name: "api",
+            allowedCallers: ["lab-infra-service"],
+          },
+        },
+      ],
+    }));
+
+  test("クラスターにプライベートDNSの名前空間を作成する", () => {
+    const { service } = createStacks("stg");
+    service.hasResourceProperties(
+      "AWS::ServiceDiscovery::PrivateDnsNamespace",
+      { Name: "lab.local" }
+    );
+  });
+
+  test("cloudMap の場合はタスクのIPアドレスをAレコードで登録する", () => {
+    const { service } = withDiscovery("cloudMap");
+    service.hasResourceProperties("AWS::ServiceDiscovery::Service", {
+      Name: "api",
+      DnsConfig: Match.objectLike({
+        DnsRecords: [{ Type: "A", TTL: 10 }],
+      }),
+    });
+    service.hasResourceProperties("AWS::ECS::Service", {
+      ServiceName: "lab-infra-api",
+      ServiceRegistries: [
+        {
+          RegistryArn: {
+            "Fn::GetAtt": [
+              Match.stringLikeRegexp("LabInfraApiService.*CloudmapService"),
+              "Arn",
+            ],
+          },
+        },
+      ],
+    });
+  });
+
+  test("serviceConnect の場合は呼び出される側のポートを公開し、呼び出し側も参加する", () => {
+    const { service } = withDiscovery("serviceConnect");
+    service.hasResourceProperties("AWS::ECS::Service", {
+      ServiceName: "lab-infra-api",
+      ServiceConnectConfiguration: Match.objectLike({
+        Enabled: true,
+        Services: [
+          Match.objectLike({
+            PortName: "http",
+            DiscoveryName: "api",
+            ClientAliases: [Match.objectLike({ Port: 8080 })],
+          }),
+        ],
+      }),
+    });
+    service.hasResourceProperties("AWS::ECS::Service", {
+      ServiceName: "lab-infra-service",
+      ServiceConnectConfiguration: Match.objectLike({
+        Enabled: true,
+        Services: Match.absent(),
+      }),
+    });
+  });
+
+  test("allowedCallers のサービスからの通信のみ許可する", () => {
+    const { service } = withDiscovery("cloudMap");
+    service.hasResourceProperties("AWS::EC2::SecurityGroupIngress", {
+      Description: "lab-infra-service to lab-infra-api",
+      FromPort: 8080,
+      ToPort: 8080,
+      GroupId: {
+        "Fn::GetAtt": [
+          Match.stringLikeRegexp("^LabInfraApiService.*SecurityGroup"),
+          "GroupId",
+        ],
+      },
+      SourceSecurityGroupId: {
+        "Fn::GetAtt": [
+          Match.stringLikeRegexp("^LabInfraSecurityGroup"),
+          "GroupId",
+        ],
+      },
+    });
+  });
+});
+
+describe.each<StageName>(["dev", "stg", "prod"])(
+  "%s の Fargate Spot",
+  (stage) => {
+    let stacks: ReturnType<typeof createStacks>;
+
+    beforeAll(() => {
+      stacks = createStacks(stage);
+    });
+
+    test("設定の配分でオンデマンドとSpotのキャパシティプロバイダーを使用する", () => {
+      const { capacity } = stacks.config.service;
+      if (!capacity) {
+        stacks.service.hasResourceProperties("AWS::ECS::Service", {
+          ServiceName: "lab-infra-service",
+          LaunchType: "FARGATE",
+          CapacityProviderStrategy: Match.absent(),
+        });
+        return;
+      }
+      stacks.service.hasResourceProperties(
+        "AWS::ECS::ClusterCapacityProviderAssociations",
+        {
+          CapacityProviders: Match.arrayWith(["FARGATE", "FARGATE_SPOT"]),
+        }
+      );
+      stacks.service.hasResourceProperties("AWS::ECS::Service", {
+        ServiceName: "lab-infra-service",
+        LaunchType: Match.absent(),
+        CapacityProviderStrategy: [
+          {
+            CapacityProvider: "FARGATE",
+            Base: capacity.onDemandBase,
+            Weight: capacity.onDemandWeight,
+          },
+          { CapacityProvider: "FARGATE_SPOT", Weight: capacity.spotWeight },
+        ],
+      });
+    });
+
+    test("Spotを使用する場合は中断されたタスクを記録する", () => {
+      const rules = stacks.service.findResources("AWS::Events::Rule", {
+        Properties: { Name: "lab-infra-spot-interruptions" },
+      });
+      if (!stacks.config.service.capacity?.spotWeight) {
+        expect(rules).toEqual({});
+        return;
+      }
+      stacks.service.hasResourceProperties("AWS::Events::Rule", {
+        Name: "lab-infra-spot-interruptions",
+        EventPattern: {
+          source: ["aws.ecs"],
+          "detail-type": ["ECS Task State Change"],
+          detail: Match.objectLike({
+            lastStatus: ["STOPPED"],
+            stopCode: ["SpotInterruption"],
+          }),
+        },
+        Targets: [Match.objectLike({ Arn: Match.anyValue() })],
+      });
+      stacks.service.hasResourceProperties("AWS::Logs::LogGroup", {
+        LogGroupName: "/aws/events/lab-infra-spot-interruptions",
+      });
+      stacks.service.hasResourceProperties("AWS::Logs::MetricFilter", {
+        MetricTransformations: [
+          Match.objectLike({
+            MetricNamespace: "LabInfra",
+            MetricName: "SpotInterruptions",
+          }),
+        ],
+      });
+    });
+  }
+);
+
+describe("カスタムドメイン", () => {
+  let stacks: ReturnType<typeof createStacks>;
+
+  beforeAll(() => {
+    stacks = createStacks("stg", (config) => ({
+      ...config,
+      loadBalancer: config.loadBalancer && {
+        ...config.loadBalancer,
+        customDomain: {
+          domainName: "app.lab.example.com",
+          hostedZoneName: "lab.example.com",
+          hostedZone: "create",
+        },
+      },
+    }));
+  });
+
+  test("ホストゾーンのDNS検証で証明書を発行する", () => {
+    stacks.service.hasResourceProperties("AWS::Route53::HostedZone", {
+      Name: "lab.example.com.",
+    });
+    stacks.service.hasResourceProperties(
+      "AWS::CertificateManager::Certificate",
+      {
+        DomainName: "app.lab.example.com",
+        ValidationMethod: "DNS",
+        DomainValidationOptions: [
+          {
+            DomainName: "app.lab.example.com",
+            HostedZoneId: { Ref: Match.stringLikeRegexp("LabInfraHostedZone") },
+          },
+        ],
+      }
+    );
+  });
+
+  test("HTTPSリスナーで証明書を使用し、HTTPはHTTPSにリダイレクトする", () => {
+    stacks.service.hasResourceProperties(
+      "AWS::ElasticLoadBalancingV2::Listener",
+      {
+        Port: 443,
+        Protocol: "HTTPS",
+        Certificates: [
+          {
+            CertificateArn: {
+              Ref: Match.stringLikeRegexp("LabInfraCertificate"),
+            },
+          },
+        ],
+        DefaultActions: [
+          Match.objectLike({
+            Type: "forward",
+            TargetGroupArn: {
+              Ref: Match.stringLikeRegexp("LabInfraTargetGroup"),
+            },
+          }),
+        ],
+      }
+    );
+    stacks.service.hasResourceProperties(
+      "AWS::ElasticLoadBalancingV2::Listener",
+      {
+        Port: 80,
+        Protocol: "HTTP",
+        DefaultActions: [
+          {
+            Type: "redirect",
+            RedirectConfig: {
+              Protocol: "HTTPS",
+              Port: "443",
+              StatusCode: "HTTP_301",
+            },
+          },
+        ],
+      }
+    );
+  });
+
+  test("ドメイン名からALBへのエイリアスレコードを作成する", () => {
+    stacks.service.hasResourceProperties("AWS::Route53::RecordSet", {
+      Name: "app.lab.example.com.",
+      Type: "A",
+      HostedZoneId: { Ref: Match.stringLikeRegexp("LabInfraHostedZone") },
+      AliasTarget: {
+        DNSName: {
+          "Fn::Join": [
+            "",
+            Match.arrayWith([
+              {
+                "Fn::GetAtt": [
+                  Match.stringLikeRegexp("LabInfraLoadBalancer"),
+                  "DNSName",
+                ],
+              },
+            ]),
+          ],
+        },
+        HostedZoneId: {
+          "Fn::GetAtt": [
+            Match.stringLikeRegexp("LabInfraLoadBalancer"),
+            "CanonicalHostedZoneID",
+          ],
+        },
+      },
+    });
+    stacks.service.hasOutput("ServiceUrl", {
+      Value: "https://app.lab.example.com",
+    });
+  });
+});
+
+describe.each<StageName>(["dev", "stg", "prod"])(
+  "%s のデプロイの失敗の検知",
+  (stage) => {
+    let stacks: ReturnType<typeof createStacks>;
+
+    beforeAll(() => {
+      stacks = createStacks(stage);
+    });
+
+    // ローリングアップデートの場合のみ、サーキットブレーカーとデプロイのアラームを設定できる
+    const rolling = () => {
+      const { deployment } = stacks.config.service;
+      return deployment?.strategy === "rolling" ? deployment : undefined;
+    };
+
+    test("設定に従ってサーキットブレーカーとデプロイのアラームを設定する", () => {
+      const circuitBreaker = rolling()?.circuitBreaker;
+      const deploymentAlarms = rolling()?.deploymentAlarms;
+      stacks.service.hasResourceProperties("AWS::ECS::Service", {
+        ServiceName: "lab-infra-service",
+        DeploymentConfiguration: Match.objectLike({
+          DeploymentCircuitBreaker: circuitBreaker
+            ? { Enable: true, Rollback: circuitBreaker.rollback }
+            : Match.absent(),
+          Alarms: deploymentAlarms
+            ? {
+                AlarmNames: [
+                  "lab-infra-running-tasks-below-desired",
+                  "lab-infra-unhealthy-targets-0",
+                ],
+                Enable: true,
+                Rollback: deploymentAlarms.rollback,
+              }
+            : { AlarmNames: [], Enable: false, Rollback: false },
+        }),
+      });
+    });
+
+    test("デプロイの失敗を記録し、監視を行う環境ではアラームのトピックに通知する", () => {
+      const rules = stacks.service.findResources("AWS::Events::Rule", {
+        Properties: { Name: "lab-infra-deployment-failures" },
+      });
+      if (!rolling()?.circuitBreaker && !rolling()?.deploymentAlarms) {
+        expect(rules).toEqual({});
+        return;
+      }
+      stacks.service.hasResourceProperties("AWS::Events::Rule", {
+        Name: "lab-infra-deployment-failures",
+        EventPattern: {
+          source: ["aws.ecs"],
+          "detail-type": ["ECS Deployment State Change"],
+          resources: [{ Ref: Match.stringLikeRegexp("LabInfraService") }],
+          detail: { eventName: ["SERVICE_DEPLOYMENT_FAILED"] },
+        },
+        Targets: stacks.config.monitoring
+          ? Match.arrayWith([
+              Match.objectLike({
+                Arn: { Ref: Match.stringLikeRegexp("AlarmTopic") },
+              }),
+            ])
+          : [Match.objectLike({ Arn: Match.anyValue() })],
+      });
+      stacks.service.hasResourceProperties("AWS::Logs::LogGroup", {
+        LogGroupName: "/aws/events/lab-infra-deployment-failures",
+      });
+    });
+  }
+);
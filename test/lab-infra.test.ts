@@ -0,0 +1,39 @@
+import { StageName } from "../lib/config/environment-config";
+import { createStacks } from "./stacks";
+
+describe.each<StageName>(["dev", "stg", "prod"])("%s", (stage) => {
+  let stacks: ReturnType<typeof createStacks>;
+
+  beforeAll(() => {
+    stacks = createStacks(stage);
+  });
+
+  test("メインのサービスとタスク定義を作成する", () => {
+    stacks.service.hasResourceProperties("AWS::ECS::Service", {
+      ServiceName: "lab-infra-service",
+    });
+    stacks.service.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      Family: "lab-infra-task",
+      RequiresCompatibilities: ["FARGATE"],
+    });
+  });
+
+  test("VPCを設定のCIDRで作成する", () => {
+    stacks.network.hasResourceProperties("AWS::EC2::VPC", {
+      CidrBlock: stacks.config.network.vpcCidr,
+    });
+  });
+
+  test("データベースは設定がある場合のみ作成する", () => {
+    expect(stacks.database !== undefined).toBe(
+      stacks.config.database !== undefined
+    );
+  });
+
+  test("ALBは設定がある場合のみ作成する", () => {
+    stacks.service.resourceCountIs(
+      "AWS::ElasticLoadBalancingV2::LoadBalancer",
+      stacks.config.loadBalancer ? 1 : 0
+    );
+  });
+});
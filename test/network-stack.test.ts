@@ -0,0 +1,99 @@
+import { Match } from "aws-cdk-lib/assertions";
+import {
+  EgressMode,
+  EnvironmentConfig,
+  StageName,
+} from "../lib/config/environment-config";
+import { createStacks } from "./stacks";
+
+// egress を差し替えた stg の設定
+// vpcEndpoints ではECRのイメージが必須のため、パイプラインでビルドしたイメージを指定する
+function withEgress(egress: EgressMode) {
+  return (config: EnvironmentConfig): EnvironmentConfig => ({
+    ...config,
+    network: { ...config.network, egress },
+    pipeline: {
+      ...config.pipeline,
+      imageBuild: config.pipeline.imageBuild && {
+        ...config.pipeline.imageBuild,
+        imageTag: "5-abc123",
+      },
+    },
+  });
+}
+
+// サービスのネットワーク設定
+function serviceNetwork(assignPublicIp: string, subnetName: string) {
+  return {
+    ServiceName: "lab-infra-service",
+    NetworkConfiguration: {
+      AwsvpcConfiguration: Match.objectLike({
+        AssignPublicIp: assignPublicIp,
+        Subnets: Match.arrayWith([
+          { "Fn::ImportValue": Match.stringLikeRegexp(subnetName) },
+        ]),
+      }),
+    },
+  };
+}
+
+describe.each<StageName>(["dev", "stg", "prod"])("%s", (stage) => {
+  test("publicSubnet の場合のみタスクにパブリックIPを付与する", () => {
+    const { config, service } = createStacks(stage);
+    const publicSubnet = config.network.egress === "publicSubnet";
+    service.hasResourceProperties("AWS::ECS::Service", {
+      ServiceName: "lab-infra-service",
+      NetworkConfiguration: {
+        AwsvpcConfiguration: Match.objectLike({
+          AssignPublicIp: publicSubnet ? "ENABLED" : "DISABLED",
+        }),
+      },
+    });
+  });
+});
+
+describe("vpcEndpoints", () => {
+  let stacks: ReturnType<typeof createStacks>;
+
+  beforeAll(() => {
+    stacks = createStacks("stg", withEgress("vpcEndpoints"));
+  });
+
+  test("タスクは分離サブネットにパブリックIPなしで配置する", () => {
+    stacks.service.hasResourceProperties(
+      "AWS::ECS::Service",
+      serviceNetwork("DISABLED", "PrivateSubnet")
+    );
+  });
+
+  test("NATを作成せず、VPCエンドポイントを作成する", () => {
+    stacks.network.resourceCountIs("AWS::EC2::NatGateway", 0);
+    stacks.network.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+      VpcEndpointType: "Gateway",
+      ServiceName: {
+        "Fn::Join": ["", Match.arrayWith([".s3"])],
+      },
+    });
+    ["ecr.api", "ecr.dkr", "logs", "secretsmanager", "ssm"].forEach(
+      (service) => {
+        stacks.network.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+          VpcEndpointType: "Interface",
+          PrivateDnsEnabled: true,
+          ServiceName: Match.stringLikeRegexp(`\\.${service}$`),
+        });
+      }
+    );
+  });
+});
+
+describe("natGateway", () => {
+  test("タスクはNAT経由のプライベートサブネットに配置する", () => {
+    const { network, service } = createStacks("stg", withEgress("natGateway"));
+    network.resourceCountIs("AWS::EC2::NatGateway", 1);
+    network.resourceCountIs("AWS::EC2::VPCEndpoint", 0);
+    service.hasResourceProperties(
+      "AWS::ECS::Service",
+      serviceNetwork("DISABLED", "AppSubnet")
+    );
+  });
+});
@@ -0,0 +1,388 @@
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { SourceConfig, StageName } from "../lib/config/environment-config";
+import { createStacks, pipelineStages } from "./stacks";
+
+// Deployステージのアクション名と実行順（runOrder）
+function deployRunOrders(template: Template): Record<string, number> {
+  const [pipeline] = Object.values(
+    template.findResources("AWS::CodePipeline::Pipeline")
+  );
+  const deploy = pipeline.Properties.Stages.find(
+    (stage: { Name: string }) => stage.Name === "Deploy"
+  );
+  return Object.fromEntries(
+    deploy.Actions.map((action: { Name: string; RunOrder: number }) => [
+      action.Name,
+      action.RunOrder,
+    ])
+  );
+}
+
+describe.each<StageName>(["dev", "stg", "prod"])("%s", (stage) => {
+  let stacks: ReturnType<typeof createStacks>;
+
+  beforeAll(() => {
+    stacks = createStacks(stage);
+  });
+
+  describe("テストとスモークテスト", () => {
+    test("パイプラインのステージの順番", () => {
+      const { config } = stacks;
+      const blueGreen = config.service.deployment?.strategy === "blueGreen";
+      expect(Object.keys(pipelineStages(stacks.pipeline))).toEqual([
+        "Source",
+        "Build",
+        "Test",
+        "Assets",
+        "UpdatePipeline",
+        "Deploy",
+        ...(config.pipeline.imageBuild && blueGreen ? ["Release"] : []),
+        ...(config.pipeline.smokeTest ? ["SmokeTest"] : []),
+      ]);
+    });
+
+    test("cdk diff の失敗でDiffアクションを失敗させる", () => {
+      stacks.pipeline.hasResourceProperties("AWS::CodeBuild::Project", {
+        Source: {
+          BuildSpec: Match.stringLikeRegexp(
+            "set -o pipefail && cdk diff --app \\. 2>&1 \\| tee cdk-diff\\.txt"
+          ),
+        },
+      });
+    });
+
+    test("テストとcdk diffを並列に実行する", () => {
+      expect(pipelineStages(stacks.pipeline).Test).toEqual([
+        "UnitTest",
+        "Diff",
+      ]);
+      stacks.pipeline.hasResourceProperties("AWS::CodeBuild::Project", {
+        Name: "lab-infra-test",
+        Source: {
+          BuildSpec: Match.stringLikeRegexp("npm run test:ci"),
+        },
+      });
+    });
+
+    test("テストの結果をレポートグループに記録する", () => {
+      stacks.pipeline.hasResourceProperties("AWS::CodeBuild::Project", {
+        Name: "lab-infra-test",
+        Source: {
+          BuildSpec: Match.stringLikeRegexp(
+            '"reports": \\{\\s*"unit-tests": \\{\\s*"files": \\[\\s*"junit\\.xml"'
+          ),
+        },
+      });
+    });
+  });
+
+  describe("変更セットと承認", () => {
+    const stackNames = (): string[] => [
+      "LabInfraNetworkStack",
+      ...(stacks.database ? ["LabInfraDatabaseStack"] : []),
+      "LabInfraFargateServiceStack",
+    ];
+
+    test("スタックごとに変更セットの作成・承認（設定による）・実行を順に行う", () => {
+      const runOrders = deployRunOrders(stacks.pipeline);
+      const approval = stacks.config.pipeline.approval !== undefined;
+      stackNames().forEach((stackName) => {
+        const create = runOrders[`CreateChangeSet-${stackName}`];
+        const execute = runOrders[`ExecuteChangeSet-${stackName}`];
+        const approve = runOrders[`Approve-${stackName}`];
+        expect(approve !== undefined).toBe(approval);
+        expect(execute).toBe(create + (approval ? 2 : 1));
+        if (approval) {
+          expect(approve).toBe(create + 1);
+        }
+      });
+    });
+
+    test("変更セットは管理者権限ではなく実行ロールで作成する", () => {
+      stackNames().forEach((stackName) => {
+        stacks.pipeline.hasResourceProperties("AWS::CodePipeline::Pipeline", {
+          Stages: Match.arrayWith([
+            Match.objectLike({
+              Name: "Deploy",
+              Actions: Match.arrayWith([
+                Match.objectLike({
+                  Name: `CreateChangeSet-${stackName}`,
+                  Configuration: Match.objectLike({
+                    ActionMode: "CHANGE_SET_REPLACE",
+                    StackName: stackName,
+                    ChangeSetName: "lab-infra-pipeline-changeset",
+                    RoleArn: Match.anyValue(),
+                  }),
+                }),
+              ]),
+            }),
+          ]),
+        });
+      });
+    });
+
+    test("承認依頼を承認者にメールで通知する", () => {
+      const topics = stacks.pipeline.findResources("AWS::SNS::Topic", {
+        Properties: { TopicName: "lab-infra-deploy-approval" },
+      });
+      if (!stacks.config.pipeline.approval) {
+        expect(topics).toEqual({});
+        return;
+      }
+      expect(Object.keys(topics)).toHaveLength(1);
+      stacks.pipeline.hasResourceProperties("AWS::SNS::Subscription", {
+        Protocol: "email",
+        Endpoint: "approver@example.com",
+        TopicArn: { Ref: Match.stringLikeRegexp("LabInfraApprovalTopic") },
+      });
+    });
+  });
+
+  describe("セルフミューテーションとスタックのデプロイ順", () => {
+    test("パイプラインの定義が変わった場合はパイプライン自身を更新する", () => {
+      expect(pipelineStages(stacks.pipeline).UpdatePipeline).toEqual([
+        "SelfMutate",
+      ]);
+      stacks.pipeline.hasResourceProperties("AWS::CodePipeline::Pipeline", {
+        RestartExecutionOnUpdate: true,
+        Stages: Match.arrayWith([
+          Match.objectLike({
+            Name: "UpdatePipeline",
+            Actions: [
+              Match.objectLike({
+                Configuration: Match.objectLike({
+                  ActionMode: "CREATE_UPDATE",
+                  StackName: "LabInfraPipelineStack",
+                  TemplatePath: Match.stringLikeRegexp(
+                    "::LabInfraPipelineStack\\.template\\.json$"
+                  ),
+                }),
+              }),
+            ],
+          }),
+        ]),
+      });
+    });
+
+    test("依存するスタックのデプロイが完了してから次のスタックをデプロイする", () => {
+      const runOrders = deployRunOrders(stacks.pipeline);
+      const deployed = (stackName: string) =>
+        runOrders[`ExecuteChangeSet-${stackName}`];
+      const started = (stackName: string) =>
+        runOrders[`CreateChangeSet-${stackName}`];
+
+      if (stacks.database) {
+        expect(started("LabInfraDatabaseStack")).toBeGreaterThan(
+          deployed("LabInfraNetworkStack")
+        );
+        expect(started("LabInfraFargateServiceStack")).toBeGreaterThan(
+          deployed("LabInfraDatabaseStack")
+        );
+      } else {
+        expect(started("LabInfraFargateServiceStack")).toBeGreaterThan(
+          deployed("LabInfraNetworkStack")
+        );
+      }
+    });
+
+    test("スタックの更新より前にアセットを公開する", () => {
+      const stageNames = Object.keys(pipelineStages(stacks.pipeline));
+      expect(stageNames.indexOf("Assets")).toBeLessThan(
+        stageNames.indexOf("UpdatePipeline")
+      );
+      stacks.pipeline.hasResourceProperties("AWS::CodeBuild::Project", {
+        Name: "lab-infra-asset-publish",
+        Source: {
+          BuildSpec: Match.stringLikeRegexp(
+            "for manifest in \\*\\.assets\\.json; do cdk-assets"
+          ),
+        },
+      });
+    });
+  });
+
+  describe("イメージのビルド", () => {
+    test("タグを上書きできないECRリポジトリに、古いイメージを削除するルールを設定する", () => {
+      const imageBuild = stacks.config.pipeline.imageBuild!;
+      stacks.pipeline.hasResourceProperties("AWS::ECR::Repository", {
+        RepositoryName: imageBuild.repositoryName,
+        ImageTagMutability: "IMMUTABLE",
+        ImageScanningConfiguration: { ScanOnPush: true },
+        LifecyclePolicy: {
+          LifecyclePolicyText: Match.stringLikeRegexp(
+            `"countNumber":${imageBuild.maxImageCount}`
+          ),
+        },
+      });
+    });
+
+    test("ビルド番号とソースのバージョンをイメージのタグにする", () => {
+      stacks.pipeline.hasResourceProperties("AWS::CodeBuild::Project", {
+        Source: {
+          BuildSpec: Match.stringLikeRegexp(
+            'IMAGE_TAG=\\\\"\\$\\{CODEBUILD_BUILD_NUMBER\\}\\$\\{SOURCE_VERSION:\\+-\\$SOURCE_VERSION\\}\\\\"'
+          ),
+        },
+      });
+    });
+
+    test("ビルドしたイメージのタグを cdk synth に渡す", () => {
+      expect(pipelineStages(stacks.pipeline).Build).toEqual([
+        "ImageBuild",
+        "CDKSynth",
+      ]);
+      stacks.pipeline.hasResourceProperties("AWS::CodePipeline::Pipeline", {
+        Stages: Match.arrayWith([
+          Match.objectLike({
+            Name: "Build",
+            Actions: Match.arrayWith([
+              Match.objectLike({
+                Name: "CDKSynth",
+                Configuration: Match.objectLike({
+                  EnvironmentVariables: Match.stringLikeRegexp(
+                    "LAB_INFRA_IMAGE_TAG.*ImageBuild.*IMAGE_TAG"
+                  ),
+                }),
+              }),
+            ]),
+          }),
+        ]),
+      });
+    });
+
+    test("imageTag を指定しない場合は、設定のイメージを使用する", () => {
+      stacks.service.hasResourceProperties("AWS::ECS::TaskDefinition", {
+        ContainerDefinitions: Match.arrayWith([
+          Match.objectLike({
+            Name: "lab-infra-container",
+            Image: "amazon/amazon-ecs-sample",
+          }),
+        ]),
+      });
+    });
+  });
+});
+
+describe("ビルドしたイメージ", () => {
+  test("imageTag を指定した場合は、タスク定義にECRのイメージを使用する", () => {
+    const { service } = createStacks("stg", (config) => ({
+      ...config,
+      pipeline: {
+        ...config.pipeline,
+        imageBuild: config.pipeline.imageBuild && {
+          ...config.pipeline.imageBuild,
+          imageTag: "5-abc123",
+        },
+      },
+    }));
+    service.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      ContainerDefinitions: Match.arrayWith([
+        Match.objectLike({
+          Name: "lab-infra-container",
+          Image: {
+            "Fn::Join": [
+              "",
+              Match.arrayWith([
+                Match.stringLikeRegexp("/lab-infra-app:5-abc123$"),
+              ]),
+            ],
+          },
+        }),
+      ]),
+    });
+  });
+});
+
+describe("ソース", () => {
+  const withSource = (source: SourceConfig) =>
+    createStacks("stg", (config) => ({
+      ...config,
+      pipeline: { ...config.pipeline, source },
+    }));
+
+  test("s3 の場合はアップロードしたZIPファイルをポーリングで検知する", () => {
+    const { pipeline } = createStacks("stg");
+    expect(pipelineStages(pipeline).Source).toEqual(["S3Source"]);
+    pipeline.hasResourceProperties("AWS::CodePipeline::Pipeline", {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: "Source",
+          Actions: [
+            Match.objectLike({
+              Configuration: Match.objectLike({
+                S3ObjectKey: "source.zip",
+                PollForSourceChanges: true,
+              }),
+            }),
+          ],
+        }),
+      ]),
+    });
+    pipeline.hasOutput("SourceBucketName", {});
+  });
+
+  test("codeCommit の場合はブランチへのプッシュをイベントで検知する", () => {
+    const { pipeline } = withSource({
+      provider: "codeCommit",
+      repositoryName: "lab-infra",
+      branch: "main",
+    });
+    expect(pipelineStages(pipeline).Source).toEqual(["CodeCommitSource"]);
+    pipeline.hasResourceProperties("AWS::CodePipeline::Pipeline", {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: "Source",
+          Actions: [
+            Match.objectLike({
+              Configuration: Match.objectLike({
+                RepositoryName: "lab-infra",
+                BranchName: "main",
+                PollForSourceChanges: false,
+              }),
+            }),
+          ],
+        }),
+      ]),
+    });
+    pipeline.hasResourceProperties("AWS::Events::Rule", {
+      EventPattern: Match.objectLike({
+        source: ["aws.codecommit"],
+        detail: Match.objectLike({ referenceName: ["main"] }),
+      }),
+    });
+    expect(pipeline.findOutputs("SourceBucketName")).toEqual({});
+  });
+
+  test("codeStarConnection の場合は接続を使用してリポジトリを取得する", () => {
+    const connectionArn =
+      "arn:aws:codestar-connections:ap-northeast-1:123456789012:connection/test";
+    const { pipeline } = withSource({
+      provider: "codeStarConnection",
+      connectionArn,
+      owner: "my-org",
+      repository: "lab-infra",
+      branch: "main",
+    });
+    expect(pipelineStages(pipeline).Source).toEqual(["RepositorySource"]);
+    pipeline.hasResourceProperties("AWS::CodePipeline::Pipeline", {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: "Source",
+          Actions: [
+            Match.objectLike({
+              ActionTypeId: Match.objectLike({
+                Provider: "CodeStarSourceConnection",
+              }),
+              Configuration: Match.objectLike({
+                ConnectionArn: connectionArn,
+                FullRepositoryId: "my-org/lab-infra",
+                BranchName: "main",
+              }),
+            }),
+          ],
+        }),
+      ]),
+    });
+    expect(pipeline.findOutputs("SourceBucketName")).toEqual({});
+  });
+});
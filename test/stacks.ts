@@ -0,0 +1,92 @@
+import * as cdk from "aws-cdk-lib";
+import { Template } from "aws-cdk-lib/assertions";
+import { NetworkStack } from "../lib/network-stack";
+import { DatabaseStack } from "../lib/database-stack";
+import { FargateServiceStack } from "../lib/fargate-service-stack";
+import { PipelineStack } from "../lib/pipeline-stack";
+import {
+  EnvironmentConfig,
+  StageName,
+  loadEnvironmentConfig,
+} from "../lib/config/environment-config";
+import { applyPermissionsBoundary } from "../lib/constructs/permissions-boundary";
+
+// テストで使用するsynth時の環境変数
+export const TEST_ENV: NodeJS.ProcessEnv = {
+  LAB_INFRA_APPROVER_EMAILS: "approver@example.com",
+  LAB_INFRA_PIPELINE_NOTIFICATION_EMAILS: "pipeline@example.com",
+  LAB_INFRA_ALARM_EMAILS: "alarm@example.com",
+};
+
+/**
+ * bin/lab-infra.ts と同じ構成でスタックを作成する
+ *
+ * overrides でステージの設定の一部を差し替えられる（イメージのタグの指定など）
+ * 実行するシェルの環境変数に依存しないよう、synth時の環境変数は TEST_ENV の値を使用する
+ */
+export function createStacks(
+  stage: StageName,
+  overrides: (config: EnvironmentConfig) => EnvironmentConfig = (config) =>
+    config
+) {
+  const app = new cdk.App({ context: { stage } });
+  const config = overrides(loadEnvironmentConfig(app, TEST_ENV));
+  const env = { account: config.account, region: config.region };
+
+  const network = new NetworkStack(app, "LabInfraNetworkStack", {
+    env,
+    config,
+  });
+  const database = config.database
+    ? new DatabaseStack(app, "LabInfraDatabaseStack", {
+        env,
+        config,
+        database: config.database,
+        vpc: network.vpc,
+      })
+    : undefined;
+  database?.addDependency(network);
+  const service = new FargateServiceStack(app, "LabInfraFargateServiceStack", {
+    env,
+    config,
+    vpc: network.vpc,
+    database,
+  });
+  service.addDependency(network);
+  if (database) {
+    service.addDependency(database);
+  }
+  const applicationStacks = [network, ...(database ? [database] : []), service];
+  const pipeline = new PipelineStack(app, "LabInfraPipelineStack", {
+    env,
+    config,
+    stacks: applicationStacks,
+  });
+  applicationStacks.forEach((stack) => {
+    applyPermissionsBoundary(stack);
+    stack.addDependency(pipeline);
+  });
+
+  return {
+    config,
+    network: Template.fromStack(network),
+    database: database && Template.fromStack(database),
+    service: Template.fromStack(service),
+    pipeline: Template.fromStack(pipeline),
+  };
+}
+
+// パイプラインのステージ名とアクション名の一覧
+export function pipelineStages(template: Template): Record<string, string[]> {
+  const [pipeline] = Object.values(
+    template.findResources("AWS::CodePipeline::Pipeline")
+  );
+  return Object.fromEntries(
+    pipeline.Properties.Stages.map(
+      (stage: { Name: string; Actions: { Name: string }[] }) => [
+        stage.Name,
+        stage.Actions.map((action) => action.Name),
+      ]
+    )
+  );
+}